@@ -1,20 +1,55 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useChat } from './hooks/useChat';
+import { useAuth } from './hooks/useAuth';
+import { useI18n } from './hooks/useI18n';
+import { useSpeech } from './hooks/useSpeech';
 import { ChatBubble } from './components/ChatBubble';
+import { QueuedMessages } from './components/QueuedMessages';
 import { ChatInput } from './components/ChatInput';
 import { LoginScreen } from './components/LoginScreen';
-import { ChevronDown, Zap, Sparkles, Check, LogOut, MessageSquare, Trash2, X, SquarePen, Search, ArrowLeft, Menu } from 'lucide-react';
-import { ModelId } from './types';
+import { PersonaManager } from './components/PersonaManager';
+import { GenerationSettingsPanel } from './components/GenerationSettingsPanel';
+import { SpeechSettingsPanel } from './components/SpeechSettingsPanel';
+import { VoiceMode } from './components/VoiceMode';
+import { ContextNotice } from './components/ContextNotice';
+import { PersonaAvatar } from './components/PersonaAvatar';
+import { FolderEditor } from './components/FolderEditor';
+import { TagManager } from './components/TagManager';
+import { TagChip, TagDot } from './components/TagChip';
+import { ChevronDown, ChevronRight, Zap, Sparkles, Check, LogOut, MessageSquare, Trash2, X, SquarePen, Search, ArrowLeft, Menu, Download, Upload, FileText, FileCode, FileJson, Languages, UserRound, Settings2, Loader2, Wand2, WifiOff, Pin, PinOff, Folder as FolderIcon, FolderPlus, Tag as TagIcon, Plus, Pencil, MoreHorizontal } from 'lucide-react';
+import { Attachment, ChatSessionMeta, Folder, ModelId, Sender } from './types';
+import { ExportFormat } from './services/sessionTransfer';
+import { normalizeForSearch, SearchResult, SearchSnippet } from './services/searchIndex';
+import { LOCALES, loadUserLocale } from './services/i18n';
 
 const App: React.FC = () => {
-  // User State
-  const [userEmail, setUserEmail] = useState<string | null>(localStorage.getItem('kite_user_email'));
+  // User State: identity comes from the verified ID token
+  const { user, status: authStatus, error: authError, login, logout } = useAuth();
+  const userEmail = user?.email ?? null;
+  const { t, locale, setLocale, formatDate } = useI18n();
+
+  // Each user gets back the language they chose last time
+  useEffect(() => {
+    if (userEmail) loadUserLocale(userEmail);
+  }, [userEmail]);
   
   const { 
     messages, 
+    versions,
     isLoading, 
     sendMessage, 
+    editMessage,
+    regenerateMessage,
+    pendingRetry,
+    retryReply,
+    cancelRetry,
+    isOnline,
+    outbox,
+    cancelQueuedMessage,
+    isReplyingElsewhere,
+    switchVersion,
+    selectImageVariant,
     stopGeneration,
     currentModel, 
     setCurrentModel,
@@ -23,42 +58,103 @@ const App: React.FC = () => {
     startNewChat,
     loadSession,
     deleteSession,
-    clearAllSessions
+    clearAllSessions,
+    exportSessions,
+    importSessions,
+    searchMessages,
+    personas,
+    activePersona,
+    selectPersona,
+    savePersona,
+    deletePersona,
+    folders,
+    newChatFolder,
+    selectFolder,
+    saveFolder,
+    deleteFolder,
+    tags,
+    saveTag,
+    deleteTag,
+    togglePinned,
+    moveSessionToFolder,
+    setSessionTags,
+    renameSession,
+    generationDefaults,
+    sessionGeneration,
+    setGenerationDefaults,
+    setSessionGenerationSettings,
+    contextSummary,
+    droppedAttachments,
+    isCompacting
   } = useChat(userEmail);
 
+  const { speechSettings, updateSpeechSettings, transcriptionSettings, updateTranscriptionSettings, speakingId, speechStatus, speak, pause, resume, stop: stopSpeech } = useSpeech(userEmail);
+
+  // Reading belongs to the chat on screen
+  useEffect(() => {
+    stopSpeech();
+  }, [currentSessionId]);
+
+  // Auto-read: a reply that just finished is read aloud
+  const wasLoadingRef = useRef(false);
+  useEffect(() => {
+    const finished = wasLoadingRef.current && !isLoading;
+    wasLoadingRef.current = isLoading;
+    if (!finished || !speechSettings.autoRead || isVoiceModeOpen) return; // Voice mode reads replies itself
+    const reply = messages[messages.length - 1];
+    if (reply?.sender === Sender.Model && !reply.isError && reply.text) speak(reply);
+  }, [isLoading]);
+
   // UI States
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false);
   const [isProfileDropdownOpen, setIsProfileDropdownOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [viewingImage, setViewingImage] = useState<string | null>(null);
+  const [editImage, setEditImage] = useState<{ attachment: Attachment; key: number }>(); // Handed to the input from the lightbox
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false); // Track search mode
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null); // Search hit being shown
+  const [exportMenuTarget, setExportMenuTarget] = useState<string | null>(null); // Session id, or 'all'
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
+  const [isGenerationSettingsOpen, setIsGenerationSettingsOpen] = useState(false);
+  const [isSpeechSettingsOpen, setIsSpeechSettingsOpen] = useState(false);
+  const [isVoiceModeOpen, setIsVoiceModeOpen] = useState(false);
+  const [folderEditorTarget, setFolderEditorTarget] = useState<Folder | 'new' | null>(null);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [organizeMenuTarget, setOrganizeMenuTarget] = useState<string | null>(null); // Session id
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // Folder id, '' for no folder
+  const [renaming, setRenaming] = useState<{ sessionId: string; title: string } | null>(null);
   
   const modelDropdownRef = useRef<HTMLDivElement>(null);
   const profileDropdownRef = useRef<HTMLDivElement>(null);
   const historySidebarRef = useRef<HTMLDivElement>(null);
   const mainScrollRef = useRef<HTMLElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  const organizeMenuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // Filter sessions based on search query
+  // Filter sessions based on search query (titles), ignoring case and diacritics
+  const normalizedQuery = normalizeForSearch(searchQuery.trim());
   const filteredSessions = sessions.filter(session => 
-    session.title.toLowerCase().includes(searchQuery.toLowerCase())
+    normalizeForSearch(session.title).includes(normalizedQuery)
   );
 
-  // Helper to format date like "Hôm nay" or "31 thg 12, 2025"
-  const formatDate = (timestamp: number) => {
-    const date = new Date(timestamp);
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const msgDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  // History sections: pinned chats, then each folder's, then the others; the tag filter applies to all.
+  // Folder and tag ids with no match (e.g. from an import) are ignored.
+  const activeTagFilter = tags.some(tag => tag.id === tagFilter) ? tagFilter : null;
+  const visibleSessions = activeTagFilter ? sessions.filter(s => s.tagIds?.includes(activeTagFilter)) : sessions;
+  const folderOf = (session: ChatSessionMeta) => folders.some(f => f.id === session.folderId) ? session.folderId : null;
+  const pinnedSessions = visibleSessions.filter(s => s.pinned);
+  const unfiledSessions = visibleSessions.filter(s => !s.pinned && !folderOf(s));
 
-    if (msgDate.getTime() === today.getTime()) {
-        return 'Hôm nay';
-    }
-    
-    // Format: 31 thg 12, 2025
-    return date.toLocaleDateString('vi-VN', { day: 'numeric', month: 'short', year: 'numeric' });
-  };
+  // Messages matching the query, across all sessions
+  const messageResults = useMemo(
+    () => searchQuery.trim() ? searchMessages(searchQuery) : [],
+    [searchMessages, searchQuery]
+  );
 
   // Scroll to BOTTOM when new messages appear (Standard Chat Behavior)
   useEffect(() => {
@@ -70,6 +166,14 @@ const App: React.FC = () => {
     }
   }, [messages, isLoading]);
 
+  // Bring a search hit into view once its session is shown, and fade the highlight after a moment
+  useEffect(() => {
+    if (!highlightedMessageId || !messages.some(m => m.id === highlightedMessageId)) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, messages]);
+
   // Handle click outside to close dropdowns and sidebar
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -79,6 +183,13 @@ const App: React.FC = () => {
       if (profileDropdownRef.current && !profileDropdownRef.current.contains(event.target as Node)) {
         setIsProfileDropdownOpen(false);
       }
+      // Export toggles handle their own clicks
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node) && !(event.target as HTMLElement).closest('[data-export-toggle]')) {
+        setExportMenuTarget(null);
+      }
+      if (organizeMenuRef.current && !organizeMenuRef.current.contains(event.target as Node) && !(event.target as HTMLElement).closest('[data-organize-toggle]')) {
+        setOrganizeMenuTarget(null);
+      }
       if (isHistoryOpen && historySidebarRef.current && !historySidebarRef.current.contains(event.target as Node)) {
         // Only close if click is NOT on the menu toggle button
         const target = event.target as HTMLElement;
@@ -93,15 +204,9 @@ const App: React.FC = () => {
     };
   }, [isHistoryOpen]);
 
-  const handleLogin = (email: string) => {
-    localStorage.setItem('kite_user_email', email);
-    setUserEmail(email);
-  };
-
   const handleLogout = () => {
-    localStorage.removeItem('kite_user_email');
-    setUserEmail(null);
     setIsProfileDropdownOpen(false);
+    logout();
   };
 
   const handleImageClick = (url: string) => {
@@ -112,18 +217,422 @@ const App: React.FC = () => {
     setViewingImage(url);
   };
 
+  // "Edit this image" in the lightbox: the image goes to the input as the source of an image mode prompt
+  const handleEditImage = () => {
+    const match = viewingImage?.match(/^data:([^;]+);base64,(.*)$/);
+    if (!match) return;
+    setEditImage({ attachment: { mimeType: match[1], data: match[2], fileName: `image.${match[1].split('/')[1]}` }, key: Date.now() });
+    setViewingImage(null);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const target = exportMenuTarget;
+    setExportMenuTarget(null);
+    exportSessions(format, target && target !== 'all' ? [target] : undefined)
+      .catch(e => {
+        console.error("Export failed", e);
+        alert(t('export.failed'));
+      });
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = await importSessions(await file.text());
+      alert(count > 0 ? t('import.done', { count }) : t('import.nothingNew'));
+    } catch (err: any) {
+      console.error("Import failed", err);
+      alert(err?.message || t('import.failed'));
+    }
+  };
+
+  // Format picker shared by the per-session and the bulk export buttons
+  const renderExportMenu = (position: string) => (
+    <div
+      ref={exportMenuRef}
+      onClick={(e) => e.stopPropagation()}
+      className={`absolute ${position} w-52 bg-white rounded-2xl shadow-xl border border-slate-100 p-1.5 z-50 animate-in fade-in zoom-in-95 duration-200`}
+    >
+      {([
+        ['markdown', FileText, t('export.markdown')],
+        ['html', FileCode, t('export.html')],
+        ['json', FileJson, t('export.json')],
+      ] as const).map(([format, Icon, label]) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl hover:bg-slate-50 text-sm font-medium text-slate-700 transition-colors text-left"
+        >
+          <Icon size={16} className="text-slate-500" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const startRenaming = (session: ChatSessionMeta) => {
+    setOrganizeMenuTarget(null);
+    setRenaming({ sessionId: session.id, title: session.title });
+  };
+
+  const finishRenaming = () => {
+    if (renaming) renameSession(renaming.sessionId, renaming.title);
+    setRenaming(null);
+  };
+
+  // Title, pin, folder and tags of a session
+  const renderOrganizeMenu = (session: ChatSessionMeta) => (
+    <div
+      ref={organizeMenuRef}
+      onClick={(e) => e.stopPropagation()}
+      className="absolute top-full right-2 mt-1 w-56 max-h-80 overflow-y-auto bg-white rounded-2xl shadow-xl border border-slate-100 p-1.5 z-50 animate-in fade-in zoom-in-95 duration-200"
+    >
+      <button
+        onClick={() => startRenaming(session)}
+        className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl hover:bg-slate-50 text-sm font-medium text-slate-700 transition-colors text-left"
+      >
+        <Pencil size={16} className="text-slate-500" />
+        {t('sidebar.rename')}
+      </button>
+      <button
+        onClick={() => togglePinned(session.id)}
+        className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl hover:bg-slate-50 text-sm font-medium text-slate-700 transition-colors text-left"
+      >
+        {session.pinned ? <PinOff size={16} className="text-slate-500" /> : <Pin size={16} className="text-slate-500" />}
+        {session.pinned ? t('sidebar.unpin') : t('sidebar.pin')}
+      </button>
+
+      <p className="px-3 pt-2 pb-1 text-xs font-semibold text-slate-400 uppercase">{t('sidebar.moveTo')}</p>
+      {[null, ...folders].map(folder => (
+        <button
+          key={folder?.id ?? 'none'}
+          onClick={() => moveSessionToFolder(session.id, folder?.id ?? null)}
+          className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl hover:bg-slate-50 text-sm text-slate-700 transition-colors text-left"
+        >
+          <FolderIcon size={16} className="text-slate-400 flex-shrink-0" />
+          <span className="flex-1 truncate">{folder?.name ?? t('sidebar.noFolder')}</span>
+          {(folder?.id ?? null) === folderOf(session) && <Check size={14} className="text-slate-900" />}
+        </button>
+      ))}
+
+      <p className="px-3 pt-2 pb-1 text-xs font-semibold text-slate-400 uppercase">{t('tag.title')}</p>
+      {tags.map(tag => {
+        const hasTag = !!session.tagIds?.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            onClick={() => setSessionTags(session.id, hasTag ? session.tagIds.filter(id => id !== tag.id) : [...(session.tagIds || []), tag.id])}
+            className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl hover:bg-slate-50 text-sm text-slate-700 transition-colors text-left"
+          >
+            <TagDot color={tag.color} className="w-2.5 h-2.5 mx-[3px]" />
+            <span className="flex-1 truncate">{tag.name}</span>
+            {hasTag && <Check size={14} className="text-slate-900" />}
+          </button>
+        );
+      })}
+      <button
+        onClick={() => {
+          setOrganizeMenuTarget(null);
+          setIsTagManagerOpen(true);
+        }}
+        className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl hover:bg-slate-50 text-sm text-slate-500 transition-colors text-left"
+      >
+        <Settings2 size={16} />
+        {t('tag.manage')}
+      </button>
+    </div>
+  );
+
+  // Sessions are dragged onto a folder, or onto the other chats to take them out of their folder
+  const SESSION_DRAG_TYPE = 'application/x-kite-session';
+  const dropZone = (folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(folderId ?? '');
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const sessionId = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+      if (sessionId) moveSessionToFolder(sessionId, folderId);
+    },
+  });
+
+  const renderSession = (session: ChatSessionMeta) => {
+    const sessionTags = tags.filter(tag => session.tagIds?.includes(tag.id));
+    const isMenuOpen = exportMenuTarget === session.id || organizeMenuTarget === session.id;
+    const isRenaming = renaming?.sessionId === session.id;
+    return (
+        <div 
+            key={session.id}
+            draggable={!isSearching && !isRenaming}
+            onDragStart={(e) => {
+                e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+                e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragEnd={() => setDropTarget(null)}
+            className={`group relative flex items-center justify-between p-3 rounded-xl cursor-pointer transition-all ${
+                currentSessionId === session.id && !isSearching
+                ? 'bg-slate-100 text-slate-900 font-medium' 
+                : 'text-slate-700 hover:bg-slate-50'
+            }`}
+            onClick={() => {
+                loadSession(session.id);
+                setIsHistoryOpen(false);
+                // Optional: Reset search on selection?
+                // exitSearchMode();
+            }}
+        >
+            {isRenaming ? (
+                <input
+                    type="text"
+                    value={renaming.title}
+                    onChange={(e) => setRenaming({ sessionId: session.id, title: e.target.value })}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={finishRenaming}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRenaming();
+                        if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    className="flex-1 min-w-0 -my-1 px-2 py-1 mr-2 rounded-lg bg-white border border-slate-200 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200"
+                    autoFocus
+                />
+            ) : (
+                <span
+                    className="truncate flex-1 text-sm pr-2"
+                    onDoubleClick={isSearching ? undefined : (e) => {
+                        e.stopPropagation();
+                        startRenaming(session);
+                    }}
+                >
+                    {session.title || t('chat.untitled')}
+                </span>
+            )}
+            {sessionTags.length > 0 && (
+                <span className="flex items-center gap-0.5 flex-shrink-0 mr-1" title={sessionTags.map(tag => tag.name).join(', ')}>
+                    {sessionTags.map(tag => <TagDot key={tag.id} color={tag.color} />)}
+                </span>
+            )}
+            
+            {/* Date or Delete Button */}
+            {isSearching ? (
+                <span className="text-xs text-slate-500 flex-shrink-0">
+                    {formatDate(session.updatedAt)}
+                </span>
+            ) : !isRenaming && (
+                <>
+                    {currentSessionId !== session.id && (
+                        <MessageSquare size={16} className="text-slate-400 opacity-0 group-hover:opacity-0 hidden" />
+                    )}
+                    <div className={`${isMenuOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} flex items-center gap-0.5 transition-all absolute right-2 bg-white/80 backdrop-blur-sm rounded-lg`}>
+                        <button 
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                togglePinned(session.id);
+                            }}
+                            className="p-1.5 hover:bg-slate-100 hover:text-slate-900 rounded-lg transition-all"
+                            title={session.pinned ? t('sidebar.unpin') : t('sidebar.pin')}
+                        >
+                            {session.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                        </button>
+                        <button 
+                            data-organize-toggle
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setOrganizeMenuTarget(organizeMenuTarget === session.id ? null : session.id);
+                            }}
+                            className="p-1.5 hover:bg-slate-100 hover:text-slate-900 rounded-lg transition-all"
+                            title={t('sidebar.more')}
+                        >
+                            <MoreHorizontal size={14} />
+                        </button>
+                        <button 
+                            data-export-toggle
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setExportMenuTarget(exportMenuTarget === session.id ? null : session.id);
+                            }}
+                            className="p-1.5 hover:bg-slate-100 hover:text-slate-900 rounded-lg transition-all"
+                            title={t('sidebar.export')}
+                        >
+                            <Download size={14} />
+                        </button>
+                        <button 
+                            onClick={(e) => deleteSession(session.id, e)}
+                            className="p-1.5 hover:bg-red-50 hover:text-red-500 rounded-lg transition-all"
+                            title={t('common.delete')}
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                    {exportMenuTarget === session.id && renderExportMenu('top-full right-2 mt-1')}
+                    {organizeMenuTarget === session.id && renderOrganizeMenu(session)}
+                </>
+            )}
+        </div>
+    );
+  };
+
+  const renderFolder = (folder: Folder) => {
+    const folderSessions = visibleSessions.filter(s => !s.pinned && folderOf(s) === folder.id);
+    if (activeTagFilter && folderSessions.length === 0) return null;
+    const isCollapsed = collapsedFolders.includes(folder.id);
+    return (
+        <div
+            key={folder.id}
+            {...dropZone(folder.id)}
+            className={`rounded-xl transition-colors ${dropTarget === folder.id ? 'bg-blue-50 ring-2 ring-blue-200' : ''}`}
+        >
+            <div
+                className="group relative flex items-center gap-2 p-2.5 rounded-xl cursor-pointer text-slate-700 hover:bg-slate-50 transition-all"
+                onClick={() => setCollapsedFolders(prev => isCollapsed ? prev.filter(id => id !== folder.id) : [...prev, folder.id])}
+            >
+                {isCollapsed ? <ChevronRight size={14} className="text-slate-400" /> : <ChevronDown size={14} className="text-slate-400" />}
+                <FolderIcon size={16} className="text-slate-500 flex-shrink-0" />
+                <span className="truncate flex-1 text-sm font-medium">{folder.name}</span>
+                <span className="text-xs text-slate-400 group-hover:opacity-0">{folderSessions.length}</span>
+                <div className="opacity-0 group-hover:opacity-100 flex items-center gap-0.5 transition-all absolute right-2 bg-white/80 backdrop-blur-sm rounded-lg">
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            startNewChat();
+                            selectFolder(folder.id);
+                            setIsHistoryOpen(false);
+                        }}
+                        className="p-1.5 hover:bg-slate-100 hover:text-slate-900 rounded-lg transition-all"
+                        title={t('folder.newChat')}
+                    >
+                        <Plus size={14} />
+                    </button>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            setFolderEditorTarget(folder);
+                        }}
+                        className="p-1.5 hover:bg-slate-100 hover:text-slate-900 rounded-lg transition-all"
+                        title={t('folder.edit')}
+                    >
+                        <Pencil size={14} />
+                    </button>
+                </div>
+            </div>
+            {!isCollapsed && folderSessions.length > 0 && (
+                <div className="pl-4 space-y-1">
+                    {folderSessions.map(renderSession)}
+                </div>
+            )}
+        </div>
+    );
+  };
+
+  const openSearchResult = async (result: SearchResult) => {
+    setIsHistoryOpen(false);
+    await loadSession(result.sessionId, result.messageId);
+    setHighlightedMessageId(result.messageId);
+  };
+
+  const renderSnippet = ({ text, highlights }: SearchSnippet) => {
+    const pieces: React.ReactNode[] = [];
+    let position = 0;
+    highlights.forEach(([start, end], i) => {
+      if (start < position) return; // Overlapping hit
+      pieces.push(text.slice(position, start));
+      pieces.push(<mark key={i} className="bg-amber-100 text-slate-900 rounded px-0.5">{text.slice(start, end)}</mark>);
+      position = end;
+    });
+    pieces.push(text.slice(position));
+    return pieces;
+  };
+
   const exitSearchMode = () => {
       setIsSearching(false);
       setSearchQuery('');
   };
 
+  if (authStatus === 'loading') {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-50">
+        <div className="w-6 h-6 border-2 border-slate-300 border-t-slate-900 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
   if (!userEmail) {
-    return <LoginScreen onLogin={handleLogin} />;
+    return <LoginScreen onLogin={login} error={authError} />;
   }
 
   return (
     <div className="flex h-screen bg-slate-50 relative overflow-hidden font-sans text-slate-900">
       
+      {isPersonaManagerOpen && (
+        <PersonaManager
+          personas={personas}
+          onSave={savePersona}
+          onDelete={deletePersona}
+          onClose={() => setIsPersonaManagerOpen(false)}
+        />
+      )}
+
+      {folderEditorTarget && (
+        <FolderEditor
+          folder={folderEditorTarget === 'new' ? null : folderEditorTarget}
+          onSave={saveFolder}
+          onDelete={deleteFolder}
+          onClose={() => setFolderEditorTarget(null)}
+        />
+      )}
+
+      {isTagManagerOpen && (
+        <TagManager
+          tags={tags}
+          onSave={saveTag}
+          onDelete={deleteTag}
+          onClose={() => setIsTagManagerOpen(false)}
+        />
+      )}
+
+      {isGenerationSettingsOpen && (
+        <GenerationSettingsPanel
+          defaults={generationDefaults}
+          overrides={sessionGeneration}
+          onSaveDefaults={setGenerationDefaults}
+          onSaveOverrides={setSessionGenerationSettings}
+          onClose={() => setIsGenerationSettingsOpen(false)}
+        />
+      )}
+
+      {isVoiceModeOpen && (
+        <VoiceMode
+          messages={messages}
+          isLoading={isLoading}
+          sendMessage={(text) => sendMessage(text)}
+          stopGeneration={stopGeneration}
+          speak={speak}
+          stopSpeech={stopSpeech}
+          speakingId={speakingId}
+          transcription={transcriptionSettings}
+          onClose={() => setIsVoiceModeOpen(false)}
+        />
+      )}
+
+      {isSpeechSettingsOpen && (
+        <SpeechSettingsPanel
+          settings={speechSettings}
+          transcription={transcriptionSettings}
+          onSave={updateSpeechSettings}
+          onSaveTranscription={updateTranscriptionSettings}
+          onClose={() => setIsSpeechSettingsOpen(false)}
+        />
+      )}
+
       {/* Lightbox for Viewing Image (Full Screen) - Moved to Portal */}
       {viewingImage && createPortal(
         <div 
@@ -136,6 +645,15 @@ const App: React.FC = () => {
             >
                 <X size={24} />
             </button>
+            {viewingImage.startsWith('data:image/') && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); handleEditImage(); }}
+                    className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-500 px-4 py-2.5 rounded-full shadow-lg transition-all"
+                >
+                    <Wand2 size={16} />
+                    {t('image.editThis')}
+                </button>
+            )}
             <img 
                 src={viewingImage} 
                 alt="Full view" 
@@ -174,7 +692,7 @@ const App: React.FC = () => {
                         ref={searchInputRef}
                         type="text"
                         className={`block w-full py-2.5 border-none rounded-xl bg-slate-100 text-sm font-medium text-slate-800 placeholder:text-slate-400 focus:ring-0 transition-all outline-none ${isSearching ? 'pl-3' : 'pl-9 pr-3'}`}
-                        placeholder="Tìm kiếm cuộc trò chuyện"
+                        placeholder={t('sidebar.searchPlaceholder')}
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
                         onFocus={() => setIsSearching(true)}
@@ -193,77 +711,145 @@ const App: React.FC = () => {
                         className="w-full flex items-center gap-3 p-3 rounded-xl hover:bg-slate-100 text-slate-700 font-medium transition-colors mb-4 group"
                     >
                         <SquarePen size={18} className="text-slate-500 group-hover:text-slate-800 transition-colors" />
-                        Cuộc trò chuyện mới
+                        {t('sidebar.newChat')}
                     </button>
                 )}
 
                 {/* Search Mode: Show Section Header */}
                 {isSearching && (
                     <div className="px-2 py-2 text-sm font-semibold text-slate-900 mb-1">
-                        {searchQuery ? 'Kết quả' : 'Gần đây'}
+                        {searchQuery ? t('sidebar.results') : t('sidebar.recent')}
                     </div>
                 )}
 
-                {sessions.length === 0 ? (
+                {sessions.length === 0 && (isSearching || folders.length === 0) ? (
                     <div className="text-center py-10 text-slate-400 text-sm">
-                        Chưa có cuộc trò chuyện nào
+                        {t('sidebar.empty')}
+                    </div>
+                ) : !isSearching ? (
+                    <>
+                    {/* Tag filter */}
+                    <div className="flex flex-wrap items-center gap-1.5 px-2 pb-2">
+                        {tags.map(tag => (
+                            <TagChip key={tag.id} tag={tag} isActive={tag.id === activeTagFilter} onClick={() => setTagFilter(tag.id === activeTagFilter ? null : tag.id)} />
+                        ))}
+                        {activeTagFilter && (
+                            <button onClick={() => setTagFilter(null)} className="px-2 py-0.5 text-xs font-medium text-slate-500 hover:text-slate-800 transition-colors">
+                                {t('sidebar.showAll')}
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setIsTagManagerOpen(true)}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-dashed border-slate-300 text-xs font-medium text-slate-500 hover:text-slate-800 hover:border-slate-400 transition-colors"
+                            title={t('tag.manage')}
+                        >
+                            <TagIcon size={12} />
+                            {tags.length === 0 && t('tag.title')}
+                        </button>
+                    </div>
+
+                    {pinnedSessions.length > 0 && (
+                        <>
+                        <p className="px-2 pt-2 pb-1 text-xs font-semibold text-slate-400 uppercase">{t('sidebar.pinned')}</p>
+                        {pinnedSessions.map(renderSession)}
+                        </>
+                    )}
+
+                    <div className="flex items-center justify-between px-2 pt-3 pb-1">
+                        <p className="text-xs font-semibold text-slate-400 uppercase">{t('sidebar.folders')}</p>
+                        <button onClick={() => setFolderEditorTarget('new')} className="p-1 -mr-1 text-slate-400 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors" title={t('folder.new')}>
+                            <FolderPlus size={14} />
+                        </button>
+                    </div>
+                    {folders.map(renderFolder)}
+
+                    <div
+                        {...dropZone(null)}
+                        className={`rounded-xl space-y-1 transition-colors ${dropTarget === '' ? 'bg-blue-50 ring-2 ring-blue-200' : ''}`}
+                    >
+                        <p className="px-2 pt-3 pb-1 text-xs font-semibold text-slate-400 uppercase">{t('sidebar.chats')}</p>
+                        {unfiledSessions.map(renderSession)}
                     </div>
-                ) : filteredSessions.length === 0 ? (
+
+                    {activeTagFilter && visibleSessions.length === 0 && (
+                        <div className="text-center py-6 text-slate-400 text-sm">
+                            {t('sidebar.noTagged')}
+                        </div>
+                    )}
+                    </>
+                ) : filteredSessions.length === 0 && messageResults.length === 0 ? (
                     <div className="text-center py-10 text-slate-400 text-sm">
-                        Không tìm thấy kết quả
+                        {t('sidebar.noResults')}
                     </div>
                 ) : (
-                    filteredSessions.map(session => (
-                        <div 
-                            key={session.id}
-                            className={`group relative flex items-center justify-between p-3 rounded-xl cursor-pointer transition-all ${
-                                currentSessionId === session.id && !isSearching
-                                ? 'bg-slate-100 text-slate-900 font-medium' 
-                                : 'text-slate-700 hover:bg-slate-50'
-                            }`}
-                            onClick={() => {
-                                loadSession(session.id);
-                                setIsHistoryOpen(false);
-                                // Optional: Reset search on selection?
-                                // exitSearchMode();
-                            }}
-                        >
-                            <span className="truncate flex-1 text-sm pr-2">{session.title}</span>
-                            
-                            {/* Date or Delete Button */}
-                            {isSearching ? (
-                                <span className="text-xs text-slate-500 flex-shrink-0">
-                                    {formatDate(session.updatedAt)}
-                                </span>
-                            ) : (
-                                <>
-                                    {currentSessionId !== session.id && (
-                                        <MessageSquare size={16} className="text-slate-400 opacity-0 group-hover:opacity-0 hidden" />
-                                    )}
-                                    <button 
-                                        onClick={(e) => deleteSession(session.id, e)}
-                                        className="opacity-0 group-hover:opacity-100 p-1.5 hover:bg-red-50 hover:text-red-500 rounded-lg transition-all absolute right-2 bg-white/80 backdrop-blur-sm"
-                                        title="Xóa"
-                                    >
-                                        <Trash2 size={14} />
-                                    </button>
-                                </>
-                            )}
+                    <>
+                    {filteredSessions.map(renderSession)}
+
+                    {/* Search Mode: matching messages with highlighted snippets */}
+                    {messageResults.length > 0 && (
+                        <>
+                        <div className="px-2 pt-4 pb-2 text-sm font-semibold text-slate-900">
+                            {t('sidebar.messages')}
                         </div>
-                    ))
+                        {messageResults.map(result => (
+                            <button
+                                key={`${result.sessionId}/${result.messageId}`}
+                                onClick={() => openSearchResult(result)}
+                                className="w-full text-left p-3 rounded-xl hover:bg-slate-50 transition-colors"
+                            >
+                                <div className="flex items-center justify-between gap-2 mb-1">
+                                    <span className="text-xs font-semibold text-slate-700 truncate">
+                                        {sessions.find(s => s.id === result.sessionId)?.title || t('chat.untitled')}
+                                    </span>
+                                    <span className="text-xs text-slate-400 flex-shrink-0">
+                                        {formatDate(result.timestamp.getTime())}
+                                    </span>
+                                </div>
+                                <p className="text-sm text-slate-600 line-clamp-3 break-words">
+                                    <span className="text-slate-400">{result.sender === Sender.User ? t('common.you') : 'k-ite'}: </span>
+                                    {renderSnippet(result.snippet)}
+                                </p>
+                            </button>
+                        ))}
+                        </>
+                    )}
+                    </>
                 )}
             </div>
 
             {/* Footer actions only in Normal Mode */}
-            {!isSearching && sessions.length > 0 && (
-                <div className="p-4 border-t border-slate-100">
+            {!isSearching && (
+                <div className="p-4 border-t border-slate-100 space-y-1">
+                    <input type="file" ref={importInputRef} onChange={handleImportFile} accept=".json,application/json" className="hidden" />
+                    <div className="relative flex gap-1">
+                        {sessions.length > 0 && (
+                        <button 
+                            data-export-toggle
+                            onClick={() => setExportMenuTarget(exportMenuTarget === 'all' ? null : 'all')}
+                            className="flex-1 flex items-center justify-center gap-2 p-2.5 text-xs text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        >
+                            <Download size={14} />
+                            {t('sidebar.exportAll')}
+                        </button>
+                        )}
+                        <button 
+                            onClick={() => importInputRef.current?.click()}
+                            className="flex-1 flex items-center justify-center gap-2 p-2.5 text-xs text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        >
+                            <Upload size={14} />
+                            {t('sidebar.import')}
+                        </button>
+                        {exportMenuTarget === 'all' && renderExportMenu('bottom-full left-0 mb-2')}
+                    </div>
+                    {sessions.length > 0 && (
                     <button 
                         onClick={clearAllSessions}
                         className="w-full flex items-center justify-center gap-2 p-2.5 text-xs text-red-500 hover:bg-red-50 rounded-lg transition-colors"
                     >
                         <Trash2 size={14} />
-                        Xóa tất cả lịch sử
+                        {t('sidebar.clearAll')}
                     </button>
+                    )}
                 </div>
             )}
         </div>
@@ -314,7 +900,7 @@ const App: React.FC = () => {
                       </div>
                       <div>
                         <div className="font-semibold text-sm">k-ite 1</div>
-                        <div className="text-xs opacity-70">Nhanh & Hiệu quả</div>
+                        <div className="text-xs opacity-70">{t('model.flash.description')}</div>
                       </div>
                       {currentModel === 'gemini-3-flash-preview' && <Check size={16} className="ml-auto text-amber-600" />}
                     </button>
@@ -333,7 +919,7 @@ const App: React.FC = () => {
                       </div>
                       <div>
                         <div className="font-semibold text-sm">k-ite 1.5</div>
-                        <div className="text-xs opacity-70">Thông minh & Sáng tạo</div>
+                        <div className="text-xs opacity-70">{t('model.pro.description')}</div>
                       </div>
                       {currentModel === 'gemini-3-pro-preview' && <Check size={16} className="ml-auto text-purple-600" />}
                     </button>
@@ -348,21 +934,49 @@ const App: React.FC = () => {
                     onClick={() => setIsProfileDropdownOpen(!isProfileDropdownOpen)}
                     className="w-9 h-9 rounded-full bg-slate-900 text-white flex items-center justify-center text-sm font-medium hover:ring-4 ring-slate-100 transition-all"
                 >
-                    {userEmail?.charAt(0).toUpperCase()}
+                    {(user?.name || userEmail).charAt(0).toUpperCase()}
                 </button>
 
                 {isProfileDropdownOpen && (
                     <div className="absolute top-full right-0 mt-2 w-56 bg-white rounded-2xl shadow-xl border border-slate-100 p-2 z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-right">
                          <div className="px-3 py-2 border-b border-slate-50 mb-1">
-                            <p className="text-xs font-semibold text-slate-500 uppercase">Tài khoản</p>
+                            <p className="text-xs font-semibold text-slate-500 uppercase">{t('profile.account')}</p>
+                            {user?.name && <p className="text-sm font-semibold text-slate-900 truncate">{user.name}</p>}
                             <p className="text-sm font-medium text-slate-900 truncate">{userEmail}</p>
                          </div>
+                         {/* Language switcher; the choice is remembered for this user */}
+                         <div className="px-3 py-2 border-b border-slate-50 mb-1">
+                            <p className="flex items-center gap-1.5 text-xs font-semibold text-slate-500 uppercase mb-1.5">
+                                <Languages size={12} />
+                                {t('profile.language')}
+                            </p>
+                            <div className="flex gap-1 bg-slate-100 rounded-lg p-0.5">
+                                {LOCALES.map(option => (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => setLocale(option.id, userEmail)}
+                                        className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                                            locale === option.id ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                                        }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                         </div>
+                         <button
+                            onClick={() => { setIsProfileDropdownOpen(false); setIsPersonaManagerOpen(true); }}
+                            className="w-full flex items-center gap-2 p-2.5 rounded-xl text-slate-700 hover:bg-slate-50 text-sm font-medium transition-colors"
+                        >
+                            <UserRound size={16} />
+                            {t('persona.manage')}
+                         </button>
                          <button 
                             onClick={handleLogout}
                             className="w-full flex items-center gap-2 p-2.5 rounded-xl text-red-600 hover:bg-red-50 text-sm font-medium transition-colors"
                         >
                             <LogOut size={16} />
-                            Đăng xuất
+                            {t('profile.logout')}
                          </button>
                     </div>
                 )}
@@ -370,30 +984,110 @@ const App: React.FC = () => {
           </div>
         </header>
 
+        {!isOnline && (
+            <div className="flex-none flex items-center justify-center gap-2 px-4 py-1.5 bg-amber-50 border-b border-amber-200 text-amber-700 text-xs font-medium">
+                <WifiOff size={14} />
+                {t('offline.banner')}
+            </div>
+        )}
+
+        {isReplyingElsewhere && (
+            <div className="flex-none flex items-center justify-center gap-2 px-4 py-1.5 bg-blue-50 border-b border-blue-100 text-blue-700 text-xs font-medium">
+                <Loader2 size={14} className="animate-spin" />
+                {t('sync.replyingElsewhere')}
+            </div>
+        )}
+
         {/* Messages Area */}
         <main 
             ref={mainScrollRef}
             className="flex-1 overflow-y-auto w-full px-4 md:px-0 pt-4 pb-2 scroll-smooth"
         >
           <div className="max-w-3xl mx-auto w-full">
-            {messages.length === 0 ? (
+            {messages.length === 0 && outbox.length === 0 ? (
                 // Welcome Screen
                <div className="flex flex-col items-center justify-center min-h-[50vh] text-center p-8 animate-in fade-in zoom-in duration-500">
-                    <h2 className="text-2xl font-bold text-slate-800 mb-2">Xin chào, tôi có thể giúp gì?</h2>
+                    <h2 className="text-2xl font-bold text-slate-800 mb-2">{t('welcome.title')}</h2>
                     <p className="text-slate-500 max-w-md">
-                        k-ite là trợ lý AI thông minh được thiết kế để hỗ trợ bạn trong công việc, học tập và sáng tạo.
+                        {t('welcome.subtitle')}
                     </p>
+
+                    {newChatFolder && (
+                        <div className="mt-6 flex items-center gap-2 pl-3 pr-1.5 py-1 rounded-full bg-slate-100 text-sm font-medium text-slate-700">
+                            <FolderIcon size={14} className="text-slate-500" />
+                            {t('folder.newChatIn', { name: newChatFolder.name })}
+                            <button onClick={() => selectFolder(null)} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-slate-200 transition-colors" title={t('folder.leave')}>
+                                <X size={14} />
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Persona picker: applies to the conversation about to start */}
+                    <p className="mt-8 mb-3 text-xs font-semibold text-slate-400 uppercase">{t('persona.pick')}</p>
+                    <div className="flex flex-wrap justify-center gap-2 max-w-lg">
+                        {[null, ...personas].map(persona => {
+                            const isActive = (activePersona?.id ?? null) === (persona?.id ?? null);
+                            return (
+                                <button
+                                    key={persona?.id ?? 'default'}
+                                    onClick={() => selectPersona(persona?.id ?? null)}
+                                    className={`flex items-center gap-2 pl-1.5 pr-3 py-1.5 rounded-full border text-sm font-medium transition-all ${
+                                        isActive ? 'bg-slate-900 border-slate-900 text-white shadow-md' : 'bg-white border-slate-200 text-slate-700 hover:border-slate-300 hover:bg-slate-50'
+                                    }`}
+                                >
+                                    <PersonaAvatar persona={persona} className="w-6 h-6 text-xs" />
+                                    {persona?.name ?? 'k-ite'}
+                                </button>
+                            );
+                        })}
+                        <button
+                            onClick={() => setIsPersonaManagerOpen(true)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-dashed border-slate-300 text-sm font-medium text-slate-500 hover:text-slate-800 hover:border-slate-400 transition-colors"
+                            title={t('persona.manage')}
+                        >
+                            <Settings2 size={14} />
+                            {t('persona.title')}
+                        </button>
+                    </div>
                </div>
             ) : (
                 // Messages List
                 <div className="flex flex-col gap-2 pb-4">
-                     {messages.map((message) => (
-                        <ChatBubble 
-                            key={message.id} 
-                            message={message} 
-                            onImageClick={handleImageClick}
-                        />
+                     {!contextSummary && droppedAttachments > 0 && <ContextNotice droppedAttachments={droppedAttachments} />}
+                     {messages.map((message, index) => (
+                        <React.Fragment key={message.id}>
+                            <ChatBubble 
+                                message={message} 
+                                onImageClick={handleImageClick}
+                                version={versions[message.id]}
+                                onSwitchVersion={(direction) => switchVersion(message.id, direction)}
+                                onEdit={message.sender === Sender.User ? (text) => editMessage(message.id, text) : undefined}
+                                onRegenerate={message.sender === Sender.Model ? () => regenerateMessage(message.id) : undefined}
+                                isBusy={isLoading || isReplyingElsewhere}
+                                isHighlighted={message.id === highlightedMessageId}
+                                persona={activePersona}
+                                onSendCodeOutput={message.sender === Sender.Model ? (text) => sendMessage(text) : undefined}
+                                onSelectVariant={(index) => selectImageVariant(message.id, index)}
+                                onReadAloud={message.sender === Sender.Model ? () => speak(message) : undefined}
+                                speechStatus={message.id === speakingId ? speechStatus : undefined}
+                                onSpeechControl={(action) => action === 'pause' ? pause() : action === 'resume' ? resume() : stopSpeech()}
+                                onRetry={message.isError && index === messages.length - 1 && message.errorKind !== 'invalidRequest' ? () => retryReply(message.id) : undefined}
+                                retryAt={pendingRetry?.messageId === message.id ? pendingRetry.retryAt : undefined}
+                                onCancelRetry={cancelRetry}
+                            />
+                            {/* Everything above was folded into a summary for the model */}
+                            {message.id === contextSummary?.upToMessageId && (
+                                <ContextNotice summary={contextSummary} summarizedCount={index + 1} droppedAttachments={droppedAttachments} />
+                            )}
+                        </React.Fragment>
                     ))}
+                    {isCompacting && (
+                        <div className="flex items-center justify-center gap-2 text-xs text-slate-400 animate-in fade-in">
+                            <Loader2 size={14} className="animate-spin" />
+                            {t('context.compacting')}
+                        </div>
+                    )}
+                    {outbox.length > 0 && <QueuedMessages messages={outbox} isOnline={isOnline} onCancel={cancelQueuedMessage} />}
                 </div>
             )}
             
@@ -402,7 +1096,7 @@ const App: React.FC = () => {
 
         {/* Input Area - Adjusted for neat bottom placement */}
         <div className="flex-none w-full bg-gradient-to-t from-slate-50 via-slate-50/80 to-transparent pt-4 pb-2 z-30">
-             <ChatInput onSend={sendMessage} onStop={stopGeneration} isLoading={isLoading} />
+             <ChatInput onSend={sendMessage} onStop={stopGeneration} isLoading={isLoading || isReplyingElsewhere} onOpenSettings={() => setIsGenerationSettingsOpen(true)} onOpenSpeechSettings={() => setIsSpeechSettingsOpen(true)} onStartVoiceMode={() => setIsVoiceModeOpen(true)} transcription={transcriptionSettings} editImage={editImage} />
         </div>
 
       </div>
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Chart, niceTicks } from '../services/chartSpec';
+import { useI18n } from '../hooks/useI18n';
+
+// Draws a chart from services/chartSpec.ts as plain SVG: hovering shows values, clicking a legend
+// entry hides its series. The SVG is self-contained (inline styles, no classes) so it can be exported.
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const MARGIN = { top: 56, right: 20, bottom: 56, left: 64 };
+const COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16', '#f97316', '#64748b', '#14b8a6', '#a855f7'];
+const FONT = 'Inter, Arial, sans-serif';
+const MAX_LABEL_CHARS = 14;
+
+interface Hover {
+  category: number;
+  series: number;
+}
+
+const truncate = (label: string) => label.length > MAX_LABEL_CHARS ? `${label.slice(0, MAX_LABEL_CHARS - 1)}…` : label;
+
+// Value box next to the hovered mark, kept inside the chart
+const Tooltip = ({ x, y, lines }: { x: number; y: number; lines: string[] }) => {
+  const width = Math.max(...lines.map(line => line.length)) * 6.5 + 16;
+  const height = lines.length * 16 + 10;
+  const left = Math.min(Math.max(x - width / 2, 4), WIDTH - width - 4);
+  const top = Math.max(y - height - 10, 4);
+  return (
+    <g pointerEvents="none">
+      <rect x={left} y={top} width={width} height={height} rx={6} fill="#0f172a" opacity={0.92} />
+      {lines.map((line, i) => (
+        <text key={i} x={left + 8} y={top + 19 + i * 16} fill="#fff" fontSize={12} fontWeight={i === 0 ? 600 : 400} fontFamily={FONT}>{line}</text>
+      ))}
+    </g>
+  );
+};
+
+const Legend = ({ chart, hidden, onToggle }: { chart: Chart; hidden: Set<number>; onToggle: (index: number) => void }) => {
+  const names = chart.mark === 'pie' ? chart.categories : chart.series.map(s => s.name);
+  if (names.length < 2) return null;
+  let x = MARGIN.left;
+  return (
+    <g fontFamily={FONT} fontSize={12}>
+      {names.map((name, i) => {
+        const label = truncate(name);
+        const itemX = x;
+        x += label.length * 7 + 28;
+        if (x > WIDTH) return null;
+        return (
+          <g key={i} transform={`translate(${itemX}, ${MARGIN.top - 16})`} onClick={() => onToggle(i)} style={{ cursor: 'pointer' }} opacity={hidden.has(i) ? 0.35 : 1}>
+            <rect width={10} height={10} y={-9} rx={2} fill={COLORS[i % COLORS.length]} />
+            <text x={15} fill="#475569">{label}</text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export const ChartView = ({ chart }: { chart: Chart }) => {
+  const { formatNumber } = useI18n();
+  const [hover, setHover] = useState<Hover | null>(null);
+  const [hidden, setHidden] = useState<Set<number>>(new Set());
+  const format = (value: number) => formatNumber(value, { maximumFractionDigits: 2 });
+  const formatTick = (value: number) => formatNumber(value, { notation: 'compact', maximumFractionDigits: 1 });
+
+  const toggle = (index: number) => setHidden(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    return next;
+  });
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  let body: React.ReactNode;
+  let tooltip: React.ReactNode = null;
+
+  if (chart.mark === 'pie') {
+    const values = chart.series[0].values.map((v, i) => hidden.has(i) ? 0 : v || 0);
+    const total = values.reduce((sum, v) => sum + v, 0);
+    const cx = WIDTH / 2;
+    const cy = MARGIN.top + plotHeight / 2 + 8;
+    const radius = Math.min(plotWidth, plotHeight) / 2;
+    let angle = -Math.PI / 2;
+
+    body = values.map((value, i) => {
+      if (value <= 0 || total <= 0) return null;
+      const start = angle;
+      const sweep = (value / total) * Math.PI * 2;
+      angle += sweep;
+      const isHovered = hover?.category === i;
+      const r = isHovered ? radius + 6 : radius;
+      const mid = start + sweep / 2;
+      if (isHovered) {
+        tooltip = <Tooltip x={cx + Math.cos(mid) * r} y={cy + Math.sin(mid) * r} lines={[chart.categories[i], `${format(value)} (${format((value / total) * 100)}%)`]} />;
+      }
+      // A lone slice is a full circle, which an arc path can't draw
+      const path = sweep >= Math.PI * 2 - 1e-6
+        ? `M ${cx - r} ${cy} a ${r} ${r} 0 1 0 ${r * 2} 0 a ${r} ${r} 0 1 0 ${-r * 2} 0`
+        : `M ${cx} ${cy} L ${cx + Math.cos(start) * r} ${cy + Math.sin(start) * r} A ${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${cx + Math.cos(angle) * r} ${cy + Math.sin(angle) * r} Z`;
+      return (
+        <g key={i}>
+          <path
+            d={path}
+            fill={COLORS[i % COLORS.length]}
+            stroke="#fff"
+            strokeWidth={2}
+            onMouseEnter={() => setHover({ category: i, series: 0 })}
+            onMouseLeave={() => setHover(null)}
+          />
+          {sweep > 0.35 && (
+            <text x={cx + Math.cos(mid) * r * 0.65} y={cy + Math.sin(mid) * r * 0.65 + 4} textAnchor="middle" fill="#fff" fontSize={12} fontWeight={600} fontFamily={FONT} pointerEvents="none">
+              {format(Math.round((value / total) * 100))}%
+            </text>
+          )}
+        </g>
+      );
+    });
+  } else {
+    const visible = chart.series.map((s, i) => ({ ...s, index: i })).filter(s => !hidden.has(s.index));
+    const numbers = visible.flatMap(s => s.values).filter((v): v is number => v !== null);
+    const ticks = niceTicks(Math.min(0, ...numbers), Math.max(0, ...numbers));
+    const yMin = ticks[0];
+    const yMax = ticks[ticks.length - 1];
+    const yOf = (value: number) => MARGIN.top + plotHeight - ((value - yMin) / (yMax - yMin || 1)) * plotHeight;
+    const band = plotWidth / chart.categories.length;
+    const xOf = (category: number) => MARGIN.left + band * (category + 0.5);
+    const labelEvery = Math.ceil(chart.categories.length / 12);
+
+    const axes = (
+      <g fontFamily={FONT} fontSize={11} fill="#64748b">
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={yOf(tick)} y2={yOf(tick)} stroke={tick === 0 ? '#94a3b8' : '#e2e8f0'} />
+            <text x={MARGIN.left - 8} y={yOf(tick) + 4} textAnchor="end">{formatTick(tick)}</text>
+          </g>
+        ))}
+        {chart.categories.map((label, i) => i % labelEvery === 0 && (
+          <text key={i} x={xOf(i)} y={HEIGHT - MARGIN.bottom + 18} textAnchor="middle">{truncate(label)}</text>
+        ))}
+        {chart.xTitle && <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 12} textAnchor="middle" fontWeight={600}>{chart.xTitle}</text>}
+        {chart.yTitle && (
+          <text transform={`translate(16, ${MARGIN.top + plotHeight / 2}) rotate(-90)`} textAnchor="middle" fontWeight={600}>{chart.yTitle}</text>
+        )}
+      </g>
+    );
+
+    const showTooltip = (category: number, series: number, value: number) => {
+      const name = chart.series[series].name;
+      const lines = chart.series.length > 1 ? [chart.categories[category], `${name}: ${format(value)}`] : [chart.categories[category], format(value)];
+      tooltip = <Tooltip x={xOf(category)} y={yOf(value)} lines={lines} />;
+    };
+
+    let marks: React.ReactNode;
+    if (chart.mark === 'bar') {
+      const barWidth = (band * 0.8) / Math.max(visible.length, 1);
+      marks = visible.map((series, position) => series.values.map((value, category) => {
+        if (value === null) return null;
+        const isHovered = hover?.category === category && hover.series === series.index;
+        if (isHovered) showTooltip(category, series.index, value);
+        const top = Math.min(yOf(value), yOf(0));
+        return (
+          <rect
+            key={`${series.index}-${category}`}
+            x={MARGIN.left + band * category + band * 0.1 + barWidth * position}
+            y={top}
+            width={Math.max(barWidth - 1, 1)}
+            height={Math.max(Math.abs(yOf(value) - yOf(0)), 1)}
+            rx={Math.min(3, barWidth / 4)}
+            fill={COLORS[series.index % COLORS.length]}
+            opacity={hover && !isHovered ? 0.6 : 1}
+            onMouseEnter={() => setHover({ category, series: series.index })}
+            onMouseLeave={() => setHover(null)}
+          />
+        );
+      }));
+    } else {
+      marks = visible.map(series => {
+        const color = COLORS[series.index % COLORS.length];
+        // Gaps in the data break the line
+        const path = series.values.reduce((d, value, category) => {
+          if (value === null) return d;
+          const previous = series.values[category - 1];
+          return `${d} ${category === 0 || previous === null || previous === undefined ? 'M' : 'L'} ${xOf(category)} ${yOf(value)}`;
+        }, '');
+        return (
+          <g key={series.index}>
+            <path d={path} fill="none" stroke={color} strokeWidth={2.5} strokeLinejoin="round" strokeLinecap="round" />
+            {series.values.map((value, category) => {
+              if (value === null) return null;
+              const isHovered = hover?.category === category && hover.series === series.index;
+              if (isHovered) showTooltip(category, series.index, value);
+              return (
+                <circle
+                  key={category}
+                  cx={xOf(category)}
+                  cy={yOf(value)}
+                  r={isHovered ? 6 : 3.5}
+                  fill={isHovered ? color : '#fff'}
+                  stroke={color}
+                  strokeWidth={2}
+                  onMouseEnter={() => setHover({ category, series: series.index })}
+                  onMouseLeave={() => setHover(null)}
+                />
+              );
+            })}
+          </g>
+        );
+      });
+    }
+
+    body = <>{axes}{marks}</>;
+  }
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" style={{ maxWidth: WIDTH, background: '#fff', display: 'block', margin: '0 auto' }}>
+      <rect width={WIDTH} height={HEIGHT} fill="#fff" />
+      {chart.title && (
+        <text x={WIDTH / 2} y={22} textAnchor="middle" fontSize={15} fontWeight={700} fill="#1e293b" fontFamily={FONT}>{chart.title}</text>
+      )}
+      <Legend chart={chart} hidden={hidden} onToggle={toggle} />
+      {body}
+      {tooltip}
+    </svg>
+  );
+};
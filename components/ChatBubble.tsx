@@ -1,80 +1,168 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { Message, Sender } from '../types';
-import { FileText, Copy, Check } from 'lucide-react';
-import { KiteIcon } from './KiteIcon';
+import { Message, Sender, Attachment, SessionPersona } from '../types';
+import { VersionInfo } from '../services/messageTree';
+import { FileText, Copy, Check, Pencil, RefreshCw, ChevronLeft, ChevronRight, Volume2, Pause, Play, Square, RotateCw } from 'lucide-react';
+import { SpeechStatus } from '../services/tts';
+import { PersonaAvatar } from './PersonaAvatar';
+import { ToolCallView } from './ToolCallView';
+import { CodeBlock, CodeBlockContext } from './CodeBlock';
+import { useI18n } from '../hooks/useI18n';
 
 interface ChatBubbleProps {
   message: Message;
   onImageClick?: (imageUrl: string) => void;
+  version?: VersionInfo;
+  onSwitchVersion?: (direction: -1 | 1) => void;
+  onEdit?: (newText: string) => void;
+  onRegenerate?: () => void;
+  isBusy?: boolean; // A reply is being generated; editing and switching are disabled meanwhile
+  isHighlighted?: boolean; // Briefly marked after jumping here from search
+  persona?: SessionPersona | null; // Shown as the model's avatar
+  onSendCodeOutput?: (text: string) => void; // Follow-up with the output of a code block that was run
+  onSelectVariant?: (index: number) => void; // Picks one of several generated images
+  onReadAloud?: () => void;
+  speechStatus?: SpeechStatus; // Set while this message is being read aloud
+  onSpeechControl?: (action: 'pause' | 'resume' | 'stop') => void;
+  onRetry?: () => void; // Failed replies: generate again from the same prompt
+  retryAt?: number; // Set while a retry is scheduled, epoch ms
+  onCancelRetry?: () => void;
 }
 
-// Sub-component for handling Code Blocks with Copy functionality
-const CodeBlock = ({ inline, className, children, ...props }: any) => {
-  const match = /language-(\w+)/.exec(className || '');
-  const [copied, setCopied] = useState(false);
+// Under a failed reply: the countdown to the automatic retry, or a button to retry by hand
+const RetryBar = ({ retryAt, onRetry, onCancel, disabled }: { retryAt?: number; onRetry: () => void; onCancel?: () => void; disabled?: boolean }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now());
 
-  // Handle inline code
-  if (inline || !match) {
-    return (
-      <code className="bg-slate-100 text-pink-600 px-1.5 py-0.5 rounded-md font-mono text-[0.9em] border border-slate-200" {...props}>
-        {children}
-      </code>
-    );
-  }
-
-  const language = match[1];
-
-  const handleCopy = () => {
-    navigator.clipboard.writeText(String(children).replace(/\n$/, ''));
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
+  useEffect(() => {
+    if (!retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
 
   return (
-    <div className="relative my-6 rounded-2xl overflow-hidden bg-[#1e293b] shadow-xl group/code">
-        {/* Header Bar */}
-        <div className="flex items-center justify-between px-4 py-2.5 bg-[#0f172a]/50 border-b border-slate-700/50 backdrop-blur-sm">
-            {/* Left: Language Name */}
-            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider select-none">
-                {language}
-            </span>
-
-            {/* Right: Copy Button */}
-            <button
-                onClick={handleCopy}
-                className="flex items-center gap-1.5 text-xs font-medium text-slate-400 hover:text-white transition-colors bg-white/5 hover:bg-white/10 px-2.5 py-1.5 rounded-lg active:scale-95 duration-200"
-                title="Sao chép mã"
-            >
-                {copied ? <Check size={14} className="text-emerald-400" /> : <Copy size={14} />}
-                {copied ? <span className="text-emerald-400">Đã chép</span> : <span>Sao chép</span>}
-            </button>
-        </div>
+    <div className="flex items-center gap-3 mt-3 text-sm">
+      {retryAt && (
+        <span className="tabular-nums text-red-500" aria-live="polite">
+          {t('error.retryIn', { seconds: Math.max(0, Math.ceil((retryAt - now) / 1000)) })}
+        </span>
+      )}
+      <button
+        onClick={onRetry}
+        disabled={disabled}
+        className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-white border border-red-200 text-red-600 font-medium hover:bg-red-100 disabled:opacity-50 transition-colors"
+      >
+        <RotateCw size={14} />
+        {retryAt ? t('error.retryNow') : t('error.retry')}
+      </button>
+      {retryAt && onCancel && (
+        <button onClick={onCancel} className="text-red-400 hover:text-red-600 hover:underline transition-colors">
+          {t('error.cancelRetry')}
+        </button>
+      )}
+    </div>
+  );
+};
 
-        {/* Code Content */}
-        <pre className="p-5 overflow-x-auto text-sm text-slate-50 font-mono custom-scrollbar bg-[#1e293b] m-0">
-            <code className={className} {...props}>
-                {children}
-            </code>
-        </pre>
+// "‹ 2/3 ›" control to flip between versions of a message
+const VersionSwitcher = ({ version, onSwitch, disabled }: { version: VersionInfo; onSwitch?: (direction: -1 | 1) => void; disabled?: boolean }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-0.5 text-xs font-medium text-slate-400 select-none">
+      <button
+        onClick={() => onSwitch?.(-1)}
+        disabled={disabled || version.index === 0}
+        className="p-1 rounded-md hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+        title={t('message.previousVersion')}
+      >
+        <ChevronLeft size={14} />
+      </button>
+      <span className="tabular-nums">{version.index + 1}/{version.total}</span>
+      <button
+        onClick={() => onSwitch?.(1)}
+        disabled={disabled || version.index === version.total - 1}
+        className="p-1 rounded-md hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+        title={t('message.nextVersion')}
+      >
+        <ChevronRight size={14} />
+      </button>
     </div>
   );
 };
 
-export const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onImageClick }) => {
+export const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onImageClick, version, onSwitchVersion, onEdit, onRegenerate, isBusy, isHighlighted, persona, onSendCodeOutput, onSelectVariant, onReadAloud, speechStatus, onSpeechControl, onRetry, retryAt, onCancelRetry }) => {
   const isUser = message.sender === Sender.User;
-  const isImageAttachment = message.attachment?.mimeType.startsWith('image/');
+  const attachments = message.attachments || [];
+  const { t, formatTime } = useI18n();
   const [copied, setCopied] = React.useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
 
   // Check if AI is "thinking" (message exists but has no text/attachment/error yet)
-  const isThinking = !isUser && !message.text && !message.attachment && !message.isError;
-  
-  const imageUrl = isImageAttachment && message.attachment 
-    ? `data:${message.attachment.mimeType};base64,${message.attachment.data}` 
-    : '';
+  const isThinking = !isUser && !message.text && attachments.length === 0 && !message.isError;
+  const codeBlockContext = React.useMemo(() => ({ onSendOutput: onSendCodeOutput, isBusy }), [onSendCodeOutput, isBusy]);
+  // Parsing and rendering Markdown is the costly part of a bubble; only redone when the text changes,
+  // not when another message streams in. Code blocks highlight themselves, block by block.
+  const markdown = React.useMemo(() => (
+    <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex]}
+        components={{
+        code: CodeBlock,
+        table({children}) {
+            return (
+            <div className="overflow-x-auto my-6 rounded-xl border border-slate-200 shadow-sm bg-white">
+                <table className="w-full text-left border-collapse text-sm">
+                {children}
+                </table>
+            </div>
+            )
+        },
+        thead({children}) {
+            return <thead className="bg-slate-50 border-b border-slate-200 text-slate-700">{children}</thead>
+        },
+        th({children}) {
+            return <th className="px-6 py-4 font-bold text-xs uppercase tracking-wider">{children}</th>
+        },
+        td({children}) {
+            return <td className="px-6 py-4 border-b border-slate-100 last:border-0 text-slate-600">{children}</td>
+        },
+        h1({children}) {
+            return <h1 className="text-3xl font-extrabold text-slate-900 mt-8 mb-4 pb-2 border-b border-slate-200">{children}</h1>
+        },
+        h2({children}) {
+            return <h2 className="text-2xl font-bold text-slate-900 mt-6 mb-3">{children}</h2>
+        },
+        h3({children}) {
+            return <h3 className="text-xl font-bold text-slate-800 mt-5 mb-2">{children}</h3>
+        },
+        blockquote({children}) {
+            return <blockquote className="border-l-4 border-blue-500 pl-4 py-2 italic text-slate-600 bg-white shadow-sm rounded-r-lg my-4">{children}</blockquote>
+        },
+        ul({children}) {
+            return <ul className="list-disc list-outside ml-5 space-y-2 my-4 marker:text-slate-400">{children}</ul>
+        },
+        ol({children}) {
+            return <ol className="list-decimal list-outside ml-5 space-y-2 my-4 marker:text-slate-400">{children}</ol>
+        },
+        p({children}) {
+            return <p className="mb-4 last:mb-0">{children}</p>
+        }
+        }}
+    >
+        {message.text}
+    </ReactMarkdown>
+  ), [message.text]);
+
+  const images = attachments.filter(a => a.mimeType.startsWith('image/'));
+  const files = attachments.filter(a => !a.mimeType.startsWith('image/'));
+  const toDataUrl = (attachment: Attachment) => `data:${attachment.mimeType};base64,${attachment.data}`;
+  // Generated variants: the picked one is shown large, the others as thumbnails to switch to
+  const selectedImage = message.selectedImage !== undefined && images.length > 1 ? images[message.selectedImage] : undefined;
 
   const handleCopyMessage = () => {
     navigator.clipboard.writeText(message.text);
@@ -82,56 +170,137 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onImageClick })
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() && attachments.length === 0) return;
+    setIsEditing(false);
+    if (draft !== message.text) onEdit?.(draft);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
   return (
-    <div className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'} mb-6 group animate-in slide-in-from-bottom-2 duration-300`}>
+    <div id={`message-${message.id}`} className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'} mb-6 group animate-in slide-in-from-bottom-2 duration-300`}>
       
       {/* AI Icon Avatar */}
       {!isUser && (
         <div className="flex-shrink-0 mr-4 mt-1">
-          <div className="w-8 h-8 rounded-xl bg-gradient-to-tr from-blue-600 to-indigo-500 flex items-center justify-center text-white shadow-md">
-            <KiteIcon className="w-5 h-5" />
-          </div>
+          <PersonaAvatar persona={persona} />
         </div>
       )}
 
       {/* Main Content Container - Stacked Vertically */}
-      <div className={`flex flex-col ${isUser ? 'items-end' : 'items-start'} max-w-[85%]`}>
+      <div className={`flex flex-col ${isUser ? 'items-end' : 'items-start'} max-w-[85%] rounded-2xl transition-shadow duration-500 ${isHighlighted ? 'ring-2 ring-amber-300 ring-offset-4' : ''}`}>
         
+        {/* Tool calls the model made while answering */}
+        {!isUser && message.toolCalls && message.toolCalls.length > 0 && (
+            <div className="mb-2 flex flex-wrap gap-1.5 mr-auto">
+                {message.toolCalls.map(call => <ToolCallView key={call.id} call={call} />)}
+            </div>
+        )}
+
         {/* 1. ATTACHMENT SECTION (Always on Top) */}
-        {message.attachment && (
-            <div className={`mb-2 ${isUser ? 'ml-auto' : 'mr-auto'}`}>
-                {isImageAttachment ? (
-                    <div 
-                        className="rounded-2xl overflow-hidden border border-slate-200 shadow-sm max-w-sm cursor-zoom-in group/image bg-white"
-                        onClick={() => onImageClick?.(imageUrl)}
-                    >
-                        <img 
-                            src={imageUrl}
-                            alt="Uploaded content" 
-                            className="w-full h-auto object-cover transition-transform duration-300 group-hover/image:scale-105"
-                        />
+        {attachments.length > 0 && (
+            <div className={`mb-2 flex flex-col gap-2 ${isUser ? 'ml-auto items-end' : 'mr-auto items-start'}`}>
+                {selectedImage ? (
+                    <div className="flex flex-col gap-2 max-w-sm">
+                        <div
+                            className="rounded-2xl overflow-hidden border border-slate-200 shadow-sm cursor-zoom-in bg-white"
+                            onClick={() => onImageClick?.(toDataUrl(selectedImage))}
+                        >
+                            <img src={toDataUrl(selectedImage)} alt={t('image.variant', { index: message.selectedImage! + 1 })} className="w-full h-auto" />
+                        </div>
+                        <div className="flex gap-2">
+                            {images.map((image, i) => (
+                                <button
+                                    key={image.id || i}
+                                    onClick={() => onSelectVariant?.(i)}
+                                    disabled={isBusy}
+                                    className={`w-14 h-14 rounded-xl overflow-hidden border-2 transition-all ${i === message.selectedImage ? 'border-purple-500' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                                    title={t('image.variant', { index: i + 1 })}
+                                >
+                                    <img src={toDataUrl(image)} alt="" className="w-full h-full object-cover" />
+                                </button>
+                            ))}
+                        </div>
                     </div>
-                ) : (
+                ) : images.length > 0 && (
+                    // A single image is shown large, several as a grid of tiles
+                    <div className={images.length === 1 ? '' : 'grid grid-cols-2 sm:grid-cols-3 gap-2 max-w-sm'}>
+                        {images.map((image, i) => (
+                            <div 
+                                key={image.id || i}
+                                className={`rounded-2xl overflow-hidden border border-slate-200 shadow-sm cursor-zoom-in group/image bg-white ${images.length === 1 ? 'max-w-sm' : 'aspect-square'}`}
+                                onClick={() => onImageClick?.(toDataUrl(image))}
+                            >
+                                <img 
+                                    src={toDataUrl(image)}
+                                    alt={image.fileName || 'Uploaded content'} 
+                                    className={`w-full object-cover transition-transform duration-300 group-hover/image:scale-105 ${images.length === 1 ? 'h-auto' : 'h-full'}`}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {files.map((file, i) => (
                     // File Attachment Card
-                    <div className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 shadow-sm bg-white max-w-sm">
+                    <div key={file.id || i} className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 shadow-sm bg-white max-w-sm w-full">
                         <div className="p-2 rounded-lg flex-shrink-0 bg-blue-50 text-blue-600">
                             <FileText size={20} />
                         </div>
                         <div className="flex-1 min-w-0">
                             <p className="text-sm font-medium truncate text-slate-700">
-                                {message.attachment.fileName || 'Tài liệu đính kèm'}
+                                {file.fileName || t('message.attachment')}
                             </p>
                             <p className="text-[10px] uppercase truncate text-slate-400">
-                                {message.attachment.mimeType.split('/')[1] || 'FILE'}
+                                {file.mimeType.split('/')[1] || 'FILE'}
                             </p>
                         </div>
                     </div>
-                )}
+                ))}
             </div>
         )}
 
         {/* 2. TEXT CONTENT SECTION (Bottom) */}
-        {(message.text || isThinking || message.isError) && (
+        {isEditing ? (
+            <div className="w-full min-w-[280px] md:min-w-[420px] bg-slate-100 rounded-[22px] p-3 flex flex-col gap-2">
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    autoFocus
+                    rows={Math.min(Math.max(draft.split('\n').length, 2), 8)}
+                    className="w-full bg-transparent border-none outline-none focus:ring-0 resize-none px-1 text-[15px] leading-relaxed text-slate-800"
+                    style={{ fontFamily: 'Arial, sans-serif' }}
+                />
+                <div className="flex justify-end gap-2">
+                    <button
+                        onClick={() => setIsEditing(false)}
+                        className="px-3 py-1.5 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-200 transition-colors"
+                    >
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        onClick={submitEdit}
+                        disabled={!draft.trim() && attachments.length === 0}
+                        className="px-3 py-1.5 rounded-full text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50 transition-colors"
+                    >
+                        {t('common.send')}
+                    </button>
+                </div>
+            </div>
+        ) : (message.text || isThinking || message.isError) && (
             <div
                 className={`relative ${
                 isUser
@@ -154,68 +323,65 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onImageClick })
                 // AI messages with Rich Markdown & Math
                 <div className="w-full">
                     <div className="prose prose-slate prose-lg max-w-none prose-p:leading-7 prose-headings:font-bold prose-strong:font-bold prose-strong:text-slate-900">
-                    <ReactMarkdown 
-                        remarkPlugins={[remarkGfm, remarkMath]}
-                        rehypePlugins={[rehypeKatex]}
-                        components={{
-                        code: CodeBlock,
-                        table({children}) {
-                            return (
-                            <div className="overflow-x-auto my-6 rounded-xl border border-slate-200 shadow-sm bg-white">
-                                <table className="w-full text-left border-collapse text-sm">
-                                {children}
-                                </table>
-                            </div>
-                            )
-                        },
-                        thead({children}) {
-                            return <thead className="bg-slate-50 border-b border-slate-200 text-slate-700">{children}</thead>
-                        },
-                        th({children}) {
-                            return <th className="px-6 py-4 font-bold text-xs uppercase tracking-wider">{children}</th>
-                        },
-                        td({children}) {
-                            return <td className="px-6 py-4 border-b border-slate-100 last:border-0 text-slate-600">{children}</td>
-                        },
-                        h1({children}) {
-                            return <h1 className="text-3xl font-extrabold text-slate-900 mt-8 mb-4 pb-2 border-b border-slate-200">{children}</h1>
-                        },
-                        h2({children}) {
-                            return <h2 className="text-2xl font-bold text-slate-900 mt-6 mb-3">{children}</h2>
-                        },
-                        h3({children}) {
-                            return <h3 className="text-xl font-bold text-slate-800 mt-5 mb-2">{children}</h3>
-                        },
-                        blockquote({children}) {
-                            return <blockquote className="border-l-4 border-blue-500 pl-4 py-2 italic text-slate-600 bg-white shadow-sm rounded-r-lg my-4">{children}</blockquote>
-                        },
-                        ul({children}) {
-                            return <ul className="list-disc list-outside ml-5 space-y-2 my-4 marker:text-slate-400">{children}</ul>
-                        },
-                        ol({children}) {
-                            return <ol className="list-decimal list-outside ml-5 space-y-2 my-4 marker:text-slate-400">{children}</ol>
-                        },
-                        p({children}) {
-                            return <p className="mb-4 last:mb-0">{children}</p>
-                        }
-                        }}
-                    >
-                        {message.text}
-                    </ReactMarkdown>
+                    <CodeBlockContext.Provider value={codeBlockContext}>
+                    {markdown}
+                    </CodeBlockContext.Provider>
                     </div>
+                    {message.isError && onRetry && (
+                        <RetryBar retryAt={retryAt} onRetry={onRetry} onCancel={onCancelRetry} disabled={isBusy} />
+                    )}
                     
-                    {/* Action Bar for AI Message */}
-                    {!message.isError && message.text && (
-                    <div className="flex items-center gap-2 mt-3 opacity-0 group-hover:opacity-100 transition-opacity duration-200 pl-1">
+                    {/* Action Bar for AI Message (always visible while there are several versions or it is read aloud) */}
+                    {(message.text || message.isError) && (
+                    <div className={`flex items-center gap-2 mt-3 transition-opacity duration-200 pl-1 ${version || speechStatus ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                        {version && <VersionSwitcher version={version} onSwitch={onSwitchVersion} disabled={isBusy} />}
+                        {!message.isError && (
                         <button 
                             onClick={handleCopyMessage}
                             className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-slate-100 rounded-lg transition-all"
-                            title="Sao chép toàn bộ"
+                            title={t('message.copyAll')}
                         >
                             {copied ? <Check size={14} /> : <Copy size={14} />}
                         </button>
+                        )}
+                        {onRegenerate && (
+                        <button 
+                            onClick={onRegenerate}
+                            disabled={isBusy}
+                            className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-slate-100 rounded-lg transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+                            title={t('message.regenerate')}
+                        >
+                            <RefreshCw size={14} />
+                        </button>
+                        )}
+                        {speechStatus ? (
+                        <div className="flex items-center gap-0.5 px-1 rounded-lg bg-blue-50 text-blue-600">
+                            <button
+                                onClick={() => onSpeechControl?.(speechStatus === 'playing' ? 'pause' : 'resume')}
+                                className="p-1.5 hover:bg-blue-100 rounded-lg transition-all"
+                                title={speechStatus === 'playing' ? t('speech.pause') : t('speech.resume')}
+                            >
+                                {speechStatus === 'playing' ? <Pause size={14} /> : <Play size={14} />}
+                            </button>
+                            <button
+                                onClick={() => onSpeechControl?.('stop')}
+                                className="p-1.5 hover:bg-blue-100 rounded-lg transition-all"
+                                title={t('speech.stop')}
+                            >
+                                <Square size={12} fill="currentColor" />
+                            </button>
+                        </div>
+                        ) : onReadAloud && !message.isError && (
+                        <button
+                            onClick={onReadAloud}
+                            className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-slate-100 rounded-lg transition-all"
+                            title={t('speech.readAloud')}
+                        >
+                            <Volume2 size={14} />
+                        </button>
+                        )}
                         <span className="text-[10px] text-slate-300">
-                            {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            {formatTime(message.timestamp)}
                         </span>
                     </div>
                     )}
@@ -225,11 +391,28 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onImageClick })
                 {/* Timestamp for User (Inside the blue bubble) */}
                 {isUser && (
                 <span className="text-[10px] absolute bottom-1 right-3 text-white/70 opacity-0 group-hover:opacity-100 transition-opacity">
-                    {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {formatTime(message.timestamp)}
                 </span>
                 )}
             </div>
         )}
+
+        {/* 3. USER ACTIONS: edit and version switcher */}
+        {isUser && !isEditing && (onEdit || version) && (
+            <div className={`flex items-center gap-1 mt-1 transition-opacity duration-200 ${version ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                {onEdit && (
+                <button
+                    onClick={startEditing}
+                    disabled={isBusy}
+                    className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-slate-100 rounded-lg transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+                    title={t('message.edit')}
+                >
+                    <Pencil size={14} />
+                </button>
+                )}
+                {version && <VersionSwitcher version={version} onSwitch={onSwitchVersion} disabled={isBusy} />}
+            </div>
+        )}
       </div>
     </div>
   );
@@ -1,20 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { ArrowUp, Plus, X, Image as ImageIcon, Camera, Images, FileUp, Mic, RefreshCcw, Square, Loader2, SlidersHorizontal, Pause } from 'lucide-react';
-import { Attachment } from '../types';
-import { transcribeAudio } from '../services/gemini';
+import { ArrowUp, Plus, X, Image as ImageIcon, Camera, Images, FileUp, Mic, RefreshCcw, Square, Loader2, SlidersHorizontal, Pause, Settings2, Volume2, AudioLines } from 'lucide-react';
+import { Attachment, ImageOptions } from '../types';
+import { transcribeRecording, TranscriptionSettings, DEFAULT_TRANSCRIPTION_SETTINGS } from '../services/transcription';
+import { useI18n } from '../hooks/useI18n';
+import { ASPECT_RATIOS, MAX_VARIANTS, STYLE_PRESETS } from '../services/imageOptions';
 
 interface ChatInputProps {
-  onSend: (text: string, attachment?: Attachment, isImageGen?: boolean) => void;
+  onSend: (text: string, attachments?: Attachment[], isImageGen?: boolean, imageOptions?: ImageOptions) => void;
   onStop?: () => void;
   isLoading: boolean;
+  onOpenSettings?: () => void; // Shows the generation settings panel
+  onOpenSpeechSettings?: () => void; // Shows the read-aloud settings panel
+  onStartVoiceMode?: () => void; // Opens the hands-free voice conversation
+  transcription?: TranscriptionSettings;
+  editImage?: { attachment: Attachment; key: number }; // Set to start editing an image; a new key starts again
 }
 
-export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading }) => {
+const MAX_ATTACHMENTS = 10;
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading, onOpenSettings, onOpenSpeechSettings, onStartVoiceMode, transcription = DEFAULT_TRANSCRIPTION_SETTINGS, editImage }) => {
+  const { t } = useI18n();
   const [text, setText] = useState('');
-  const [attachment, setAttachment] = useState<Attachment | undefined>(undefined);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   
   // Menu and Camera states
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -27,6 +42,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
 
   // Image Generation Mode
   const [isImageMode, setIsImageMode] = useState(false);
+  const [imageOptions, setImageOptions] = useState<ImageOptions>({}); // Kept between prompts
 
   // Audio Recording State
   const [isRecording, setIsRecording] = useState(false);
@@ -87,7 +103,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
           }
         } catch (err) {
           console.error("Error accessing camera:", err);
-          alert("Không thể truy cập camera. Vui lòng kiểm tra quyền truy cập.");
+          alert(t('input.cameraError'));
           if (mounted) setIsCameraOpen(false);
         }
       } else {
@@ -115,13 +131,21 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
     }
   }, [text]);
 
+  // "Edit this image": the image becomes the only attachment of an image mode prompt
+  useEffect(() => {
+    if (!editImage) return;
+    setAttachments([editImage.attachment]);
+    setIsImageMode(true);
+    setTimeout(() => textareaRef.current?.focus(), 50);
+  }, [editImage]);
+
+  const isEditingImage = isImageMode && attachments.some(a => a.mimeType.startsWith('image/'));
+
   const handleSend = () => {
-    if ((text.trim() || attachment) && !isLoading) {
-      onSend(text, attachment, isImageMode);
+    if ((text.trim() || attachments.length > 0) && !isLoading) {
+      onSend(text, attachments, isImageMode, isImageMode ? imageOptions : undefined);
       setText('');
-      setAttachment(undefined);
-      setPreviewUrl(null);
-      setFileName(null);
+      setAttachments([]);
       setIsImageMode(false);
     }
   };
@@ -143,54 +167,53 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
     setText(e.target.value);
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>, isImageOnly: boolean = false) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (isImageOnly && !file.type.startsWith('image/')) {
-        alert('Vui lòng chọn tệp hình ảnh.');
-        if (imageInputRef.current) imageInputRef.current.value = '';
-        return;
-      }
+  // Files are read asynchronously, so the current count is taken from a ref rather than a stale closure
+  const attachmentCountRef = useRef(0);
+  attachmentCountRef.current = attachments.length;
 
+  const addAttachments = (added: Attachment[]) => {
+    if (attachmentCountRef.current + added.length > MAX_ATTACHMENTS) {
+      alert(t('input.tooManyFiles', { max: MAX_ATTACHMENTS }));
+    }
+    setAttachments(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>, isImageOnly: boolean = false) => {
+    const selected = Array.from(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (imageInputRef.current) imageInputRef.current.value = '';
+    setIsMenuOpen(false);
+
+    const validExtensions = ['.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.java', '.c', '.cpp', '.h', '.html', '.css', '.md', '.txt', '.csv', '.json'];
+    const hasValidExt = (file: File) => validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
+
+    const accepted = selected.filter(file => {
+      if (isImageOnly) return file.type.startsWith('image/');
       const isMedia = file.type.startsWith('image/') || file.type.startsWith('audio/') || file.type.startsWith('video/');
       const isDocument = file.type === 'application/pdf' || file.type.startsWith('text/');
       const isCodeOrData = ['application/json', 'application/xml', 'application/x-javascript', 'application/ld+json'].includes(file.type);
-      const validExtensions = ['.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.java', '.c', '.cpp', '.h', '.html', '.css', '.md', '.txt', '.csv', '.json'];
-      const hasValidExt = validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
+      return isMedia || isDocument || isCodeOrData || hasValidExt(file);
+    });
 
-      if (!isMedia && !isDocument && !isCodeOrData && !hasValidExt) {
-           alert(`Định dạng tệp không được hỗ trợ.`);
-           if (fileInputRef.current) fileInputRef.current.value = '';
-           return;
-      }
-
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result as string;
-        const base64Data = result.split(',')[1];
-        
-        let mimeType = file.type;
-        if (!mimeType && hasValidExt) { mimeType = 'text/plain'; }
+    if (accepted.length < selected.length) {
+      alert(isImageOnly ? t('input.imagesOnly') : t('input.unsupportedFiles'));
+    }
+    if (accepted.length === 0) return;
 
-        setAttachment({
-          mimeType: mimeType,
-          data: base64Data,
+    try {
+      const loaded = await Promise.all(accepted.map(async (file): Promise<Attachment> => {
+        const result = await readFileAsDataUrl(file);
+        return {
+          mimeType: file.type || 'text/plain',
+          data: result.split(',')[1],
           fileName: file.name
-        });
-        
-        if (file.type.startsWith('image/')) {
-            setPreviewUrl(result);
-            setFileName(null);
-        } else {
-            setPreviewUrl(null);
-            setFileName(file.name);
-        }
-      };
-      reader.readAsDataURL(file);
+        };
+      }));
+      addAttachments(loaded);
+    } catch (err) {
+      console.error("Error reading files:", err);
+      alert(t('input.readError'));
     }
-    if (fileInputRef.current) fileInputRef.current.value = '';
-    if (imageInputRef.current) imageInputRef.current.value = '';
-    setIsMenuOpen(false);
   };
 
   const openCamera = () => {
@@ -221,9 +244,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
         }
         const dataUrl = canvas.toDataURL('image/jpeg');
         const base64 = dataUrl.split(',')[1];
-        setAttachment({ mimeType: 'image/jpeg', data: base64, fileName: 'camera_capture.jpg' });
-        setPreviewUrl(dataUrl);
-        setFileName(null);
+        addAttachments([{ mimeType: 'image/jpeg', data: base64, fileName: 'camera_capture.jpg' }]);
         closeCamera();
     }
   };
@@ -235,16 +256,14 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
       setTimeout(() => textareaRef.current?.focus(), 50);
   };
 
-  const clearAttachment = (e: React.MouseEvent) => {
+  const removeAttachment = (e: React.MouseEvent, index: number) => {
     e.stopPropagation();
-    setAttachment(undefined);
-    setPreviewUrl(null);
-    setFileName(null);
+    setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
-  const handlePreviewClick = () => {
+  const handlePreviewClick = (previewUrl: string) => {
       if (document.activeElement instanceof HTMLElement) { document.activeElement.blur(); }
-      if (previewUrl) { setViewingImage(previewUrl); }
+      setViewingImage(previewUrl);
   };
 
   // --- OpenAI Voice Logic (MediaRecorder) ---
@@ -288,7 +307,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
       setIsRecording(true);
     } catch (err) {
       console.error("Error accessing microphone:", err);
-      alert("Không thể truy cập microphone. Vui lòng cấp quyền.");
+      alert(t('input.microphoneError'));
     }
   };
 
@@ -303,18 +322,16 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
   const processAudio = async (audioBlob: Blob) => {
     setIsTranscribing(true);
     try {
-        const response = await transcribeAudio(audioBlob);
-        const transcribedText = response.text?.trim();
-        
-        // Logic to abort if silence/no speech
-        if (!transcribedText || transcribedText === '[[NO_SPEECH]]') {
-            // Silently fail/abort as requested ("tự động ngắt")
-        } else {
-            setText(prev => {
-                const spacer = prev && !prev.endsWith(' ') ? ' ' : '';
-                return prev + spacer + transcribedText;
-            });
-        }
+        // Long recordings come back piece by piece; each partial replaces the previous one
+        let prefix: string | null = null;
+        const show = (transcript: string) => setText(prev => {
+            if (prefix === null) prefix = prev + (prev && !/\s$/.test(prev) ? ' ' : '');
+            return prefix + transcript;
+        });
+
+        // Silence is caught before upload and comes back empty ("tự động ngắt")
+        const transcribedText = await transcribeRecording(audioBlob, transcription, show);
+        if (transcribedText) show(transcribedText);
     } catch (error) {
         console.error("Transcription error:", error);
     } finally {
@@ -373,7 +390,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
                          <button 
                             onClick={toggleCameraFacing}
                             className="p-3 rounded-full bg-white/10 hover:bg-white/20 text-white backdrop-blur-sm transition-all active:scale-95"
-                            title="Đổi camera"
+                            title={t('input.switchCamera')}
                         >
                             <RefreshCcw size={24} />
                         </button>
@@ -395,37 +412,44 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
       <div className={`relative bg-white rounded-[26px] p-4 transition-all duration-300 shadow-[0_8px_30px_rgb(0,0,0,0.08)] border ${isRecording ? 'border-red-400 ring-2 ring-red-100' : (isImageMode ? 'border-purple-200 shadow-purple-50' : 'border-slate-200/60')} flex flex-col gap-2`}>
         
         <input 
-          type="file" ref={fileInputRef} onChange={(e) => handleFileSelect(e, false)} 
+          type="file" ref={fileInputRef} onChange={(e) => handleFileSelect(e, false)} multiple
           accept="image/*,audio/*,video/*,application/pdf,text/*,.pdf,.txt,.md,.csv,.json,.js,.ts,.py,.html,.css" className="hidden" 
         />
-         <input type="file" ref={imageInputRef} onChange={(e) => handleFileSelect(e, true)} accept="image/*" className="hidden" />
-
-        {/* Attachment Preview (Inside the bubble, above text) */}
-        {(previewUrl || fileName) && (
-            <div className="relative inline-block self-start mb-1 animate-in fade-in slide-in-from-bottom-2 duration-300">
-            {previewUrl ? (
-                <div 
-                className="relative rounded-2xl overflow-hidden border border-slate-200 shadow-sm w-20 h-20 group cursor-zoom-in"
-                onClick={handlePreviewClick}
-                >
-                <img src={previewUrl} alt="Preview" className="w-full h-full object-cover" />
-                <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors" />
-                </div>
-            ) : (
-                <div className="relative rounded-2xl overflow-hidden border border-slate-200 bg-slate-50 shadow-sm w-auto h-12 flex items-center px-4 gap-2">
-                    <div className="p-1.5 bg-blue-100 rounded-lg text-blue-600">
-                        <FileUp size={16} />
+         <input type="file" ref={imageInputRef} onChange={(e) => handleFileSelect(e, true)} accept="image/*" multiple className="hidden" />
+
+        {/* Attachment Previews (Inside the bubble, above text) */}
+        {attachments.length > 0 && (
+            <div className="flex gap-3 overflow-x-auto pt-2 pr-2 pb-1 mb-1 animate-in fade-in slide-in-from-bottom-2 duration-300">
+            {attachments.map((attachment, index) => {
+                const previewUrl = attachment.mimeType.startsWith('image/') ? `data:${attachment.mimeType};base64,${attachment.data}` : null;
+                return (
+                <div key={index} className="relative flex-shrink-0">
+                {previewUrl ? (
+                    <div 
+                    className="relative rounded-2xl overflow-hidden border border-slate-200 shadow-sm w-20 h-20 group cursor-zoom-in"
+                    onClick={() => handlePreviewClick(previewUrl)}
+                    >
+                    <img src={previewUrl} alt={attachment.fileName || 'Preview'} className="w-full h-full object-cover" />
+                    <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors" />
+                    </div>
+                ) : (
+                    <div className="relative rounded-2xl overflow-hidden border border-slate-200 bg-slate-50 shadow-sm w-auto h-20 flex items-center px-4 gap-2">
+                        <div className="p-1.5 bg-blue-100 rounded-lg text-blue-600">
+                            <FileUp size={16} />
+                        </div>
+                        <span className="text-xs font-medium text-slate-700 truncate max-w-[150px]">{attachment.fileName}</span>
                     </div>
-                    <span className="text-xs font-medium text-slate-700 truncate max-w-[150px]">{fileName}</span>
+                )}
+                <button 
+                    onClick={(e) => removeAttachment(e, index)}
+                    className="absolute -top-2 -right-2 bg-white text-slate-500 hover:text-red-500 hover:bg-red-50 border border-slate-200 shadow-sm rounded-full p-1 transition-all z-10 transform hover:scale-110"
+                    title={t('input.removeFile')}
+                >
+                    <X size={12} strokeWidth={2.5} />
+                </button>
                 </div>
-            )}
-            <button 
-                onClick={clearAttachment}
-                className="absolute -top-2 -right-2 bg-white text-slate-500 hover:text-red-500 hover:bg-red-50 border border-slate-200 shadow-sm rounded-full p-1 transition-all z-10 transform hover:scale-110"
-                title="Xóa tệp"
-            >
-                <X size={12} strokeWidth={2.5} />
-            </button>
+                );
+            })}
             </div>
         )}
 
@@ -436,10 +460,10 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
           onKeyDown={handleKeyDown}
           placeholder={
             isRecording 
-                ? "Đang ghi âm... (Ấn dừng để chuyển văn bản)" 
+                ? t('input.recordingPlaceholder') 
                 : isTranscribing 
-                    ? "Đang chuyển đổi giọng nói..." 
-                    : (isImageMode ? "Mô tả hình ảnh bạn muốn tạo..." : "Hỏi k-ite")
+                    ? t('input.transcribingPlaceholder') 
+                    : (isEditingImage ? t('input.editImagePlaceholder') : isImageMode ? t('input.imagePlaceholder') : t('input.placeholder'))
           }
           className="w-full bg-transparent border-none outline-none focus:outline-none text-slate-800 placeholder:text-slate-400 focus:ring-0 resize-none px-2 max-h-[120px] overflow-y-auto leading-relaxed text-lg min-h-[28px]"
           style={{ fontFamily: 'Arial, sans-serif' }}
@@ -447,6 +471,44 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
           disabled={isLoading || isTranscribing}
         />
 
+        {/* Image mode options */}
+        {isImageMode && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-2 text-xs animate-in fade-in duration-200">
+                <div className="flex items-center gap-1" title={t('image.aspectRatio')}>
+                    {ASPECT_RATIOS.map(ratio => (
+                        <button
+                            key={ratio}
+                            onClick={() => setImageOptions(prev => ({ ...prev, aspectRatio: prev.aspectRatio === ratio ? undefined : ratio }))}
+                            className={`px-2 py-1 rounded-full font-medium transition-colors ${imageOptions.aspectRatio === ratio ? 'bg-purple-600 text-white' : 'bg-purple-50 text-purple-700 hover:bg-purple-100'}`}
+                        >
+                            {ratio}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-1" title={t('image.variants')}>
+                    <span className="text-slate-400">{t('image.variants')}</span>
+                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                        <button
+                            key={count}
+                            onClick={() => setImageOptions(prev => ({ ...prev, variants: count }))}
+                            className={`w-6 h-6 rounded-full font-medium transition-colors ${(imageOptions.variants ?? 1) === count ? 'bg-purple-600 text-white' : 'bg-purple-50 text-purple-700 hover:bg-purple-100'}`}
+                        >
+                            {count}
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value={imageOptions.style ?? ''}
+                    onChange={(e) => setImageOptions(prev => ({ ...prev, style: e.target.value || undefined }))}
+                    className="bg-purple-50 text-purple-700 rounded-full px-2 py-1 font-medium outline-none cursor-pointer"
+                    title={t('image.style')}
+                >
+                    <option value="">{t('image.style.none')}</option>
+                    {STYLE_PRESETS.map(style => <option key={style.id} value={style.id}>{t(style.labelKey)}</option>)}
+                </select>
+            </div>
+        )}
+
         <div className="flex justify-between items-center w-full">
             <div className="flex items-center gap-3">
                 {/* 1. Standard Plus Menu (Always Visible) */}
@@ -469,14 +531,14 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
                                     className="w-full flex items-center gap-2 p-2 rounded-xl hover:bg-slate-50 transition-colors text-left group"
                                 >
                                     <div className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-900 group-hover:scale-110 transition-transform"><ImageIcon size={20} /></div>
-                                    <span className="font-semibold text-sm text-slate-900">Tải ảnh lên</span>
+                                    <span className="font-semibold text-sm text-slate-900">{t('input.uploadImage')}</span>
                                 </button>
                                 <button
                                     onClick={() => fileInputRef.current?.click()}
                                     className="w-full flex items-center gap-2 p-2 rounded-xl hover:bg-slate-50 transition-colors text-left group"
                                 >
                                     <div className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-900 group-hover:scale-110 transition-transform"><FileUp size={20} /></div>
-                                    <span className="font-semibold text-sm text-slate-900">Tải tệp lên</span>
+                                    <span className="font-semibold text-sm text-slate-900">{t('input.uploadFile')}</span>
                                 </button>
                                 {/* Hidden on desktop (md:hidden) */}
                                 <button
@@ -484,7 +546,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
                                     className="w-full flex items-center gap-2 p-2 rounded-xl hover:bg-slate-50 transition-colors text-left group md:hidden"
                                 >
                                     <div className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-900 group-hover:scale-110 transition-transform"><Camera size={20} /></div>
-                                    <span className="font-semibold text-sm text-slate-900">Chụp ảnh</span>
+                                    <span className="font-semibold text-sm text-slate-900">{t('input.takePhoto')}</span>
                                 </button>
                             </div>
                         </div>
@@ -496,7 +558,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
                     <button
                         onClick={() => setIsImageMode(false)}
                         className="flex-shrink-0 h-9 px-3 flex items-center justify-center gap-1.5 rounded-full bg-purple-100 text-purple-600 hover:bg-purple-200 transition-all duration-200 animate-in zoom-in"
-                        title="Tắt chế độ tạo ảnh"
+                        title={t('input.exitImageMode')}
                     >
                         <Images size={18} strokeWidth={2} />
                         <X size={16} strokeWidth={2.5} />
@@ -509,21 +571,39 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
                                 isToolsOpen ? 'bg-slate-100 text-slate-900' : 'bg-slate-50 text-slate-500 hover:bg-slate-100 hover:text-slate-900'
                             }`}
                             disabled={isLoading}
-                            title="Công cụ sáng tạo"
+                            title={t('input.tools')}
                         >
                             <SlidersHorizontal size={20} strokeWidth={2} />
                         </button>
 
                         {isToolsOpen && (
-                            <div className="absolute bottom-full left-0 mb-3 w-44 bg-white rounded-2xl shadow-xl border border-slate-100 p-1.5 z-40 animate-in fade-in slide-in-from-bottom-3 duration-200 origin-bottom-left">
+                            <div className="absolute bottom-full left-0 mb-3 w-52 bg-white rounded-2xl shadow-xl border border-slate-100 p-1.5 z-40 animate-in fade-in slide-in-from-bottom-3 duration-200 origin-bottom-left">
                                 <div className="space-y-1">
                                     <button
                                         onClick={handleGenerateImageClick}
                                         className="w-full flex items-center gap-2 p-2 rounded-xl hover:bg-slate-50 transition-colors text-left group"
                                     >
                                         <div className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-900 group-hover:scale-110 transition-transform"><Images size={20} /></div>
-                                        <span className="font-semibold text-sm text-slate-900">Tạo hình ảnh</span>
+                                        <span className="font-semibold text-sm text-slate-900">{t('input.generateImage')}</span>
                                     </button>
+                                    {onOpenSettings && (
+                                        <button
+                                            onClick={() => { setIsToolsOpen(false); onOpenSettings(); }}
+                                            className="w-full flex items-center gap-2 p-2 rounded-xl hover:bg-slate-50 transition-colors text-left group"
+                                        >
+                                            <div className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-900 group-hover:scale-110 transition-transform"><Settings2 size={20} /></div>
+                                            <span className="font-semibold text-sm text-slate-900">{t('input.generationSettings')}</span>
+                                        </button>
+                                    )}
+                                    {onOpenSpeechSettings && (
+                                        <button
+                                            onClick={() => { setIsToolsOpen(false); onOpenSpeechSettings(); }}
+                                            className="w-full flex items-center gap-2 p-2 rounded-xl hover:bg-slate-50 transition-colors text-left group"
+                                        >
+                                            <div className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-900 group-hover:scale-110 transition-transform"><Volume2 size={20} /></div>
+                                            <span className="font-semibold text-sm text-slate-900">{t('input.speechSettings')}</span>
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         )}
@@ -532,6 +612,16 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
             </div>
 
             <div className="flex items-center gap-2">
+                 {onStartVoiceMode && !isRecording && !isTranscribing && (
+                    <button
+                        onClick={onStartVoiceMode}
+                        disabled={isLoading}
+                        className="w-9 h-9 flex items-center justify-center rounded-full text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-all duration-300 disabled:opacity-40"
+                        title={t('voice.start')}
+                    >
+                        <AudioLines size={20} strokeWidth={2} />
+                    </button>
+                 )}
                  <button
                     onClick={toggleRecording}
                     disabled={isLoading || isTranscribing}
@@ -542,7 +632,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
                             ? 'bg-blue-100 text-blue-500 cursor-wait'
                             : 'text-slate-400 hover:text-slate-700 hover:bg-slate-50'
                     }`}
-                    title={isRecording ? "Dừng ghi âm" : "Nhập bằng giọng nói"}
+                    title={isRecording ? t('input.stopRecording') : t('input.startRecording')}
                  >
                     {isRecording ? (
                         <Square size={16} fill="currentColor" />
@@ -558,7 +648,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
                     <button
                         onClick={handleStop}
                         className="flex-shrink-0 w-9 h-9 flex items-center justify-center rounded-full transition-all duration-300 bg-slate-900 text-white hover:bg-slate-800 shadow-md"
-                        title="Dừng tạo"
+                        title={t('input.stopGenerating')}
                     >
                          <div className="relative flex items-center justify-center">
                             {/* YouTube-like Pause Icon (Two bars) */}
@@ -568,9 +658,9 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
                 ) : (
                     <button
                         onClick={handleSend}
-                        disabled={(!text.trim() && !attachment) || isTranscribing}
+                        disabled={(!text.trim() && attachments.length === 0) || isTranscribing}
                         className={`flex-shrink-0 w-9 h-9 flex items-center justify-center rounded-full transition-all duration-300 ${
-                            (text.trim() || attachment) && !isTranscribing
+                            (text.trim() || attachments.length > 0) && !isTranscribing
                             ? isImageMode ? 'bg-purple-600 text-white hover:bg-purple-500 shadow-md' : 'bg-slate-900 text-white hover:bg-slate-800 shadow-md'
                             : 'bg-slate-100 text-slate-300 cursor-not-allowed'
                         }`}
@@ -582,7 +672,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading
         </div>
       </div>
       <div className="text-center py-2">
-        <p className="text-[11px] text-slate-400 font-medium">k-ite có thể mắc lỗi. Hãy kiểm tra lại thông tin quan trọng.</p>
+        <p className="text-[11px] text-slate-400 font-medium">{t('input.disclaimer')}</p>
       </div>
     </div>
   );
@@ -0,0 +1,320 @@
+import React, { useContext, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { Copy, Check, Play, Square, Send, X, Code2, Eye, Download, FileDown, WrapText, ChevronDown, ChevronUp } from 'lucide-react';
+import { getRunnableLanguage, runCode, formatRunResult, RunOutput, RunResult } from '../services/codeRunner';
+import { parseChartSpec, CHART_LANGUAGES } from '../services/chartSpec';
+import { downloadSvg, downloadPng } from '../services/svgExport';
+import { highlightCode, getCachedHighlight, getDownloadName } from '../services/syntaxHighlight';
+import { downloadBlob } from '../services/download';
+import { ChartView } from './ChartView';
+import { MermaidView } from './MermaidView';
+import { useI18n } from '../hooks/useI18n';
+
+// What the blocks of a message can do beyond copying; provided by ChatBubble
+export const CodeBlockContext = React.createContext<{
+  onSendOutput?: (text: string) => void; // Sends a run's output to the model as the next message
+  isBusy?: boolean;
+}>({});
+
+type RunState =
+  | { status: 'idle' }
+  | { status: 'loading' | 'running'; output: RunOutput[] }
+  | { status: 'done'; output: RunOutput[]; result: RunResult };
+
+// Output panel under a block that was run
+const RunOutputPanel = ({ state, onSend, onClose, canSend }: { state: Exclude<RunState, { status: 'idle' }>; onSend: () => void; onClose: () => void; canSend: boolean }) => {
+  const { t } = useI18n();
+  const isDone = state.status === 'done';
+  const error = isDone ? state.result.error : undefined;
+
+  return (
+    <div className="border-t border-slate-700/50 bg-[#0f172a]">
+      <div className="flex items-center justify-between px-4 py-1.5 text-[11px] text-slate-400 select-none">
+        <span className="font-bold uppercase tracking-wider">
+          {t('code.output')}
+          {isDone && <span className="ml-2 font-normal normal-case tracking-normal tabular-nums">{state.result.durationMs} ms</span>}
+        </span>
+        {isDone && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onSend}
+              disabled={!canSend}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+            >
+              <Send size={12} />
+              {t('code.sendOutput')}
+            </button>
+            <button onClick={onClose} className="p-1 rounded-md hover:bg-white/10 hover:text-white transition-colors" title={t('code.closeOutput')}>
+              <X size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+      <pre className="px-5 pb-4 max-h-72 overflow-auto text-xs font-mono whitespace-pre-wrap break-words custom-scrollbar m-0">
+        {state.output.map((entry, i) => (
+          <span key={i} className={entry.stream === 'stderr' ? 'text-red-300' : 'text-slate-200'}>{entry.text}</span>
+        ))}
+        {error && <span className="text-red-400">{error}</span>}
+        {state.status === 'loading' && <span className="text-slate-500">{t('code.loadingPython')}</span>}
+        {state.status === 'running' && state.output.length === 0 && <span className="text-slate-500">{t('code.running')}</span>}
+        {isDone && !error && state.output.length === 0 && <span className="text-slate-500 italic">{t('code.noOutput')}</span>}
+      </pre>
+    </div>
+  );
+};
+
+const ChartPreview = ({ source, onError }: { source: string; onError: (error: string | null) => void }) => {
+  const { t } = useI18n();
+  const parsed = useMemo(() => {
+    try {
+      return { chart: parseChartSpec(source) };
+    } catch (error: any) {
+      return { error: error.message as string };
+    }
+  }, [source]);
+  useEffect(() => onError(parsed.error ?? null), [parsed]);
+
+  if (!parsed.chart) return <div className="py-10 text-center text-sm text-slate-400">{t('diagram.rendering')}</div>;
+  return <ChartView chart={parsed.chart} />;
+};
+
+const COLLAPSE_AFTER_LINES = 40; // Longer blocks start collapsed...
+const COLLAPSED_LINES = 20; // ...to their first lines
+
+// The code itself, highlighted once its grammar has loaded, with line numbers
+const CodeLines = ({ code, language, wrap }: { code: string; language: string; wrap: boolean }) => {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+  // While a reply streams in, highlighting can fall behind rather than hold up rendering
+  const deferredCode = useDeferredValue(code);
+  const [highlighted, setHighlighted] = useState<{ code: string; lines: string[] } | null>(() => {
+    const lines = getCachedHighlight(code, language);
+    return lines ? { code, lines } : null;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    highlightCode(deferredCode, language).then(lines => {
+      if (!cancelled && lines) setHighlighted({ code: deferredCode, lines });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [deferredCode, language]);
+
+  const lines = code.split('\n');
+  // Highlighted lines still valid for the current text: all of them, or while it grows, all but
+  // the last (which may continue); the rest is shown plain until the next highlight
+  const highlightedCount = !highlighted ? 0
+    : highlighted.code === code ? highlighted.lines.length
+    : code.startsWith(highlighted.code) ? highlighted.lines.length - 1
+    : 0;
+  const isCollapsed = lines.length > COLLAPSE_AFTER_LINES && !expanded;
+  const shownLines = isCollapsed ? lines.slice(0, COLLAPSED_LINES) : lines;
+  const hasGutter = lines.length > 1;
+  const lineClass = `flex-1 pr-5 ${hasGutter ? '' : 'pl-5'} ${wrap ? 'whitespace-pre-wrap break-all' : 'whitespace-pre'}`;
+
+  return (
+    <div className="relative">
+        <pre className={`py-5 text-sm text-slate-50 font-mono custom-scrollbar bg-[#1e293b] m-0 ${wrap ? '' : 'overflow-x-auto'}`}>
+            <code className={`hljs block ${wrap ? '' : 'w-max min-w-full'}`}>
+                {shownLines.map((text, i) => (
+                    <div key={i} className="flex">
+                        {hasGutter && (
+                            <span className="sticky left-0 w-12 flex-shrink-0 pr-4 text-right text-slate-500 bg-[#1e293b] tabular-nums select-none">{i + 1}</span>
+                        )}
+                        {i < highlightedCount
+                            ? <span className={lineClass} dangerouslySetInnerHTML={{ __html: highlighted!.lines[i] }} />
+                            : <span className={lineClass}>{text}</span>}
+                    </div>
+                ))}
+            </code>
+        </pre>
+
+        {lines.length > COLLAPSE_AFTER_LINES && (
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className={`flex items-center justify-center gap-1.5 w-full py-2 text-xs font-medium text-slate-400 hover:text-white bg-[#0f172a]/50 hover:bg-[#0f172a] transition-colors ${
+                  isCollapsed ? 'relative before:absolute before:inset-x-0 before:-top-12 before:h-12 before:bg-gradient-to-t before:from-[#1e293b] before:to-transparent before:pointer-events-none' : ''
+                }`}
+            >
+                {isCollapsed ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+                {isCollapsed ? t('code.expand', { count: lines.length }) : t('code.collapse')}
+            </button>
+        )}
+    </div>
+  );
+};
+
+const headerButtonClass = 'flex items-center gap-1.5 text-xs font-medium text-slate-400 hover:text-white transition-colors bg-white/5 hover:bg-white/10 px-2.5 py-1.5 rounded-lg active:scale-95 duration-200';
+
+// Fenced code with a copy button, a run button for JavaScript, TypeScript and Python, and a
+// rendered view for mermaid diagrams and charts
+export const CodeBlock = ({ inline, className, children, ...props }: any) => {
+  const match = /language-(\w+)/.exec(className || '');
+  const [copied, setCopied] = useState(false);
+  const [run, setRun] = useState<RunState>({ status: 'idle' });
+  const abortRef = useRef<AbortController | null>(null);
+  const [showSource, setShowSource] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [wrap, setWrap] = useState(false);
+  const renderedRef = useRef<HTMLDivElement>(null);
+  const { onSendOutput, isBusy } = useContext(CodeBlockContext);
+  const { t } = useI18n();
+
+  // Stop a run still going when the block goes away, e.g. on switching chats
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Handle inline code
+  if (inline || !match) {
+    return (
+      <code className="bg-slate-100 text-pink-600 px-1.5 py-0.5 rounded-md font-mono text-[0.9em] border border-slate-200" {...props}>
+        {children}
+      </code>
+    );
+  }
+
+  const language = match[1];
+  const runnable = getRunnableLanguage(language);
+  const code = String(children).replace(/\n$/, '');
+  const isRunning = run.status === 'loading' || run.status === 'running';
+  const renderKind = language === 'mermaid' ? 'mermaid' : CHART_LANGUAGES.includes(language.toLowerCase()) ? 'chart' : null;
+  // A block still streaming in is expected not to parse; only a finished one falls back to its source
+  const showRendered = !!renderKind && !showSource && !(renderError && !isBusy);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([code + '\n'], { type: 'text/plain' }), getDownloadName(language));
+  };
+
+  const handleRun = async () => {
+    if (!runnable) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const output: RunOutput[] = [];
+    setRun({ status: runnable === 'python' ? 'loading' : 'running', output });
+
+    const result = await runCode(runnable, code, {
+      signal: controller.signal,
+      onStart: () => setRun({ status: 'running', output: [...output] }),
+      onOutput: entry => {
+        output.push(entry);
+        setRun(prev => prev.status === 'idle' ? prev : { ...prev, output: [...output] });
+      },
+    });
+    if (abortRef.current !== controller) return; // Closed, or run again meanwhile
+    abortRef.current = null;
+    setRun({ status: 'done', output: result.output, result });
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const handleClose = () => {
+    abortRef.current = null;
+    setRun({ status: 'idle' });
+  };
+
+  const handleExport = (format: 'svg' | 'png') => {
+    const svg = renderedRef.current?.querySelector('svg');
+    if (!svg) return;
+    const name = renderKind === 'chart' ? 'chart' : 'diagram';
+    if (format === 'svg') downloadSvg(svg, name);
+    else downloadPng(svg, name).catch(error => console.error('PNG export failed', error));
+  };
+
+  const handleSend = () => {
+    if (run.status === 'done' && runnable) onSendOutput?.(formatRunResult(runnable, code, run.result));
+  };
+
+  return (
+    <div className="relative my-6 rounded-2xl overflow-hidden bg-[#1e293b] shadow-xl group/code">
+        {/* Header Bar */}
+        <div className="flex items-center justify-between px-4 py-2.5 bg-[#0f172a]/50 border-b border-slate-700/50 backdrop-blur-sm">
+            {/* Left: Language Name */}
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider select-none">
+                {language}
+            </span>
+
+            <div className="flex items-center gap-2">
+                {/* Export and Source / Rendered Toggle */}
+                {showRendered && !renderError && (['svg', 'png'] as const).map(format => (
+                    <button key={format} onClick={() => handleExport(format)} className={headerButtonClass} title={t('diagram.export', { format: format.toUpperCase() })}>
+                        <Download size={14} />
+                        <span>{format.toUpperCase()}</span>
+                    </button>
+                ))}
+                {renderKind && !(renderError && !isBusy) && (
+                    <button
+                        onClick={() => setShowSource(showRendered)}
+                        className={headerButtonClass}
+                        title={showRendered ? t('diagram.showSource') : t('diagram.showRendered')}
+                    >
+                        {showRendered ? <Code2 size={14} /> : <Eye size={14} />}
+                        <span>{showRendered ? t('diagram.source') : t('diagram.preview')}</span>
+                    </button>
+                )}
+
+                {/* Soft-wrap and Download Buttons */}
+                {!showRendered && (
+                    <button
+                        onClick={() => setWrap(!wrap)}
+                        className={`${headerButtonClass} ${wrap ? 'text-white bg-white/15' : ''}`}
+                        title={wrap ? t('code.noWrap') : t('code.wrap')}
+                    >
+                        <WrapText size={14} />
+                    </button>
+                )}
+                <button onClick={handleDownload} className={headerButtonClass} title={t('code.download', { name: getDownloadName(language) })}>
+                    <FileDown size={14} />
+                </button>
+
+                {/* Run / Stop Button */}
+                {runnable && (
+                    <button
+                        onClick={isRunning ? handleStop : handleRun}
+                        className={headerButtonClass}
+                        title={isRunning ? t('code.stop') : t('code.runTitle')}
+                    >
+                        {isRunning ? <Square size={12} className="fill-current" /> : <Play size={14} />}
+                        <span>{isRunning ? t('code.stop') : t('code.run')}</span>
+                    </button>
+                )}
+
+                {/* Copy Button */}
+                <button
+                    onClick={handleCopy}
+                    className={headerButtonClass}
+                    title={t('message.copyCode')}
+                >
+                    {copied ? <Check size={14} className="text-emerald-400" /> : <Copy size={14} />}
+                    {copied ? <span className="text-emerald-400">{t('message.copied')}</span> : <span>{t('message.copy')}</span>}
+                </button>
+            </div>
+        </div>
+
+        {renderKind && renderError && !isBusy && (
+            <div className="px-4 py-2 text-xs text-red-300 bg-red-950/30 border-b border-slate-700/50">{renderError}</div>
+        )}
+
+        {/* Rendered diagram or chart; kept mounted while the source is shown so it isn't redrawn */}
+        {renderKind && (
+            <div ref={renderedRef} className={`p-4 bg-white overflow-x-auto ${showRendered ? '' : 'hidden'}`}>
+                {renderKind === 'mermaid'
+                    ? <MermaidView source={code} onError={setRenderError} />
+                    : <ChartPreview source={code} onError={setRenderError} />}
+            </div>
+        )}
+
+        {/* Code Content */}
+        {!showRendered && <CodeLines code={code} language={language} wrap={wrap} />}
+
+        {run.status !== 'idle' && (
+            <RunOutputPanel state={run} onSend={handleSend} onClose={handleClose} canSend={!!onSendOutput && !isBusy} />
+        )}
+    </div>
+  );
+};
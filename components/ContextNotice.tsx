@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { Archive, ChevronDown } from 'lucide-react';
+import { ContextSummary } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface ContextNoticeProps {
+  summary?: ContextSummary;
+  summarizedCount?: number; // Messages of the branch shown up to the end of the summary
+  droppedAttachments: number;
+}
+
+// Divider marking where the history sent to the model was compacted; the summary can be expanded
+export const ContextNotice: React.FC<ContextNoticeProps> = ({ summary, summarizedCount = 0, droppedAttachments }) => {
+  const { t } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="my-4 animate-in fade-in duration-300">
+      <div className="flex items-center gap-3 text-xs text-slate-400">
+        <div className="flex-1 h-px bg-slate-200" />
+        <button
+          onClick={() => summary && setIsExpanded(!isExpanded)}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full bg-slate-100 text-slate-500 font-medium ${summary ? 'hover:bg-slate-200 hover:text-slate-700 transition-colors' : 'cursor-default'}`}
+        >
+          <Archive size={12} />
+          {summary ? t('context.summarized', { count: summarizedCount }) : t('context.attachmentsDropped', { count: droppedAttachments })}
+          {summary && <ChevronDown size={12} className={`transition-transform ${isExpanded ? 'rotate-180' : ''}`} />}
+        </button>
+        <div className="flex-1 h-px bg-slate-200" />
+      </div>
+      {summary && droppedAttachments > 0 && (
+        <p className="mt-1 text-center text-xs text-slate-400">{t('context.attachmentsDropped', { count: droppedAttachments })}</p>
+      )}
+      {isExpanded && summary && (
+        <div className="mt-3 mx-auto max-w-xl px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100 text-sm text-slate-600 whitespace-pre-wrap leading-relaxed">
+          {summary.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Trash2 } from 'lucide-react';
+import { Folder, ModelId } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface FolderEditorProps {
+  folder: Folder | null; // null to create one
+  onSave: (folder: Folder) => Promise<void>;
+  onDelete: (folderId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const MODEL_OPTIONS: { id: ModelId; label: string }[] = [
+  { id: 'gemini-3-flash-preview', label: 'k-ite 1' },
+  { id: 'gemini-3-pro-preview', label: 'k-ite 1.5' },
+];
+
+// Name of a folder and the defaults of the chats started in it
+export const FolderEditor: React.FC<FolderEditorProps> = ({ folder, onSave, onDelete, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<Folder>(() => folder ?? { id: Date.now().toString(), name: '', updatedAt: Date.now() });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (changes: Partial<Folder>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+    const { systemInstruction, ...rest } = draft;
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...rest,
+        name: draft.name.trim(),
+        ...(systemInstruction?.trim() && { systemInstruction: systemInstruction.trim() }),
+        updatedAt: Date.now(),
+      });
+      onClose();
+    } catch (err) {
+      console.error("Failed to save folder", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!folder || !window.confirm(t('folder.deleteConfirm', { name: folder.name }))) return;
+    onDelete(folder.id)
+      .then(onClose)
+      .catch(err => console.error("Failed to delete folder", err));
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9000] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg max-h-[85vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900">{folder ? t('folder.edit') : t('folder.new')}</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-full transition-colors" title={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('folder.name')}</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder={t('folder.namePlaceholder')}
+              className="w-full px-3 py-2.5 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('folder.defaultModel')}</label>
+            <select
+              value={draft.defaultModel || ''}
+              onChange={(e) => update({ defaultModel: (e.target.value || undefined) as ModelId | undefined })}
+              className="w-full px-3 py-2.5 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200"
+            >
+              <option value="">{t('persona.keepModel')}</option>
+              {MODEL_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('folder.systemInstruction')}</label>
+            <textarea
+              value={draft.systemInstruction || ''}
+              onChange={(e) => update({ systemInstruction: e.target.value })}
+              placeholder={t('folder.systemInstructionPlaceholder')}
+              rows={6}
+              className="w-full px-3 py-2.5 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200 resize-y leading-relaxed"
+            />
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center gap-2">
+          {folder && (
+            <button
+              onClick={handleDelete}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-full text-sm font-medium text-red-500 hover:bg-red-50 transition-colors"
+            >
+              <Trash2 size={16} />
+              {t('common.delete')}
+            </button>
+          )}
+          <div className="flex-1" />
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !draft.name.trim()}
+            className="px-4 py-2 rounded-full text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50 transition-colors"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, RotateCcw } from 'lucide-react';
+import { GenerationSettings, ThinkingLevel } from '../types';
+import { GENERATION_LIMITS, MAX_STOP_SEQUENCES, resolveGenerationSettings, sanitizeGenerationSettings } from '../services/generationSettings';
+import { useI18n } from '../hooks/useI18n';
+
+interface GenerationSettingsPanelProps {
+  defaults: GenerationSettings;
+  overrides?: GenerationSettings; // Of the current chat, or the one about to be started
+  onSaveDefaults: (settings: GenerationSettings) => void;
+  onSaveOverrides: (settings: GenerationSettings | undefined) => void;
+  onClose: () => void;
+}
+
+type Scope = 'session' | 'defaults';
+type ThinkingMode = 'auto' | ThinkingLevel | 'budget' | 'off';
+
+// Slider position while a value is unset, roughly where the models default to
+const SLIDER_FALLBACKS = { temperature: 1, topP: 0.95 };
+
+const thinkingModeOf = (settings: GenerationSettings): ThinkingMode => {
+  if (settings.thinkingLevel) return settings.thinkingLevel;
+  if (settings.thinkingBudget === 0) return 'off';
+  if (settings.thinkingBudget !== undefined) return 'budget';
+  return 'auto';
+};
+
+const parseNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+// One setting: label, an optional hint, the control and a reset button while the current scope sets it
+const SettingRow = ({ label, hint, value, isSet, onReset, resetTitle, children }: {
+  label: string;
+  hint?: string;
+  value?: string;
+  isSet: boolean;
+  onReset: () => void;
+  resetTitle: string;
+  children: React.ReactNode;
+}) => (
+  <div>
+    <div className="flex items-center justify-between mb-1.5">
+      <label className="text-xs font-semibold text-slate-500 uppercase">{label}</label>
+      <div className="flex items-center gap-1.5">
+        {value && <span className={`text-xs font-mono ${isSet ? 'text-slate-900' : 'text-slate-400'}`}>{value}</span>}
+        {isSet && (
+          <button onClick={onReset} className="p-1 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-md transition-colors" title={resetTitle}>
+            <RotateCcw size={12} />
+          </button>
+        )}
+      </div>
+    </div>
+    {children}
+    {hint && <p className="mt-1 text-xs text-slate-400">{hint}</p>}
+  </div>
+);
+
+export const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ defaults, overrides, onSaveDefaults, onSaveOverrides, onClose }) => {
+  const { t } = useI18n();
+  const [scope, setScope] = useState<Scope>('session');
+  const [drafts, setDrafts] = useState<Record<Scope, GenerationSettings>>({ session: overrides || {}, defaults });
+
+  const draft = drafts[scope];
+  // What an unset field falls back to in this scope
+  const base = scope === 'session' ? drafts.defaults : {};
+  const effective = resolveGenerationSettings(base, draft);
+
+  const update = (changes: Partial<GenerationSettings>) => setDrafts(prev => {
+    const next: GenerationSettings = { ...prev[scope], ...changes };
+    for (const key of Object.keys(changes) as (keyof GenerationSettings)[]) {
+      if (changes[key] === undefined) delete next[key];
+    }
+    return { ...prev, [scope]: next };
+  });
+
+  const setThinkingMode = (mode: ThinkingMode) => {
+    if (mode === 'auto') update({ thinkingLevel: undefined, thinkingBudget: undefined });
+    else if (mode === 'off') update({ thinkingLevel: undefined, thinkingBudget: 0 });
+    else if (mode === 'budget') update({ thinkingLevel: undefined, thinkingBudget: effective.thinkingBudget || 1024 });
+    else update({ thinkingLevel: mode, thinkingBudget: undefined });
+  };
+
+  const handleSave = () => {
+    onSaveDefaults(sanitizeGenerationSettings(drafts.defaults));
+    onSaveOverrides(sanitizeGenerationSettings(drafts.session));
+    onClose();
+  };
+
+  const resetTitle = scope === 'session' ? t('generation.useDefault') : t('generation.useModelDefault');
+  const thinkingMode = thinkingModeOf(effective);
+  const inputClass = 'w-full px-3 py-2 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200';
+  const sliderRow = (key: 'temperature' | 'topP', label: string, hint: string) => (
+    <SettingRow
+      label={label}
+      hint={hint}
+      value={effective[key] !== undefined ? effective[key]!.toFixed(2) : t('generation.auto')}
+      isSet={draft[key] !== undefined}
+      onReset={() => update({ [key]: undefined })}
+      resetTitle={resetTitle}
+    >
+      <input
+        type="range"
+        min={GENERATION_LIMITS[key].min}
+        max={GENERATION_LIMITS[key].max}
+        step={GENERATION_LIMITS[key].step}
+        value={effective[key] ?? SLIDER_FALLBACKS[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        className={`w-full accent-slate-900 ${effective[key] === undefined ? 'opacity-40' : ''}`}
+      />
+    </SettingRow>
+  );
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9000] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md max-h-[85vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-5 pt-4 pb-3 border-b border-slate-100">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-bold text-slate-900">{t('generation.title')}</h2>
+            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-full transition-colors" title={t('common.close')}>
+              <X size={20} />
+            </button>
+          </div>
+          <div className="flex gap-1 bg-slate-100 rounded-xl p-1">
+            {(['session', 'defaults'] as Scope[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                className={`flex-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  scope === option ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                }`}
+              >
+                {option === 'session' ? t('generation.scopeSession') : t('generation.scopeDefaults')}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-slate-500">
+            {scope === 'session' ? t('generation.sessionHint') : t('generation.defaultsHint')}
+          </p>
+        </div>
+
+        {/* Settings */}
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {sliderRow('temperature', t('generation.temperature'), t('generation.temperatureHint'))}
+          {sliderRow('topP', t('generation.topP'), t('generation.topPHint'))}
+
+          <div className="grid grid-cols-2 gap-4">
+            <SettingRow label={t('generation.topK')} isSet={draft.topK !== undefined} onReset={() => update({ topK: undefined })} resetTitle={resetTitle}>
+              <input
+                type="number"
+                min={GENERATION_LIMITS.topK.min}
+                max={GENERATION_LIMITS.topK.max}
+                value={effective.topK ?? ''}
+                onChange={(e) => update({ topK: parseNumber(e.target.value) })}
+                placeholder={t('generation.auto')}
+                className={inputClass}
+              />
+            </SettingRow>
+            <SettingRow label={t('generation.maxOutputTokens')} isSet={draft.maxOutputTokens !== undefined} onReset={() => update({ maxOutputTokens: undefined })} resetTitle={resetTitle}>
+              <input
+                type="number"
+                min={GENERATION_LIMITS.maxOutputTokens.min}
+                max={GENERATION_LIMITS.maxOutputTokens.max}
+                value={effective.maxOutputTokens ?? ''}
+                onChange={(e) => update({ maxOutputTokens: parseNumber(e.target.value) })}
+                placeholder={t('generation.auto')}
+                className={inputClass}
+              />
+            </SettingRow>
+          </div>
+
+          <SettingRow
+            label={t('generation.stopSequences')}
+            hint={t('generation.stopSequencesHint', { max: MAX_STOP_SEQUENCES })}
+            isSet={draft.stopSequences !== undefined}
+            onReset={() => update({ stopSequences: undefined })}
+            resetTitle={resetTitle}
+          >
+            <textarea
+              value={(effective.stopSequences || []).join('\n')}
+              onChange={(e) => {
+                const lines = e.target.value.split('\n').slice(0, MAX_STOP_SEQUENCES);
+                update({ stopSequences: lines.some(line => line !== '') ? lines : undefined });
+              }}
+              rows={2}
+              className={`${inputClass} font-mono resize-none`}
+            />
+          </SettingRow>
+
+          <SettingRow
+            label={t('generation.thinking')}
+            hint={t('generation.thinkingHint')}
+            isSet={draft.thinkingLevel !== undefined || draft.thinkingBudget !== undefined}
+            onReset={() => update({ thinkingLevel: undefined, thinkingBudget: undefined })}
+            resetTitle={resetTitle}
+          >
+            <div className="flex gap-2">
+              <select value={thinkingMode} onChange={(e) => setThinkingMode(e.target.value as ThinkingMode)} className={inputClass}>
+                <option value="auto">{t('generation.auto')}</option>
+                <option value="low">{t('generation.thinkingLow')}</option>
+                <option value="high">{t('generation.thinkingHigh')}</option>
+                <option value="budget">{t('generation.thinkingBudget')}</option>
+                <option value="off">{t('generation.thinkingOff')}</option>
+              </select>
+              {thinkingMode === 'budget' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={GENERATION_LIMITS.thinkingBudget.max}
+                  value={effective.thinkingBudget ?? ''}
+                  onChange={(e) => update({ thinkingLevel: undefined, thinkingBudget: parseNumber(e.target.value) ?? 1024 })}
+                  title={t('generation.thinkingBudget')}
+                  className={`${inputClass} w-32`}
+                />
+              )}
+            </div>
+          </SettingRow>
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-4 border-t border-slate-100 flex justify-between gap-2">
+          <button
+            onClick={() => setDrafts(prev => ({ ...prev, [scope]: {} }))}
+            className="px-3 py-2 rounded-full text-sm font-medium text-slate-500 hover:bg-slate-100 transition-colors"
+          >
+            {scope === 'session' ? t('generation.resetSession') : t('generation.resetDefaults')}
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button onClick={handleSave} className="px-4 py-2 rounded-full text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 transition-colors">
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+// Renders a `mermaid` block to SVG. Mermaid is large, so it is only loaded with the first diagram.
+
+type Mermaid = typeof import('mermaid').default;
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+const loadMermaid = () => {
+  mermaidPromise ??= import('mermaid').then(({ default: mermaid }) => {
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: 'strict', // No scripts or click handlers from the diagram text
+      theme: 'neutral',
+      // Plain SVG text instead of HTML in foreignObject, which would taint the canvas on PNG export
+      htmlLabels: false,
+      flowchart: { htmlLabels: false },
+    });
+    return mermaid;
+  });
+  return mermaidPromise;
+};
+
+let renderCount = 0;
+const RENDER_DELAY_MS = 300; // While a reply streams in, wait for the text to settle
+
+export const MermaidView = ({ source, onError }: { source: string; onError: (error: string | null) => void }) => {
+  const { t } = useI18n();
+  const [svg, setSvg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const mermaid = await loadMermaid();
+        if (cancelled) return;
+        if (!(await mermaid.parse(source, { suppressErrors: true }))) {
+          if (!cancelled) onError(t('diagram.invalid'));
+          return;
+        }
+        const { svg } = await mermaid.render(`kite-mermaid-${++renderCount}`, source);
+        if (cancelled) return;
+        setSvg(svg);
+        onError(null);
+      } catch (error: any) {
+        if (!cancelled) onError(error?.message || t('diagram.invalid'));
+      }
+    }, RENDER_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source]);
+
+  if (!svg) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-10 text-sm text-slate-400">
+        <Loader2 size={16} className="animate-spin" />
+        {t('diagram.rendering')}
+      </div>
+    );
+  }
+  // Mermaid output is sanitized in strict mode
+  return <div className="flex justify-center [&>svg]:max-w-full [&>svg]:h-auto" dangerouslySetInnerHTML={{ __html: svg }} />;
+};
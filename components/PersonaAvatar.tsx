@@ -0,0 +1,29 @@
+import React from 'react';
+import { SessionPersona } from '../types';
+import { KiteIcon } from './KiteIcon';
+
+interface PersonaAvatarProps {
+  persona?: Pick<SessionPersona, 'name' | 'avatar'> | null; // None means the default k-ite assistant
+  className?: string;
+}
+
+// Square avatar: the persona's image, its emoji, or the first letter of its name
+export const PersonaAvatar: React.FC<PersonaAvatarProps> = ({ persona, className = 'w-8 h-8' }) => {
+  if (!persona) {
+    return (
+      <div className={`${className} rounded-xl bg-gradient-to-tr from-blue-600 to-indigo-500 flex items-center justify-center text-white shadow-md flex-shrink-0`}>
+        <KiteIcon className="w-3/5 h-3/5" />
+      </div>
+    );
+  }
+
+  if (persona.avatar?.startsWith('data:')) {
+    return <img src={persona.avatar} alt={persona.name} className={`${className} rounded-xl object-cover shadow-md flex-shrink-0`} />;
+  }
+
+  return (
+    <div className={`${className} rounded-xl bg-gradient-to-tr from-slate-100 to-slate-200 flex items-center justify-center text-slate-700 font-semibold shadow-md flex-shrink-0`}>
+      {persona.avatar || persona.name.charAt(0).toUpperCase()}
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Plus, Pencil, Trash2, ImagePlus, ArrowLeft } from 'lucide-react';
+import { ModelId, Persona } from '../types';
+import { PersonaAvatar } from './PersonaAvatar';
+import { useI18n } from '../hooks/useI18n';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  onSave: (persona: Persona) => Promise<void>;
+  onDelete: (personaId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const AVATAR_SIZE = 128;
+
+const MODEL_OPTIONS: { id: ModelId; label: string }[] = [
+  { id: 'gemini-3-flash-preview', label: 'k-ite 1' },
+  { id: 'gemini-3-pro-preview', label: 'k-ite 1.5' },
+];
+
+// Crops the picture to a square and scales it down so it can be stored with every session
+const resizeAvatar = (file: File) => new Promise<string>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    const side = Math.min(image.width, image.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = AVATAR_SIZE;
+    canvas.getContext('2d')?.drawImage(
+      image, (image.width - side) / 2, (image.height - side) / 2, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE
+    );
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/jpeg', 0.85));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Could not load image'));
+  };
+  image.src = url;
+});
+
+const emptyPersona = (): Persona => ({
+  id: Date.now().toString(),
+  name: '',
+  systemInstruction: '',
+  updatedAt: Date.now(),
+});
+
+export const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, onSave, onDelete, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<Persona>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const handleAvatarFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ avatar: await resizeAvatar(file) });
+    } catch (err) {
+      console.error("Avatar error:", err);
+      alert(t('input.readError'));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim() || !draft.systemInstruction.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim(), updatedAt: Date.now() });
+      setDraft(null);
+    } catch (err) {
+      console.error("Failed to save persona", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (window.confirm(t('persona.deleteConfirm', { name: persona.name }))) {
+      onDelete(persona.id).catch(err => console.error("Failed to delete persona", err));
+    }
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9000] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg max-h-[85vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            {draft && (
+              <button onClick={() => setDraft(null)} className="p-1 -ml-1 text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-full transition-colors">
+                <ArrowLeft size={20} />
+              </button>
+            )}
+            <h2 className="text-lg font-bold text-slate-900">
+              {draft ? (personas.some(p => p.id === draft.id) ? t('persona.edit') : t('persona.new')) : t('persona.title')}
+            </h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-full transition-colors" title={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {draft ? (
+          // Edit form
+          <div className="flex-1 overflow-y-auto p-5 space-y-4">
+            <div className="flex items-end gap-3">
+              <PersonaAvatar persona={{ name: draft.name || '?', avatar: draft.avatar }} className="w-14 h-14 text-2xl" />
+              <div className="flex-1">
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('persona.avatar')}</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={draft.avatar?.startsWith('data:') ? '' : draft.avatar || ''}
+                    onChange={(e) => update({ avatar: e.target.value.slice(0, 4) || undefined })}
+                    placeholder="🙂"
+                    className="w-16 px-3 py-2 rounded-xl bg-slate-100 text-center text-lg outline-none focus:ring-2 focus:ring-slate-200"
+                  />
+                  <input type="file" ref={avatarInputRef} onChange={handleAvatarFile} accept="image/*" className="hidden" />
+                  <button
+                    onClick={() => avatarInputRef.current?.click()}
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 text-sm font-medium text-slate-700 transition-colors"
+                  >
+                    <ImagePlus size={16} />
+                    {t('persona.uploadAvatar')}
+                  </button>
+                  {draft.avatar && (
+                    <button
+                      onClick={() => update({ avatar: undefined })}
+                      className="px-3 py-2 rounded-xl hover:bg-slate-100 text-sm font-medium text-slate-500 transition-colors"
+                    >
+                      {t('persona.removeAvatar')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('persona.name')}</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder={t('persona.namePlaceholder')}
+                className="w-full px-3 py-2.5 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200"
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('persona.defaultModel')}</label>
+              <select
+                value={draft.defaultModel || ''}
+                onChange={(e) => update({ defaultModel: (e.target.value || undefined) as ModelId | undefined })}
+                className="w-full px-3 py-2.5 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200"
+              >
+                <option value="">{t('persona.keepModel')}</option>
+                {MODEL_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('persona.systemInstruction')}</label>
+              <textarea
+                value={draft.systemInstruction}
+                onChange={(e) => update({ systemInstruction: e.target.value })}
+                placeholder={t('persona.systemInstructionPlaceholder')}
+                rows={8}
+                className="w-full px-3 py-2.5 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200 resize-y leading-relaxed"
+              />
+            </div>
+          </div>
+        ) : (
+          // Persona list
+          <div className="flex-1 overflow-y-auto p-3 space-y-1">
+            {personas.length === 0 ? (
+              <div className="text-center py-10 px-6 text-slate-400 text-sm">{t('persona.empty')}</div>
+            ) : personas.map(persona => (
+              <div key={persona.id} className="group flex items-center gap-3 p-3 rounded-xl hover:bg-slate-50 transition-colors">
+                <PersonaAvatar persona={persona} className="w-10 h-10 text-lg" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-slate-900 truncate">{persona.name}</p>
+                  <p className="text-xs text-slate-500 truncate">{persona.systemInstruction}</p>
+                </div>
+                <button
+                  onClick={() => setDraft(persona)}
+                  className="p-1.5 text-slate-400 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-all"
+                  title={t('message.edit')}
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => handleDelete(persona)}
+                  className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                  title={t('common.delete')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="px-5 py-4 border-t border-slate-100 flex justify-end gap-2">
+          {draft ? (
+            <>
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !draft.name.trim() || !draft.systemInstruction.trim()}
+                className="px-4 py-2 rounded-full text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50 transition-colors"
+              >
+                {t('common.save')}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setDraft(emptyPersona())}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 transition-colors"
+            >
+              <Plus size={16} />
+              {t('persona.new')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
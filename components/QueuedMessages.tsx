@@ -0,0 +1,44 @@
+import React from 'react';
+import { Clock, X, FileText } from 'lucide-react';
+import { QueuedMessage } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface QueuedMessagesProps {
+  messages: QueuedMessage[];
+  isOnline: boolean;
+  onCancel: (queuedId: string) => void;
+}
+
+// Messages sent while offline, shown after the conversation until they go out
+export const QueuedMessages: React.FC<QueuedMessagesProps> = ({ messages, isOnline, onCancel }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col items-end gap-2 mt-2">
+      {messages.map(message => (
+        <div key={message.id} className="group flex flex-col items-end max-w-[85%] animate-in fade-in duration-300">
+          <div className="relative bg-[#0b57d0]/60 text-white rounded-[22px] rounded-tr-[4px] px-4 py-2.5 text-[15px] leading-relaxed" style={{ fontFamily: 'Arial, sans-serif' }}>
+            {message.attachments?.length ? (
+              <p className="flex items-center gap-1.5 text-xs text-white/80 mb-1">
+                <FileText size={12} />
+                {t('offline.attachments', { count: message.attachments.length })}
+              </p>
+            ) : null}
+            <p className="whitespace-pre-wrap">{message.text}</p>
+          </div>
+          <div className="flex items-center gap-2 mt-1 text-xs text-slate-400">
+            <Clock size={12} />
+            {isOnline ? t('offline.sending') : t('offline.queued')}
+            <button
+              onClick={() => onCancel(message.id)}
+              className="p-1 rounded-md hover:bg-slate-100 hover:text-slate-700 transition-colors"
+              title={t('offline.cancel')}
+            >
+              <X size={12} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
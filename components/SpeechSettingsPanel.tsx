@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Volume2, Square } from 'lucide-react';
+import { Playback, SpeechSettings, TtsProviderId, TtsVoice, TTS_PROVIDERS, RATE_LIMITS, getTtsProvider } from '../services/tts';
+import { TranscriptionSettings, TRANSCRIPTION_LANGUAGES } from '../services/transcription';
+import { getLanguageTag } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  transcription: TranscriptionSettings;
+  onSave: (settings: SpeechSettings) => void;
+  onSaveTranscription: (settings: TranscriptionSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS = { webSpeech: 'speech.providerWebSpeech', gemini: 'speech.providerGemini' } as const;
+
+export const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({ settings, transcription, onSave, onSaveTranscription, onClose }) => {
+  const { t, locale } = useI18n();
+  const [draft, setDraft] = useState<SpeechSettings>(settings);
+  const [transcriptionDraft, setTranscriptionDraft] = useState<TranscriptionSettings>(transcription);
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+  const testRef = useRef<Playback | null>(null);
+
+  const providers = TTS_PROVIDERS.filter(id => getTtsProvider(id).id === id);
+  const update = (changes: Partial<SpeechSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateTranscription = (changes: Partial<TranscriptionSettings>) => setTranscriptionDraft(prev => ({ ...prev, ...changes }));
+
+  // Voices in the UI language first
+  useEffect(() => {
+    let cancelled = false;
+    getTtsProvider(draft.provider).getVoices().then(list => {
+      if (cancelled) return;
+      const matches = (v: TtsVoice) => v.lang?.toLowerCase().startsWith(locale) ? 0 : 1;
+      setVoices([...list].sort((a, b) => matches(a) - matches(b) || a.name.localeCompare(b.name)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [draft.provider, locale]);
+
+  const stopTest = () => {
+    testRef.current?.stop();
+    testRef.current = null;
+    setIsTesting(false);
+  };
+
+  useEffect(() => stopTest, []);
+
+  const handleTest = () => {
+    if (isTesting) return stopTest();
+    const playback = getTtsProvider(draft.provider).speak(t('speech.sample'), { voice: draft.voice, rate: draft.rate, lang: getLanguageTag() });
+    testRef.current = playback;
+    setIsTesting(true);
+    playback.finished
+      .catch(error => console.error("Voice test failed", error))
+      .finally(() => {
+        if (testRef.current === playback) setIsTesting(false);
+      });
+  };
+
+  const handleSave = () => {
+    stopTest();
+    onSave(draft);
+    onSaveTranscription(transcriptionDraft);
+    onClose();
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200';
+  const labelClass = 'block text-xs font-semibold text-slate-500 uppercase mb-1.5';
+  const sectionClass = 'text-sm font-bold text-slate-900';
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9000] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md max-h-[85vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-5 pt-4 pb-3 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900">{t('speech.title')}</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-full transition-colors" title={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Settings */}
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          <h3 className={sectionClass}>{t('speech.readAloudSection')}</h3>
+          {providers.length > 1 && (
+            <div>
+              <label className={labelClass}>{t('speech.provider')}</label>
+              <select
+                value={draft.provider}
+                onChange={(e) => update({ provider: e.target.value as TtsProviderId, voice: undefined })}
+                className={inputClass}
+              >
+                {providers.map(id => <option key={id} value={id}>{t(PROVIDER_LABELS[id])}</option>)}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>{t('speech.voice')}</label>
+            <select value={draft.voice ?? ''} onChange={(e) => update({ voice: e.target.value || undefined })} className={inputClass}>
+              <option value="">{t('speech.defaultVoice')}</option>
+              {voices.map(voice => (
+                <option key={voice.id} value={voice.id}>{voice.lang ? `${voice.name} (${voice.lang})` : voice.name}</option>
+              ))}
+            </select>
+            {draft.provider === 'webSpeech' && voices.length === 0 && (
+              <p className="mt-1 text-xs text-slate-400">{t('speech.noVoices')}</p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <label className="text-xs font-semibold text-slate-500 uppercase">{t('speech.rate')}</label>
+              <span className="text-xs font-mono text-slate-900">{draft.rate.toFixed(1)}×</span>
+            </div>
+            <input
+              type="range"
+              min={RATE_LIMITS.min}
+              max={RATE_LIMITS.max}
+              step={RATE_LIMITS.step}
+              value={draft.rate}
+              onChange={(e) => update({ rate: Number(e.target.value) })}
+              className="w-full accent-slate-900"
+            />
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.autoRead}
+              onChange={(e) => update({ autoRead: e.target.checked })}
+              className="mt-1 accent-slate-900"
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-800">{t('speech.autoRead')}</span>
+              <span className="block text-xs text-slate-400">{t('speech.autoReadHint')}</span>
+            </span>
+          </label>
+
+          <h3 className={`${sectionClass} pt-2 border-t border-slate-100`}>{t('transcription.section')}</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>{t('transcription.language')}</label>
+              <select value={transcriptionDraft.language} onChange={(e) => updateTranscription({ language: e.target.value })} className={inputClass}>
+                <option value="auto">{t('transcription.autoDetect')}</option>
+                {TRANSCRIPTION_LANGUAGES.map(language => <option key={language.id} value={language.id}>{language.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('transcription.translateTo')}</label>
+              <select
+                value={transcriptionDraft.translateTo ?? ''}
+                onChange={(e) => updateTranscription({ translateTo: e.target.value || undefined })}
+                className={inputClass}
+              >
+                <option value="">{t('transcription.noTranslation')}</option>
+                {TRANSCRIPTION_LANGUAGES.map(language => <option key={language.id} value={language.id}>{language.label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={transcriptionDraft.timestamps}
+              onChange={(e) => updateTranscription({ timestamps: e.target.checked })}
+              className="mt-1 accent-slate-900"
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-800">{t('transcription.timestamps')}</span>
+              <span className="block text-xs text-slate-400">{t('transcription.timestampsHint')}</span>
+            </span>
+          </label>
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-4 border-t border-slate-100 flex justify-between gap-2">
+          <button
+            onClick={handleTest}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            {isTesting ? <Square size={14} fill="currentColor" /> : <Volume2 size={16} />}
+            {isTesting ? t('speech.stop') : t('speech.test')}
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button onClick={handleSave} className="px-4 py-2 rounded-full text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 transition-colors">
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Tag, TagColor } from '../types';
+
+export const TAG_COLORS: TagColor[] = ['slate', 'red', 'amber', 'green', 'blue', 'purple', 'pink'];
+
+// Written out in full so Tailwind picks the classes up
+const DOT_CLASSES: Record<TagColor, string> = {
+  slate: 'bg-slate-400',
+  red: 'bg-red-500',
+  amber: 'bg-amber-500',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+};
+
+const CHIP_CLASSES: Record<TagColor, string> = {
+  slate: 'bg-slate-100 text-slate-700 border-slate-200',
+  red: 'bg-red-50 text-red-700 border-red-200',
+  amber: 'bg-amber-50 text-amber-700 border-amber-200',
+  green: 'bg-green-50 text-green-700 border-green-200',
+  blue: 'bg-blue-50 text-blue-700 border-blue-200',
+  purple: 'bg-purple-50 text-purple-700 border-purple-200',
+  pink: 'bg-pink-50 text-pink-700 border-pink-200',
+};
+
+export const TagDot: React.FC<{ color: TagColor; className?: string }> = ({ color, className = 'w-2 h-2' }) => (
+  <span className={`inline-block flex-shrink-0 rounded-full ${DOT_CLASSES[color] ?? DOT_CLASSES.slate} ${className}`} />
+);
+
+interface TagChipProps {
+  tag: Tag;
+  isActive?: boolean;
+  onClick?: () => void;
+}
+
+export const TagChip: React.FC<TagChipProps> = ({ tag, isActive, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full border text-xs font-medium transition-all ${
+      isActive ? 'bg-slate-900 border-slate-900 text-white' : `${CHIP_CLASSES[tag.color] ?? CHIP_CLASSES.slate} hover:brightness-95`
+    }`}
+  >
+    <TagDot color={tag.color} />
+    {tag.name}
+  </button>
+);
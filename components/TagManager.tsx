@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { Tag, TagColor } from '../types';
+import { TAG_COLORS, TagDot } from './TagChip';
+import { useI18n } from '../hooks/useI18n';
+
+interface TagManagerProps {
+  tags: Tag[];
+  onSave: (tag: Tag) => Promise<void>;
+  onDelete: (tagId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const ColorPicker: React.FC<{ value: TagColor; onChange: (color: TagColor) => void }> = ({ value, onChange }) => (
+  <div className="flex items-center gap-1">
+    {TAG_COLORS.map(color => (
+      <button
+        key={color}
+        onClick={() => onChange(color)}
+        className={`p-1 rounded-full transition-all ${color === value ? 'ring-2 ring-slate-300' : 'hover:bg-slate-100'}`}
+      >
+        <TagDot color={color} className="w-3 h-3" />
+      </button>
+    ))}
+  </div>
+);
+
+// Tags are renamed and recolored in place; changes are saved as they are made
+export const TagManager: React.FC<TagManagerProps> = ({ tags, onSave, onDelete, onClose }) => {
+  const { t } = useI18n();
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<TagColor>('blue');
+
+  const save = (tag: Tag) => onSave(tag).catch(err => console.error("Failed to save tag", err));
+
+  const commitName = (tag: Tag) => {
+    const name = names[tag.id]?.trim();
+    setNames(({ [tag.id]: _edited, ...rest }) => rest);
+    if (name && name !== tag.name) save({ ...tag, name });
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    save({ id: Date.now().toString(), name, color: newColor });
+    setNewName('');
+  };
+
+  const handleDelete = (tag: Tag) => {
+    if (window.confirm(t('tag.deleteConfirm', { name: tag.name }))) {
+      onDelete(tag.id).catch(err => console.error("Failed to delete tag", err));
+    }
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9000] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg max-h-[85vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900">{t('tag.title')}</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-full transition-colors" title={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {tags.length === 0 ? (
+            <div className="text-center py-10 px-6 text-slate-400 text-sm">{t('tag.empty')}</div>
+          ) : tags.map(tag => (
+            <div key={tag.id} className="flex flex-wrap items-center gap-2 p-2 rounded-xl hover:bg-slate-50 transition-colors">
+              <input
+                type="text"
+                value={names[tag.id] ?? tag.name}
+                onChange={(e) => setNames(prev => ({ ...prev, [tag.id]: e.target.value }))}
+                onBlur={() => commitName(tag)}
+                onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                className="flex-1 min-w-[8rem] px-3 py-2 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200"
+              />
+              <ColorPicker value={tag.color} onChange={(color) => save({ ...tag, color })} />
+              <button
+                onClick={() => handleDelete(tag)}
+                className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                title={t('common.delete')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer: new tag */}
+        <div className="px-5 py-4 border-t border-slate-100 flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder={t('tag.namePlaceholder')}
+            className="flex-1 min-w-[8rem] px-3 py-2 rounded-xl bg-slate-100 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-slate-200"
+          />
+          <ColorPicker value={newColor} onChange={setNewColor} />
+          <button
+            onClick={handleAdd}
+            disabled={!newName.trim()}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50 transition-colors"
+          >
+            <Plus size={16} />
+            {t('tag.new')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Loader2, Wrench, AlertCircle } from 'lucide-react';
+import { ToolCall } from '../types';
+import { getTool } from '../tools';
+import { useI18n } from '../hooks/useI18n';
+
+// One tool call in a reply: status, and the tool's own rendering of its arguments and result
+export const ToolCallView: React.FC<{ call: ToolCall }> = ({ call }) => {
+  const { t } = useI18n();
+  const tool = getTool(call.name);
+  const Icon = call.status === 'running' ? Loader2 : call.status === 'error' ? AlertCircle : tool?.icon || Wrench;
+  const error = call.status === 'error' && typeof call.result?.error === 'string' ? call.result.error : undefined;
+
+  return (
+    <div
+      className={`inline-flex items-center gap-2 max-w-full px-3 py-1.5 rounded-xl border text-xs ${
+        call.status === 'error' ? 'bg-red-50 border-red-100 text-red-700' : 'bg-slate-50 border-slate-200 text-slate-600'
+      }`}
+      title={error}
+    >
+      <Icon size={14} className={`flex-shrink-0 ${call.status === 'running' ? 'animate-spin' : ''}`} />
+      <span className="truncate">
+        {tool?.render ? tool.render(call) : call.name}
+        {call.status === 'running' && !tool?.render && ` · ${t('tool.running')}`}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { X, Mic, Loader2, Hand } from 'lucide-react';
+import { Message, Sender } from '../types';
+import { useVoiceConversation, VoicePhase } from '../hooks/useVoiceConversation';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+import { TranscriptionSettings } from '../services/transcription';
+
+interface VoiceModeProps {
+  messages: Message[];
+  isLoading: boolean;
+  sendMessage: (text: string) => void;
+  stopGeneration: () => void;
+  speak: (message: Message) => boolean;
+  stopSpeech: () => void;
+  speakingId: string | null;
+  transcription: TranscriptionSettings;
+  onClose: () => void;
+}
+
+const PHASE_LABELS: Record<VoicePhase, MessageKey> = {
+  starting: 'voice.starting',
+  listening: 'voice.listening',
+  transcribing: 'voice.transcribing',
+  thinking: 'voice.thinking',
+  speaking: 'voice.speaking',
+};
+
+const ORB_COLORS: Record<VoicePhase, string> = {
+  starting: 'from-slate-400 to-slate-500',
+  listening: 'from-sky-400 to-blue-600',
+  transcribing: 'from-sky-400 to-indigo-500',
+  thinking: 'from-violet-400 to-purple-600',
+  speaking: 'from-emerald-400 to-teal-600',
+};
+
+// Full-screen hands-free conversation: talk, and the reply is read back
+export const VoiceMode: React.FC<VoiceModeProps> = ({ onClose, ...options }) => {
+  const { t } = useI18n();
+  const { phase, level, heard, error, interrupt } = useVoiceConversation(options);
+
+  const reply = options.messages[options.messages.length - 1];
+  const replyText = phase === 'speaking' && reply?.sender === Sender.Model ? reply.text : '';
+  const canInterrupt = phase === 'thinking' || phase === 'speaking';
+  // The orb follows the microphone while listening and breathes otherwise
+  const scale = phase === 'listening' ? 1 + level * 0.5 : 1;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9000] bg-slate-950 text-white flex flex-col items-center justify-between p-6 animate-in fade-in duration-300">
+      <div className="w-full flex justify-end">
+        <button onClick={onClose} className="p-2.5 rounded-full bg-white/10 hover:bg-white/20 transition-colors" title={t('voice.exit')}>
+          <X size={24} />
+        </button>
+      </div>
+
+      <div className="flex flex-col items-center gap-10 w-full max-w-xl">
+        <div
+          className={`w-40 h-40 rounded-full bg-gradient-to-br ${ORB_COLORS[phase]} shadow-[0_0_80px_rgba(59,130,246,0.35)] flex items-center justify-center transition-[transform,background] duration-150 ${phase === 'thinking' || phase === 'speaking' ? 'animate-pulse' : ''}`}
+          style={{ transform: `scale(${scale})` }}
+        >
+          {phase === 'transcribing' || phase === 'starting' ? <Loader2 size={40} className="animate-spin text-white/80" /> : <Mic size={40} className="text-white/80" />}
+        </div>
+
+        <div className="text-center space-y-3 min-h-[120px]">
+          <p className="text-lg font-semibold" aria-live="polite">{error || t(PHASE_LABELS[phase])}</p>
+          {heard && <p className="text-sm text-white/60 line-clamp-2">“{heard}”</p>}
+          {replyText && <p className="text-sm text-white/80 line-clamp-4">{replyText}</p>}
+        </div>
+      </div>
+
+      <div className="h-16 flex items-center justify-center">
+        {canInterrupt && (
+          <button
+            onClick={interrupt}
+            className="flex items-center gap-2 px-5 py-3 rounded-full bg-white/10 hover:bg-white/20 text-sm font-medium transition-colors"
+          >
+            <Hand size={18} />
+            {t('voice.interrupt')}
+          </button>
+        )}
+        {!canInterrupt && !error && <p className="text-xs text-white/40">{t('voice.hint')}</p>}
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AuthUser, login as startLogin, logout as endSession, handleRedirectCallback, restoreSession, onAuthChange, getAccessToken, getAccessTokenExpiry } from '../services/auth';
+
+export type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+// Backoff of refreshes that failed because the identity provider couldn't be reached
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+export const useAuth = () => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [status, setStatus] = useState<AuthStatus>('loading');
+  const [error, setError] = useState<string | null>(null);
+
+  // Finish a pending redirect login, or restore the previous session
+  useEffect(() => {
+    let cancelled = false;
+
+    const init = async () => {
+      try {
+        const signedIn = (await handleRedirectCallback()) || (await restoreSession());
+        if (cancelled) return;
+        setUser(signedIn);
+        setStatus(signedIn ? 'authenticated' : 'unauthenticated');
+      } catch (e: any) {
+        console.error('Authentication failed', e);
+        if (cancelled) return;
+        setError(e.message || String(e));
+        setStatus('unauthenticated');
+      }
+    };
+
+    init();
+    const unsubscribe = onAuthChange(next => {
+      setUser(next);
+      setStatus(next ? 'authenticated' : 'unauthenticated');
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  // Refresh the access token shortly before it expires so the session stays alive while the app is open.
+  // When the provider can't be reached the session is kept, so the refresh is retried with a backoff,
+  // and right away once the browser is back online.
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+    let failures = 0;
+    let refreshing = false; // Going online during a refresh mustn't start a second one
+
+    const schedule = () => {
+      const expiresAt = getAccessTokenExpiry();
+      if (!expiresAt) return;
+      const delay = Math.max(expiresAt - Date.now() - 90_000, 5_000);
+      timer = setTimeout(refresh, delay);
+    };
+
+    const refresh = async () => {
+      if (refreshing) return;
+      refreshing = true;
+      clearTimeout(timer);
+      const token = await getAccessToken();
+      refreshing = false;
+      if (cancelled) return;
+      if (token) {
+        failures = 0;
+        schedule();
+      } else if (getAccessTokenExpiry()) {
+        // Still signed in, the provider was unreachable
+        timer = setTimeout(refresh, Math.min(RETRY_BASE_MS * 2 ** failures++, RETRY_MAX_MS));
+      }
+    };
+
+    schedule();
+    window.addEventListener('online', refresh);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      window.removeEventListener('online', refresh);
+    };
+  }, [status]);
+
+  const login = useCallback(async () => {
+    setError(null);
+    try {
+      await startLogin();
+    } catch (e: any) {
+      console.error('Login failed', e);
+      setError(e.message || String(e));
+    }
+  }, []);
+
+  const logout = useCallback(() => endSession(), []);
+
+  return { user, status, error, login, logout };
+};
@@ -1,37 +1,126 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Chat, GenerateContentResponse, Content, Part } from "@google/genai";
-import { Message, Sender, ModelId, Attachment, ChatSession } from '../types';
-import { createChatSession, generateImage } from '../services/gemini';
-
-const getFriendlyErrorMessage = (error: any): string => {
-    const errString = JSON.stringify(error);
-    if (
-        error?.status === 429 || 
-        error?.code === 429 || 
-        errString.includes('429') || 
-        errString.includes('RESOURCE_EXHAUSTED') ||
-        errString.includes('quota')
-    ) {
-        return 'Hệ thống đang bận hoặc đã hết hạn mức sử dụng miễn phí (429 Resource Exhausted). Vui lòng thử lại sau ít phút.';
-    }
-    return 'Xin lỗi, đã có lỗi xảy ra. Vui lòng thử lại.';
-};
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Message, Sender, ModelId, Attachment, ChatSession, ChatSessionMeta, Persona, SessionPersona, GenerationSettings, ContextSummary, ToolCall, ImageOptions, QueuedMessage, QueuedAttachment, Folder, Tag } from '../types';
+import { createChatSession, generateImage, LLMChat, DEFAULT_SYSTEM_INSTRUCTION } from '../services/llm';
+import { getToolDeclarations, runToolLoop } from '../tools';
+import { buildContext, toParts, estimateTokens, getContextBudget, withContextSummary } from '../services/contextWindow';
+import { openSessionStore, SessionStore } from '../services/sessionStore';
+import { normalizeTree, getBranch, getSiblings, getLatestLeaf, getVersionInfo } from '../services/messageTree';
+import { createSearchIndex } from '../services/searchIndex';
+import { t } from '../services/i18n';
+import { buildImagePrompt, MAX_SOURCE_IMAGES } from '../services/imageOptions';
+import { loadGenerationDefaults, saveGenerationDefaults, resolveGenerationSettings, isEmptyGenerationSettings } from '../services/generationSettings';
+import { downloadSessions, parseSessionsExport, mergeImportedSessions, ExportFormat } from '../services/sessionTransfer';
+import { toApiError, getRetryDelay, ERROR_MESSAGES } from '../services/apiError';
+import { heuristicTitle, generateTitle } from '../services/sessionTitle';
+import { openTabSync, mergeSession, mergeMessages, withReplyLock, waitForReply, TabSync, TabSyncEvent } from '../services/tabSync';
+import { useOnlineStatus } from './useOnlineStatus';
+
+// A failed reply waiting to be generated again
+export interface PendingRetry {
+  messageId: string;
+  retryAt: number; // Epoch ms
+  attempt: number; // Retries made so far
+}
+
+// Untitled sessions have an empty title (shown as "New chat" in the current language);
+// older versions stored the Vietnamese placeholder instead
+const LEGACY_UNTITLED = 'Cuộc trò chuyện mới';
+const isUntitled = (title: string) => !title || title === LEGACY_UNTITLED;
 
 export const useChat = (userEmail: string | null) => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  // Every version of every message of the current session, and the end of the branch being shown
+  const [messageTree, setMessageTree] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<ChatSessionMeta[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [currentModel, setCurrentModel] = useState<ModelId>('gemini-3-flash-preview');
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  // Persona picked for the next new chat; an existing session keeps the one it was started with
+  const [newChatPersona, setNewChatPersona] = useState<SessionPersona | null>(null);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  // Folder the next new chat is started in
+  const [newChatFolderId, setNewChatFolderId] = useState<string | null>(null);
+  // The user's default generation settings, and the overrides chosen for a chat not started yet
+  const [generationDefaults, setGenerationDefaultsState] = useState<GenerationSettings>({});
+  const [newChatGeneration, setNewChatGeneration] = useState<GenerationSettings | undefined>(undefined);
+  // Set while older turns are being summarized before a reply
+  const [isCompacting, setIsCompacting] = useState(false);
+  // Attachments left out of the history the current chat was built with
+  const [droppedAttachments, setDroppedAttachments] = useState(0);
+  const [pendingRetry, setPendingRetry] = useState<PendingRetry | null>(null);
+  // Sessions another of the user's tabs is replying in
+  const [replyingElsewhere, setReplyingElsewhere] = useState<string[]>([]);
+  const isOnline = useOnlineStatus();
+
+  // The linear conversation the user sees
+  const messages = useMemo(() => getBranch(messageTree, activeLeafId), [messageTree, activeLeafId]);
+  const versions = useMemo(() => getVersionInfo(messageTree, messages), [messageTree, messages]);
+  const activePersona = currentSessionId
+    ? sessions.find(s => s.id === currentSessionId)?.persona ?? null
+    : newChatPersona;
+  const newChatFolder = folders.find(f => f.id === newChatFolderId) ?? null;
+  // Stands in for k-ite's system prompt when the chat has no persona
+  const sessionInstruction = currentSessionId
+    ? sessions.find(s => s.id === currentSessionId)?.systemInstruction
+    : newChatFolder?.systemInstruction;
+  const sessionGeneration = currentSessionId
+    ? sessions.find(s => s.id === currentSessionId)?.generationSettings
+    : newChatGeneration;
+  // Messages of the current session waiting for the connection
+  const outbox = (currentSessionId ? sessions.find(s => s.id === currentSessionId)?.outbox : undefined) ?? [];
+  const isReplyingElsewhere = !!currentSessionId && replyingElsewhere.includes(currentSessionId);
+  // The stored summary, while it covers the beginning of the branch shown
+  const storedSummary = currentSessionId ? sessions.find(s => s.id === currentSessionId)?.contextSummary : undefined;
+  const contextSummary = storedSummary && messages.some(m => m.id === storedSummary.upToMessageId) ? storedSummary : undefined;
+  // What the next turn is generated with
+  const generationSettings = useMemo(
+    () => resolveGenerationSettings(generationDefaults, sessionGeneration),
+    [generationDefaults, sessionGeneration]
+  );
   
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<LLMChat | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Tokens of the history in the current chat so far, to rebuild (and compact) it once over budget
+  const contextTokensRef = useRef(0);
+  const storeRef = useRef<SessionStore | null>(null);
+  // State last written for the current session, to skip no-op saves (e.g. right after loading)
+  const syncedRef = useRef<{ tree: Message[]; leafId: string | null } | null>(null);
+  const loadRequestRef = useRef(0);
+  const searchIndexRef = useRef(createSearchIndex());
+  const tabSyncRef = useRef<TabSync | null>(null);
+  // Messages received from other tabs, which saved them already
+  const remoteMessagesRef = useRef(new WeakSet<Message>());
+  // Session this tab is replying in, if any
+  const replyingSessionRef = useRef<string | null>(null);
+  // Queued messages already taken out of the outbox to be sent
+  const dispatchedRef = useRef(new Set<string>());
+  // Payloads of queued attachments while the session store is unavailable, by reference id
+  const unsavedAttachmentsRef = useRef(new Map<string, Attachment>());
+  const handleTabEventRef = useRef<(event: TabSyncEvent) => void>(() => {});
+  // Bumped whenever the search index changes so searches are re-run
+  const [searchIndexVersion, setSearchIndexVersion] = useState(0);
+
+  const addMessage = (message: Message) => {
+    setMessageTree(prev => [...prev, message]);
+    setActiveLeafId(message.id);
+  };
+
+  const updateMessage = (messageId: string, update: (message: Message) => Message) => {
+    setMessageTree(prev => prev.map(msg => msg.id === messageId ? update(msg) : msg));
+  };
 
   const startNewChat = useCallback((shouldClearMessages = true) => {
     setCurrentSessionId(null); // Reset session ID
+    setNewChatPersona(null);
+    setNewChatFolderId(null);
+    setNewChatGeneration(undefined);
 
     if (shouldClearMessages) {
-        setMessages([]); // Start with empty messages (No welcome message)
+        // Start with empty messages (No welcome message)
+        setMessageTree([]);
+        setActiveLeafId(null);
     }
     
     // Reset Gemini Chat instance
@@ -44,104 +133,201 @@ export const useChat = (userEmail: string | null) => {
       abortControllerRef.current.abort();
       // Important: Do NOT set to null here immediately. 
       // Let the sendMessage function handle the cleanup or checking.
+    } else if (isReplyingElsewhere) {
+      tabSyncRef.current?.post({ type: 'stop', sessionId: currentSessionId });
     }
     setIsLoading(false);
-  }, []);
+  }, [currentSessionId, isReplyingElsewhere]);
 
-  // Load sessions from local storage when user logs in
+  // Open the user's session store when they log in
   useEffect(() => {
-    if (userEmail) {
-      const stored = localStorage.getItem(`kite_sessions_${userEmail}`);
-      if (stored) {
-        try {
-          const parsedSessions = JSON.parse(stored).map((s: any) => ({
-            ...s,
-            messages: s.messages.map((m: any) => ({
-              ...m,
-              timestamp: new Date(m.timestamp)
-            }))
-          }));
-          // Sort by newest first
-          parsedSessions.sort((a: ChatSession, b: ChatSession) => b.updatedAt - a.updatedAt);
-          setSessions(parsedSessions);
-          
-          // Start fresh AND clear previous messages to prevent data leak between accounts
-          startNewChat(true);
-        } catch (e) {
-          console.error("Failed to parse sessions", e);
-          startNewChat(true);
+    setSessions([]); // Clear sessions (and messages below) to prevent data leak between accounts
+    setPersonas([]);
+    setFolders([]);
+    setTags([]);
+    setReplyingElsewhere([]);
+    setGenerationDefaultsState(userEmail ? loadGenerationDefaults(userEmail) : {});
+    searchIndexRef.current.clear();
+    startNewChat(true);
+    if (!userEmail) return;
+
+    let cancelled = false;
+    let store: SessionStore | null = null;
+    const tabSync = openTabSync(userEmail, event => handleTabEventRef.current(event));
+    tabSyncRef.current = tabSync;
+
+    openSessionStore(userEmail)
+      .then(async opened => {
+        store = opened;
+        if (cancelled) {
+          opened.close();
+          return;
         }
-      } else {
-        setSessions([]); // Clear sessions if new user has none
-        startNewChat(true);
-      }
-    } else {
-        setSessions([]); // Clear sessions on logout
-        setMessages([]); // Clear messages on logout
-        setCurrentSessionId(null);
-    }
+        storeRef.current = opened;
+        setSessions(await opened.listSessions());
+        setPersonas(await opened.listPersonas());
+        setFolders(await opened.listFolders());
+        setTags(await opened.listTags());
+      })
+      .catch(e => console.error("Failed to open session store", e));
+
+    return () => {
+      cancelled = true;
+      if (storeRef.current === store) storeRef.current = null;
+      store?.close();
+      if (tabSyncRef.current === tabSync) tabSyncRef.current = null;
+      tabSync.close();
+    };
   }, [userEmail, startNewChat]);
 
-  // Save sessions to local storage whenever they change
-  useEffect(() => {
-    if (userEmail) {
-      localStorage.setItem(`kite_sessions_${userEmail}`, JSON.stringify(sessions));
+  // Applies what the user's other tabs changed; replaced every render so it sees the current session
+  handleTabEventRef.current = (event: TabSyncEvent) => {
+    switch (event.type) {
+      case 'session':
+        setSessions(prev => mergeSession(prev, event.session));
+        break;
+      case 'messages': {
+        if (event.sessionId !== currentSessionId) break;
+        event.messages.forEach(m => remoteMessagesRef.current.add(m));
+        setMessageTree(prev => mergeMessages(prev, event.messages));
+        // Follow the conversation when it goes on from the message shown last
+        setActiveLeafId(prev => {
+          let leafId = prev;
+          for (let next = event.messages.find(m => m.parentId === leafId); next; next = event.messages.find(m => m.parentId === leafId)) {
+            leafId = next.id;
+          }
+          return leafId;
+        });
+        break;
+      }
+      case 'deleted':
+        setSessions(prev => prev.filter(s => s.id !== event.sessionId));
+        if (event.sessionId === currentSessionId) startNewChat();
+        break;
+      case 'cleared':
+        setSessions([]);
+        startNewChat();
+        break;
+      case 'replying':
+        setReplyingElsewhere(prev => [...prev, event.sessionId]);
+        waitForReply(userEmail, event.sessionId)
+          .then(() => setReplyingElsewhere(prev => prev.filter(id => id !== event.sessionId)));
+        break;
+      case 'stop':
+        if (replyingSessionRef.current === event.sessionId) stopGeneration();
+        break;
     }
-  }, [sessions, userEmail]);
+  };
 
-  // Sync current messages to the active session in the sessions list
+  // Sync current messages to the active session in the sessions list and persist them
   useEffect(() => {
     // Only update if we have a valid Session ID
-    if (currentSessionId && messages.length > 0) {
-      setSessions(prev => {
-        const existingSessionIndex = prev.findIndex(s => s.id === currentSessionId);
-        if (existingSessionIndex === -1) return prev;
-
-        const currentSession = prev[existingSessionIndex];
-        const lastSessionMsg = currentSession.messages[currentSession.messages.length - 1];
-        const lastMsg = messages[messages.length - 1];
-
-        // Optimization: Prevent unnecessary updates, BUT check text content to capture streaming
-        if (currentSession.messages.length === messages.length && 
-            lastSessionMsg && lastMsg &&
-            lastSessionMsg.id === lastMsg.id &&
-            lastSessionMsg.text === lastMsg.text && // Vital: Check if text changed
-            lastSessionMsg.isError === lastMsg.isError &&
-            lastSessionMsg.attachment === lastMsg.attachment
-        ) {
-            return prev;
-        }
+    if (!currentSessionId || messageTree.length === 0) return;
+    const synced = syncedRef.current;
+    if (synced && synced.tree === messageTree && synced.leafId === activeLeafId) return;
+    // Flipping between versions is not a new activity, only new or changed messages are
+    const isContentChange = synced?.tree !== messageTree;
+    syncedRef.current = { tree: messageTree, leafId: activeLeafId };
+
+    // New or changed messages go to the other tabs, except those that came from them
+    if (isContentChange) {
+      const previous = new Set(synced?.tree);
+      const changed = messageTree.filter(m => !previous.has(m) && !remoteMessagesRef.current.has(m));
+      if (changed.length === 0) return;
+      tabSyncRef.current?.post({ type: 'messages', sessionId: currentSessionId, messages: changed });
+    }
 
-        const updatedSessions = [...prev];
-        let title = currentSession.title;
-        
-        // Auto-generate title from first user message if it's currently default
-        if (title === 'Cuộc trò chuyện mới' && messages.length > 0) {
-            const firstUserMsg = messages.find(m => m.sender === Sender.User);
-            if (firstUserMsg) {
-                title = firstUserMsg.text.slice(0, 30) + (firstUserMsg.text.length > 30 ? '...' : '');
-            }
-        }
+    setSessions(prev => {
+      const existingSessionIndex = prev.findIndex(s => s.id === currentSessionId);
+      if (existingSessionIndex === -1) return prev;
+
+      const currentSession = prev[existingSessionIndex];
+      let title = currentSession.title;
+
+      // Title untitled sessions after their first user message until the model gives a better title
+      if (isUntitled(title)) {
+          const firstUserMsg = messages.find(m => m.sender === Sender.User);
+          if (firstUserMsg) {
+              title = heuristicTitle(firstUserMsg);
+          }
+      }
 
-        updatedSessions[existingSessionIndex] = {
-            ...currentSession,
-            messages: messages,
-            title: title,
-            updatedAt: Date.now()
-        };
+      const updatedSession: ChatSessionMeta = {
+          ...currentSession,
+          title: title,
+          activeLeafId: activeLeafId || undefined,
+          updatedAt: isContentChange ? Date.now() : currentSession.updatedAt
+      };
+      storeRef.current?.saveSession(updatedSession, messageTree);
+      tabSyncRef.current?.post({ type: 'session', session: updatedSession });
 
-        // Re-sort by updated time
-        return updatedSessions.sort((a, b) => b.updatedAt - a.updatedAt);
-      });
-    }
-  }, [messages, currentSessionId]);
+      const updatedSessions = [...prev];
+      updatedSessions[existingSessionIndex] = updatedSession;
+
+      // Re-sort by updated time
+      return updatedSessions.sort((a, b) => b.updatedAt - a.updatedAt);
+    });
+  }, [messageTree, activeLeafId, messages, currentSessionId]);
+
+  // Keep the search index in step with the sessions: (re)index those changed since they were last
+  // indexed, one at a time in the background, and drop deleted ones
+  useEffect(() => {
+    const store = storeRef.current;
+    if (!store) return;
+    const index = searchIndexRef.current;
+    let cancelled = false;
+
+    (async () => {
+      let changed = false;
+      for (const session of sessions) {
+        if (cancelled) return;
+        if (index.isIndexed(session.id, session.updatedAt)) continue;
+        const texts = await store.loadMessageTexts(session.id);
+        if (cancelled) return;
+        index.indexSession(session.id, session.updatedAt, texts);
+        changed = true;
+      }
+      if (index.retain(sessions.map(s => s.id))) changed = true;
+      if (changed) setSearchIndexVersion(v => v + 1);
+    })().catch(e => console.error("Failed to index sessions", e));
 
-  const loadSession = useCallback((sessionId: string) => {
+    return () => {
+      cancelled = true;
+    };
+  }, [sessions]);
+
+  // Message hits for a query, newest first; identity changes whenever the index does
+  const searchMessages = useCallback(
+    (query: string) => searchIndexRef.current.search(query),
+    [searchIndexVersion]
+  );
+
+  // Opens a session; `focusMessageId` makes sure the branch containing that message is the one shown
+  const loadSession = useCallback(async (sessionId: string, focusMessageId?: string) => {
+    const store = storeRef.current;
     const session = sessions.find(s => s.id === sessionId);
-    if (session) {
-        setCurrentSessionId(session.id);
-        setMessages(session.messages);
-        chatSessionRef.current = null; 
+    if (!store || !session) return;
+
+    // Ignore results of an earlier load if the user has clicked another session meanwhile
+    const requestId = ++loadRequestRef.current;
+    try {
+      const loaded = normalizeTree(await store.loadMessages(sessionId));
+      if (requestId !== loadRequestRef.current) return;
+
+      let leafId = loaded.some(m => m.id === session.activeLeafId)
+        ? session.activeLeafId!
+        : loaded[loaded.length - 1]?.id ?? null;
+      if (focusMessageId && loaded.some(m => m.id === focusMessageId) && !getBranch(loaded, leafId).some(m => m.id === focusMessageId)) {
+        leafId = getLatestLeaf(loaded, focusMessageId);
+      }
+
+      syncedRef.current = { tree: loaded, leafId };
+      setCurrentSessionId(sessionId);
+      setMessageTree(loaded);
+      setActiveLeafId(leafId);
+      chatSessionRef.current = null;
+    } catch (e) {
+      console.error("Failed to load session", e);
     }
   }, [sessions]);
 
@@ -152,6 +338,8 @@ export const useChat = (userEmail: string | null) => {
         const newSessions = prev.filter(s => s.id !== sessionId);
         return newSessions;
     });
+    storeRef.current?.deleteSession(sessionId).catch(err => console.error("Failed to delete session", err));
+    tabSyncRef.current?.post({ type: 'deleted', sessionId });
 
     // If we deleted the current session being viewed, reset to a new chat
     if (sessionId === currentSessionId) {
@@ -160,196 +348,308 @@ export const useChat = (userEmail: string | null) => {
   }, [currentSessionId, startNewChat]);
 
   const clearAllSessions = useCallback(() => {
-    if (window.confirm('Bạn có chắc chắn muốn xóa toàn bộ lịch sử chat không? Hành động này không thể hoàn tác.')) {
+    if (window.confirm(t('sidebar.clearAllConfirm'))) {
         setSessions([]);
+        storeRef.current?.clear().catch(e => console.error("Failed to clear sessions", e));
+        tabSyncRef.current?.post({ type: 'cleared' });
         startNewChat();
     }
   }, [startNewChat]);
 
-  // Initialize Chat Session (Gemini)
+  // Downloads the given sessions (all of them when no ids are given) with every message version
+  const exportSessions = useCallback(async (format: ExportFormat, sessionIds?: string[]) => {
+    const store = storeRef.current;
+    if (!store) return;
+    const selected = sessionIds ? sessions.filter(s => sessionIds.includes(s.id)) : sessions;
+    if (selected.length === 0) return;
+
+    const full: ChatSession[] = await Promise.all(selected.map(async meta => ({
+      ...meta,
+      messages: normalizeTree(await store.loadMessages(meta.id)),
+    })));
+    await downloadSessions(full, format);
+  }, [sessions]);
+
+  // Adds the sessions of a JSON export to the history; returns how many were added.
+  // Throws with a user-facing message when the file is not a valid export.
+  const importSessions = useCallback(async (json: string): Promise<number> => {
+    const store = storeRef.current;
+    if (!store) return 0;
+
+    const imported = mergeImportedSessions(sessions, parseSessionsExport(json));
+    const metas = imported.map(({ messages, ...meta }): ChatSessionMeta => meta);
+    imported.forEach((session, i) => store.saveSession(metas[i], normalizeTree(session.messages)));
+    await store.flush();
+
+    setSessions(prev => [...prev, ...metas].sort((a, b) => b.updatedAt - a.updatedAt));
+    metas.forEach(session => tabSyncRef.current?.post({ type: 'session', session }));
+    return imported.length;
+  }, [sessions]);
+
+  // Reset the Chat Session when the model, session, persona or generation settings change;
+  // the next turn rebuilds it from the active branch
   useEffect(() => {
-    const history: Content[] = messages
-      .filter(m => !m.isError && (m.text.trim() !== '' || m.attachment))
-      .map(m => {
-        const parts: Part[] = [];
-        if (m.attachment) {
-            parts.push({ inlineData: { mimeType: m.attachment.mimeType, data: m.attachment.data } });
-        }
-        if (m.text) {
-            parts.push({ text: m.text });
-        }
-        return {
-            role: m.sender === Sender.User ? 'user' : 'model',
-            parts: parts
-        };
-      });
-
-    chatSessionRef.current = createChatSession(currentModel, history);
-  }, [currentModel, currentSessionId]); 
-
-  // Helper for image generation inside the hook
-  const handleImageGeneration = async (prompt: string, botMsgId: string, controller: AbortController) => {
-     try {
-        const response = await generateImage(prompt);
-        // Strict check: if aborted, stop immediately
-        if (controller.signal.aborted) return;
-
-        let generatedAttachment: Attachment | undefined;
-        let generatedText = '';
-
-        const candidate = response.candidates?.[0];
-        if (candidate?.content?.parts) {
-            for (const part of candidate.content.parts) {
-                if (part.inlineData) {
-                    generatedAttachment = {
-                        mimeType: part.inlineData.mimeType,
-                        data: part.inlineData.data
-                    };
-                } else if (part.text) {
-                    generatedText += part.text;
-                }
-            }
-        }
+    chatSessionRef.current = null;
+  }, [currentModel, currentSessionId, activePersona?.id, sessionInstruction, generationSettings]);
 
-        if (controller.signal.aborted) return;
-
-        setMessages((prev) => {
-             return prev.map(msg => {
-                if (msg.id === botMsgId) {
-                    if (generatedAttachment) {
-                        return {
-                            ...msg,
-                            text: generatedText || 'Đây là hình ảnh mình vừa tạo theo yêu cầu của bạn:',
-                            attachment: generatedAttachment
-                        };
-                    } else {
-                         return {
-                            ...msg,
-                            text: 'Xin lỗi, mình không thể tạo hình ảnh lúc này.',
-                            isError: true
-                        };
-                    }
-                }
-                return msg;
-             });
-        });
-     } catch (err: any) {
-        if (controller.signal.aborted) return;
-        console.error("Image Gen Error", err);
-        setMessages((prev) => prev.map(msg => 
-            msg.id === botMsgId ? { ...msg, text: getFriendlyErrorMessage(err), isError: true } : msg
-        ));
-     }
+  useEffect(() => {
+    setDroppedAttachments(0);
+    setPendingRetry(null);
+  }, [currentSessionId]);
+
+  // Persists a session's changed metadata and passes it on to the other tabs
+  const saveSessionMeta = (session: ChatSessionMeta, failure: string) => {
+    storeRef.current?.saveSessionMeta(session).catch(e => console.error(failure, e));
+    tabSyncRef.current?.post({ type: 'session', session });
+  };
+
+  const saveContextSummary = (sessionId: string, summary: ContextSummary) => {
+    setSessions(prev => prev.map(session => {
+      if (session.id !== sessionId) return session;
+      const updated: ChatSessionMeta = { ...session, contextSummary: summary };
+      saveSessionMeta(updated, "Failed to save context summary");
+      return updated;
+    }));
+  };
+
+  const setGenerationDefaults = useCallback((settings: GenerationSettings) => {
+    if (userEmail) saveGenerationDefaults(userEmail, settings);
+    setGenerationDefaultsState(settings);
+  }, [userEmail]);
+
+  // Overrides for the current chat (or the one about to be started); undefined goes back to the defaults
+  const setSessionGenerationSettings = useCallback((settings: GenerationSettings | undefined) => {
+    const overrides = isEmptyGenerationSettings(settings) ? undefined : settings;
+    if (!currentSessionId) {
+      setNewChatGeneration(overrides);
+      return;
+    }
+    setSessions(prev => prev.map(session => {
+      if (session.id !== currentSessionId) return session;
+      const { generationSettings: _previous, ...rest } = session;
+      const updated: ChatSessionMeta = { ...rest, ...(overrides && { generationSettings: overrides }) };
+      saveSessionMeta(updated, "Failed to save session settings");
+      return updated;
+    }));
+  }, [currentSessionId]);
+
+  // Picks the persona for the chat about to be started, switching to its preferred model
+  const selectPersona = useCallback((personaId: string | null) => {
+    const persona = personas.find(p => p.id === personaId);
+    if (!persona) {
+      setNewChatPersona(null);
+      return;
+    }
+    const { id, name, systemInstruction, avatar } = persona;
+    setNewChatPersona({ id, name, systemInstruction, ...(avatar && { avatar }) });
+    if (persona.defaultModel) setCurrentModel(persona.defaultModel);
+  }, [personas]);
+
+  const savePersona = useCallback(async (persona: Persona) => {
+    await storeRef.current?.savePersona(persona);
+    setPersonas(prev => [...prev.filter(p => p.id !== persona.id), persona].sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
+  const deletePersona = useCallback(async (personaId: string) => {
+    await storeRef.current?.deletePersona(personaId);
+    setPersonas(prev => prev.filter(p => p.id !== personaId));
+    setNewChatPersona(prev => prev?.id === personaId ? null : prev);
+  }, []);
+
+  const updateSessionMeta = (sessionId: string, update: (session: ChatSessionMeta) => ChatSessionMeta) => {
+    setSessions(prev => prev.map(session => {
+      if (session.id !== sessionId) return session;
+      const updated = update(session);
+      saveSessionMeta(updated, "Failed to save session");
+      return updated;
+    }));
   };
 
-  const sendMessage = useCallback(async (text: string, attachment?: Attachment, isImageGen?: boolean) => {
-    if (!text.trim() && !attachment) return;
+  const togglePinned = useCallback((sessionId: string) => {
+    updateSessionMeta(sessionId, ({ pinned, ...session }) => ({ ...session, ...(!pinned && { pinned: true }) }));
+  }, []);
+
+  // Files a session in a folder, or takes it out of its folder with null
+  const moveSessionToFolder = useCallback((sessionId: string, folderId: string | null) => {
+    updateSessionMeta(sessionId, ({ folderId: _previous, ...session }) => ({ ...session, ...(folderId && { folderId }) }));
+  }, []);
+
+  const setSessionTags = useCallback((sessionId: string, tagIds: string[]) => {
+    updateSessionMeta(sessionId, ({ tagIds: _previous, ...session }) => ({ ...session, ...(tagIds.length > 0 && { tagIds }) }));
+  }, []);
+
+  // A title typed by the user is kept for good; generated titles never replace it
+  const renameSession = useCallback((sessionId: string, title: string) => {
+    if (!title.trim()) return;
+    updateSessionMeta(sessionId, session => ({ ...session, title: title.trim(), titleSource: 'manual' }));
+  }, []);
+
+  // Once a reply is in, chats still titled after their first words get a title from the title model.
+  // If that fails the first words stay, and it is tried again after the next reply. Sessions saved or
+  // imported before titles were tracked have no titleSource; any other title of theirs is kept as if typed.
+  const wasLoadingRef = useRef(false);
+  useEffect(() => {
+    const finished = wasLoadingRef.current && !isLoading;
+    wasLoadingRef.current = isLoading;
+    const session = sessions.find(s => s.id === currentSessionId);
+    const [prompt, reply] = messages;
+    if (!finished || !session || session.titleSource || !prompt || !reply || reply.isError) return;
+    if (!isUntitled(session.title) && session.title !== heuristicTitle(prompt)) return;
+
+    generateTitle(prompt, reply, currentModel)
+      .then(title => updateSessionMeta(session.id, current => current.titleSource === 'manual' ? current : { ...current, title, titleSource: 'generated' }))
+      .catch(e => console.error("Failed to generate title", e));
+  }, [isLoading]);
+
+  // Picks the folder the chat about to be started goes in, switching to its default model
+  const selectFolder = useCallback((folderId: string | null) => {
+    const folder = folders.find(f => f.id === folderId);
+    setNewChatFolderId(folder?.id ?? null);
+    if (folder?.defaultModel) setCurrentModel(folder.defaultModel);
+  }, [folders]);
+
+  const saveFolder = useCallback(async (folder: Folder) => {
+    await storeRef.current?.saveFolder(folder);
+    setFolders(prev => [...prev.filter(f => f.id !== folder.id), folder].sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
+  // Sessions of a deleted folder are kept, outside any folder
+  const deleteFolder = useCallback(async (folderId: string) => {
+    await storeRef.current?.deleteFolder(folderId);
+    setFolders(prev => prev.filter(f => f.id !== folderId));
+    setNewChatFolderId(prev => prev === folderId ? null : prev);
+    sessions.filter(s => s.folderId === folderId).forEach(s => moveSessionToFolder(s.id, null));
+  }, [sessions]);
+
+  const saveTag = useCallback(async (tag: Tag) => {
+    await storeRef.current?.saveTag(tag);
+    setTags(prev => [...prev.filter(other => other.id !== tag.id), tag].sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
+  const deleteTag = useCallback(async (tagId: string) => {
+    await storeRef.current?.deleteTag(tagId);
+    setTags(prev => prev.filter(tag => tag.id !== tagId));
+    sessions.filter(s => s.tagIds?.includes(tagId)).forEach(s => setSessionTags(s.id, s.tagIds.filter(id => id !== tagId)));
+  }, [sessions]);
 
+  // Helper for image generation inside the hook. Images attached to the prompt are edited rather than
+  // drawn from scratch; with several variants, the first is selected until the user picks another.
+  const handleImageGeneration = async (userMessage: Message, botMsgId: string, controller: AbortController) => {
+     const { text, imageOptions = {} } = userMessage;
+     const images = (userMessage.attachments || []).filter(a => a.mimeType.startsWith('image/')).slice(0, MAX_SOURCE_IMAGES);
+     // API errors are left to the caller, which retries them like chat errors
+     const { text: generatedText, attachments: generatedAttachments } = await generateImage({
+       prompt: buildImagePrompt(text, imageOptions, images.length > 0),
+       images,
+       aspectRatio: imageOptions.aspectRatio,
+       count: imageOptions.variants,
+     });
+     // Strict check: if aborted, stop immediately
+     if (controller.signal.aborted) return;
+
+     updateMessage(botMsgId, msg => {
+         if (generatedAttachments.length > 0) {
+             return {
+                 ...msg,
+                 text: generatedText || t('chat.imageReady'),
+                 attachments: generatedAttachments,
+                 ...(generatedAttachments.length > 1 && { selectedImage: 0 }),
+             };
+         }
+         return {
+             ...msg,
+             text: t('chat.imageFailed'),
+             isError: true
+         };
+     });
+  };
+
+  // Streams the model's answer to `userMessage` into a new reply.
+  // `history` is the branch before the user message; it seeds the chat if it has to be (re)created.
+  // A retry regenerates the failed reply in place instead, so the turn isn't repeated.
+  const generateReply = async (userMessage: Message, history: Message[], retry?: { replyId: string; attempt: number }) => {
     // 0. Setup AbortController
     const controller = new AbortController();
     abortControllerRef.current = controller;
-
-    // 1. Prepare User Message
-    const userMsgId = Date.now().toString();
-    const userMessage: Message = {
-      id: userMsgId,
-      sender: Sender.User,
-      text: text,
-      attachment: attachment,
+    setIsLoading(true);
+    setPendingRetry(null);
+
+    const { isImageRequest } = userMessage;
+    const botMsgId = retry?.replyId ?? (Date.now() + 1).toString();
+    const reply: Message = {
+      id: botMsgId,
+      sender: Sender.Model,
+      text: isImageRequest ? t('chat.drawing') : '', 
       timestamp: new Date(),
+      parentId: userMessage.id,
     };
-
-    // 2. Logic for New Session vs Existing Session
-    let activeSessionId = currentSessionId;
-
-    if (!activeSessionId) {
-        activeSessionId = Date.now().toString();
-        setCurrentSessionId(activeSessionId);
-
-        const newSession: ChatSession = {
-            id: activeSessionId,
-            title: text.slice(0, 30) || 'Cuộc trò chuyện mới',
-            messages: [...messages, userMessage], 
-            updatedAt: Date.now()
-        };
-        
-        setSessions(prev => [newSession, ...prev]);
+    if (retry) {
+      updateMessage(botMsgId, () => reply);
+    } else {
+      addMessage(reply);
     }
 
-    setMessages((prev) => [...prev, userMessage]);
-    setIsLoading(true);
-
-    const botMsgId = (Date.now() + 1).toString();
-    setMessages((prev) => [
-      ...prev,
-      {
-        id: botMsgId,
-        sender: Sender.Model,
-        text: isImageGen ? 'Đang vẽ hình...' : '', 
-        timestamp: new Date(),
-      },
-    ]);
-
     try {
-      if (isImageGen) {
-        await handleImageGeneration(text, botMsgId, controller);
+      if (isImageRequest) {
+        await handleImageGeneration(userMessage, botMsgId, controller);
       } else {
+        const prompt = toParts(userMessage);
         if (!chatSessionRef.current) {
-            chatSessionRef.current = createChatSession(currentModel);
-        }
-
-        const parts: Part[] = [];
-        if (attachment) {
-            parts.push({
-                inlineData: {
-                    mimeType: attachment.mimeType,
-                    data: attachment.data
-                }
-            });
-        }
-        if (text) parts.push({ text: text });
-
-        const result = await chatSessionRef.current.sendMessageStream({ message: parts });
-
-        let isFunctionCallDetected = false;
-
-        for await (const chunk of result) {
-            // CRITICAL: Check the LOCAL controller instance
-            if (controller.signal.aborted) {
-                break;
+            // Fit the branch into the model's budget, summarizing older turns if needed
+            const systemInstruction = activePersona?.systemInstruction || sessionInstruction || DEFAULT_SYSTEM_INSTRUCTION;
+            const context = await buildContext({
+              model: currentModel,
+              branch: history,
+              summary: storedSummary,
+              extraTokens: estimateTokens([{ text: systemInstruction }, ...prompt]),
+              signal: controller.signal,
+              onSummarize: () => setIsCompacting(true),
+            }).finally(() => setIsCompacting(false));
+            if (controller.signal.aborted) return;
+
+            if (context.summary && context.summary !== storedSummary && currentSessionId) {
+              saveContextSummary(currentSessionId, context.summary);
             }
+            setDroppedAttachments(context.droppedAttachments);
+            contextTokensRef.current = context.tokens;
+            chatSessionRef.current = createChatSession(currentModel, context.history, withContextSummary(systemInstruction, context.summary), generationSettings, getToolDeclarations());
+        }
 
-            const functionCalls = chunk.functionCalls;
-            if (functionCalls && functionCalls.length > 0) {
-                const call = functionCalls[0];
-                if (call.name === 'generate_image') {
-                    isFunctionCallDetected = true;
-                    const prompt = (call.args as any).prompt || text;
-                    setMessages((prev) => prev.map(msg => 
-                        msg.id === botMsgId ? { ...msg, text: "Đang tạo hình ảnh tự động..." } : msg
-                    ));
-                    await handleImageGeneration(prompt, botMsgId, controller);
-                    break; 
-                }
-            }
+        // The model may call tools several times before it answers: each round's results are
+        // sent back as function responses until it replies with text only
+        const toolCallIds = (step: number, count: number) => Array.from({ length: count }, (_, i) => `${botMsgId}-${step}-${i}`);
+        const turn = await runToolLoop(chatSessionRef.current, prompt, controller.signal, {
+            onText: chunkText => updateMessage(botMsgId, msg => ({ ...msg, text: msg.text + chunkText })),
+            onToolCalls: (functionCalls, step) => {
+                const ids = toolCallIds(step, functionCalls.length);
+                const toolCalls: ToolCall[] = functionCalls.map((call, i) => ({
+                    id: ids[i],
+                    name: call.name,
+                    args: call.args || {},
+                    status: 'running',
+                }));
+                updateMessage(botMsgId, msg => ({ ...msg, toolCalls: [...(msg.toolCalls || []), ...toolCalls] }));
+            },
+            onToolResults: (executed, step) => {
+                const ids = toolCallIds(step, executed.length);
+                const finished = new Map(ids.map((id, i) => [id, executed[i]]));
+                const newAttachments = executed.flatMap(({ result }) => result.attachments || []);
+                updateMessage(botMsgId, msg => ({
+                    ...msg,
+                    toolCalls: msg.toolCalls?.map(call => {
+                        const done = finished.get(call.id);
+                        return done ? { ...call, status: done.isError ? 'error' : 'done', result: done.result.response } : call;
+                    }),
+                    ...(newAttachments.length > 0 && { attachments: [...(msg.attachments || []), ...newAttachments] }),
+                }));
+            },
+        });
 
-            if (!isFunctionCallDetected) {
-                const c = chunk as GenerateContentResponse;
-                const chunkText = c.text || '';
-                
-                if (chunkText) {
-                    setMessages((prev) => {
-                        const lastMsg = prev[prev.length - 1];
-                        if (lastMsg.id === botMsgId) {
-                            return [
-                                ...prev.slice(0, -1),
-                                { ...lastMsg, text: lastMsg.text + chunkText }
-                            ];
-                        }
-                        return prev;
-                    });
-                }
-            }
+        // The chat keeps growing with every turn; once over budget it is rebuilt, and compacted, next time.
+        // A history ending in calls without responses would be refused by the model, so it is rebuilt too.
+        contextTokensRef.current += estimateTokens([...turn.parts, { text: turn.text }]);
+        if (turn.unanswered || contextTokensRef.current > getContextBudget(currentModel)) {
+            chatSessionRef.current = null;
         }
       }
 
@@ -362,30 +662,268 @@ export const useChat = (userEmail: string | null) => {
 
       console.error("AI Error:", error);
       
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: Date.now().toString(),
-          sender: Sender.Model,
-          text: getFriendlyErrorMessage(error),
-          timestamp: new Date(),
-          isError: true,
-        },
-      ]);
-      chatSessionRef.current = createChatSession(currentModel);
+      const apiError = toApiError(error);
+      updateMessage(botMsgId, msg => ({ ...msg, text: t(ERROR_MESSAGES[apiError.kind]), isError: true, errorKind: apiError.kind }));
+      // The chat may be in an inconsistent state; rebuild it from the branch on the next turn
+      chatSessionRef.current = null;
+
+      const attempt = retry?.attempt ?? 0;
+      const delay = getRetryDelay(apiError, attempt);
+      if (delay !== null) setPendingRetry({ messageId: botMsgId, retryAt: Date.now() + delay, attempt: attempt + 1 });
     } finally {
+      // Calls interrupted by stopping never finish
+      updateMessage(botMsgId, msg => msg.toolCalls?.some(call => call.status === 'running')
+        ? { ...msg, toolCalls: msg.toolCalls.map(call => call.status === 'running' ? { ...call, status: 'error' } : call) }
+        : msg);
       // Cleanup: Only clear if this is still the active controller
       if (abortControllerRef.current === controller) {
           abortControllerRef.current = null;
           setIsLoading(false);
       }
     }
-  }, [currentModel, currentSessionId, messages, startNewChat]);
+  };
+
+  // Creates the session of the chat being started, titled after its first message for now
+  const createSession = (title: string) => {
+    const newSession: ChatSessionMeta = {
+        id: Date.now().toString(),
+        title,
+        ...(newChatPersona && { persona: newChatPersona }),
+        ...(newChatFolder && { folderId: newChatFolder.id }),
+        ...(newChatFolder?.systemInstruction && { systemInstruction: newChatFolder.systemInstruction }),
+        ...(newChatGeneration && { generationSettings: newChatGeneration }),
+        updatedAt: Date.now()
+    };
+    setCurrentSessionId(newSession.id);
+    setSessions(prev => [newSession, ...prev]);
+    return newSession;
+  };
+
+  const updateOutbox = (sessionId: string, update: (outbox: QueuedMessage[]) => QueuedMessage[]) => {
+    setSessions(prev => prev.map(session => {
+      if (session.id !== sessionId) return session;
+      const { outbox: previous = [], ...rest } = session;
+      const outbox = update(previous);
+      const updated: ChatSessionMeta = { ...rest, ...(outbox.length > 0 && { outbox }) };
+      saveSessionMeta(updated, "Failed to save queued messages");
+      return updated;
+    }));
+  };
+
+  // Queued attachments go to the session store, and the outbox only lists them; without a store they
+  // are kept in memory for as long as the tab is open
+  const saveQueuedAttachments = async (sessionId: string, queuedId: string, attachments: Attachment[]): Promise<QueuedAttachment[]> => {
+    const store = storeRef.current;
+    if (store) return store.saveQueuedAttachments(sessionId, queuedId, attachments);
+    return attachments.map(({ data, id: _previous, ...attachment }, index) => {
+      const id = `${sessionId}:queued:${queuedId}:${index}`;
+      unsavedAttachmentsRef.current.set(id, { ...attachment, data });
+      return { ...attachment, id };
+    });
+  };
+
+  const loadQueuedAttachments = async (refs: QueuedAttachment[]): Promise<Attachment[]> => {
+    const store = storeRef.current;
+    if (store) return store.loadQueuedAttachments(refs);
+    return refs.flatMap(ref => unsavedAttachmentsRef.current.get(ref.id) ?? []);
+  };
+
+  const deleteQueuedAttachments = (refs: QueuedAttachment[]) => {
+    refs.forEach(ref => unsavedAttachmentsRef.current.delete(ref.id));
+    storeRef.current?.deleteQueuedAttachments(refs).catch(e => console.error("Failed to delete queued attachments", e));
+  };
+
+  // Offline, messages are queued on the session instead; they are sent once the connection is back
+  const queueMessage = async (text: string, attachments: Attachment[], isImageGen?: boolean, imageOptions?: ImageOptions) => {
+    const sessionId = currentSessionId ?? createSession(heuristicTitle({ text, attachments })).id;
+    const id = Date.now().toString();
+    try {
+      const queued: QueuedMessage = {
+        id,
+        text,
+        ...(attachments.length > 0 && { attachments: await saveQueuedAttachments(sessionId, id, attachments) }),
+        ...(isImageGen && { isImageRequest: true }),
+        ...(isImageGen && imageOptions && { imageOptions }),
+        queuedAt: Date.now(),
+      };
+      updateOutbox(sessionId, outbox => [...outbox, queued]);
+    } catch (e) {
+      console.error("Failed to save queued messages", e);
+    }
+  };
+
+  const cancelQueuedMessage = useCallback((queuedId: string) => {
+    if (!currentSessionId) return;
+    const queued = outbox.find(m => m.id === queuedId);
+    updateOutbox(currentSessionId, outbox => outbox.filter(m => m.id !== queuedId));
+    if (queued?.attachments) deleteQueuedAttachments(queued.attachments);
+  }, [currentSessionId, outbox]);
+
+  // Runs a reply in a session while holding its lock, so that no other tab replies in it meanwhile.
+  // Resolves to false, without running it, when another tab already does.
+  const lockSession = (sessionId: string | null, generate: () => Promise<void>) => {
+    if (!userEmail || !sessionId) return generate().then(() => true);
+    return withReplyLock(userEmail, sessionId, async () => {
+      replyingSessionRef.current = sessionId;
+      tabSyncRef.current?.post({ type: 'replying', sessionId });
+      try {
+        await generate();
+      } finally {
+        replyingSessionRef.current = null;
+      }
+    });
+  };
+
+  const sendMessage = useCallback(async (text: string, attachments: Attachment[] = [], isImageGen?: boolean, imageOptions?: ImageOptions) => {
+    if (!text.trim() && attachments.length === 0) return;
+    if (!isOnline) {
+      await queueMessage(text, attachments, isImageGen, imageOptions);
+      return;
+    }
+
+    // A new chat gets its session first, so its reply is locked like any other
+    const sessionId = currentSessionId ?? createSession(heuristicTitle({ text, attachments })).id;
+
+    // Another tab is replying in the session: the message waits for it like one sent offline
+    const sent = await lockSession(sessionId, () => send(text, attachments, isImageGen, imageOptions));
+    if (!sent) await queueMessage(text, attachments, isImageGen, imageOptions);
+  }, [currentModel, currentSessionId, activeLeafId, messages, activePersona, newChatPersona, newChatFolder, newChatGeneration, generationSettings, storedSummary, isOnline, userEmail]);
+
+  // Adds the user's message to the session and replies to it
+  const send = async (text: string, attachments: Attachment[] = [], isImageGen?: boolean, imageOptions?: ImageOptions) => {
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      sender: Sender.User,
+      text: text,
+      ...(attachments.length > 0 && { attachments }),
+      timestamp: new Date(),
+      parentId: activeLeafId,
+      ...(isImageGen && { isImageRequest: true }),
+      ...(isImageGen && imageOptions && { imageOptions }),
+    };
+
+    addMessage(userMessage);
+    await generateReply(userMessage, messages);
+  };
+
+  // Back online: the open session's queued messages go out one at a time, each after the previous
+  // reply, as if just typed. A failed reply waiting for its retry, or a reply from another tab, holds
+  // them back. Each is taken out of the outbox under the session's lock, so only one tab sends it.
+  useEffect(() => {
+    if (!isOnline || isLoading || isReplyingElsewhere || pendingRetry || !currentSessionId || outbox.length === 0) return;
+    const [next] = outbox;
+    const sessionId = currentSessionId;
+    lockSession(sessionId, async () => {
+      if (dispatchedRef.current.has(next.id)) return;
+      dispatchedRef.current.add(next.id);
+      const attachments = next.attachments ? await loadQueuedAttachments(next.attachments) : [];
+      updateOutbox(sessionId, queue => queue.filter(m => m.id !== next.id));
+      await send(next.text, attachments, next.isImageRequest, next.imageOptions);
+      // The message keeps copies of its own
+      if (next.attachments) deleteQueuedAttachments(next.attachments);
+    }).catch(e => {
+      // Still queued; tried again on the next change
+      dispatchedRef.current.delete(next.id);
+      console.error("Failed to send queued message", e);
+    });
+  }, [isOnline, isLoading, isReplyingElsewhere, pendingRetry, currentSessionId, outbox, messages]);
+
+  // Sends an edited copy of a user message as a new version next to the original
+  const editMessage = useCallback(async (messageId: string, newText: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const original = messages[index];
+    if (!original || original.sender !== Sender.User || isLoading) return;
+    if (!newText.trim() && !original.attachments?.length) return;
+
+    const editedMessage: Message = {
+      ...original,
+      id: Date.now().toString(),
+      text: newText,
+      timestamp: new Date(),
+    };
+
+    await lockSession(currentSessionId, async () => {
+      chatSessionRef.current = null; // The chat must not remember the branch we are leaving
+      addMessage(editedMessage);
+      await generateReply(editedMessage, messages.slice(0, index));
+    });
+  }, [currentModel, currentSessionId, messages, isLoading, activePersona, generationSettings, storedSummary, userEmail]);
+
+  // Asks the model again for the prompt a reply answers, adding a new version of the reply
+  const regenerateMessage = useCallback(async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const userMessage = index > 0 ? messages[index - 1] : undefined;
+    if (!userMessage || userMessage.sender !== Sender.User || isLoading) return;
+
+    await lockSession(currentSessionId, async () => {
+      chatSessionRef.current = null;
+      await generateReply(userMessage, messages.slice(0, index - 1));
+    });
+  }, [currentModel, currentSessionId, messages, isLoading, activePersona, generationSettings, storedSummary, userEmail]);
+
+  // Generates a failed reply again from the same user message. Retrying while a retry is scheduled
+  // counts towards the automatic limit; retrying by hand once they gave up starts counting again.
+  const retryReply = useCallback(async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const reply = messages[index];
+    const userMessage = index > 0 ? messages[index - 1] : undefined;
+    if (!reply?.isError || !userMessage || userMessage.sender !== Sender.User || isLoading) {
+      setPendingRetry(prev => prev?.messageId === messageId ? null : prev); // Not shown any more
+      return;
+    }
+
+    const attempt = pendingRetry?.messageId === messageId ? pendingRetry.attempt : 0;
+    const retried = await lockSession(currentSessionId, async () => {
+      chatSessionRef.current = null;
+      await generateReply(userMessage, messages.slice(0, index - 1), { replyId: messageId, attempt });
+    });
+    if (!retried) setPendingRetry(null); // Another tab is replying in the session
+  }, [currentModel, currentSessionId, messages, isLoading, pendingRetry, activePersona, generationSettings, storedSummary, userEmail]);
+
+  const cancelRetry = useCallback(() => setPendingRetry(null), []);
+
+  // Runs the scheduled retry when its time comes
+  useEffect(() => {
+    if (!pendingRetry) return;
+    const timer = setTimeout(() => retryReply(pendingRetry.messageId), Math.max(0, pendingRetry.retryAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [pendingRetry, retryReply]);
+
+  // Picks which of a reply's generated variants is shown and kept in the conversation
+  const selectImageVariant = useCallback((messageId: string, index: number) => {
+    updateMessage(messageId, msg => index >= 0 && index < (msg.attachments?.length ?? 0) ? { ...msg, selectedImage: index } : msg);
+    chatSessionRef.current = null; // The chat saw the previous pick
+  }, []);
+
+  // Shows the previous/next version of a message, continuing with that version's latest replies
+  const switchVersion = useCallback((messageId: string, direction: -1 | 1) => {
+    const message = messageTree.find(m => m.id === messageId);
+    if (!message || isLoading) return;
+
+    const siblings = getSiblings(messageTree, message);
+    const target = siblings[siblings.findIndex(s => s.id === messageId) + direction];
+    if (!target) return;
+
+    setActiveLeafId(getLatestLeaf(messageTree, target.id));
+    chatSessionRef.current = null; // Rebuilt from the new branch on the next turn
+  }, [messageTree, isLoading]);
 
   return {
     messages,
+    versions,
     isLoading,
     sendMessage,
+    editMessage,
+    regenerateMessage,
+    switchVersion,
+    selectImageVariant,
+    pendingRetry,
+    retryReply,
+    cancelRetry,
+    isOnline,
+    outbox,
+    isReplyingElsewhere,
+    cancelQueuedMessage,
     stopGeneration,
     currentModel,
     setCurrentModel,
@@ -394,6 +932,33 @@ export const useChat = (userEmail: string | null) => {
     startNewChat,
     loadSession,
     deleteSession,
-    clearAllSessions
+    clearAllSessions,
+    personas,
+    activePersona,
+    selectPersona,
+    savePersona,
+    deletePersona,
+    folders,
+    newChatFolder,
+    selectFolder,
+    saveFolder,
+    deleteFolder,
+    tags,
+    saveTag,
+    deleteTag,
+    togglePinned,
+    moveSessionToFolder,
+    setSessionTags,
+    renameSession,
+    generationDefaults,
+    sessionGeneration,
+    contextSummary,
+    droppedAttachments,
+    isCompacting,
+    setGenerationDefaults,
+    setSessionGenerationSettings,
+    exportSessions,
+    importSessions,
+    searchMessages
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, onLocaleChange, setLocale, t, formatDate, formatTime, formatNumber } from '../services/i18n';
+
+// Re-renders the component when the language changes
+export const useI18n = () => {
+  const locale = useSyncExternalStore(onLocaleChange, getLocale);
+  return { locale, setLocale, t, formatDate, formatTime, formatNumber };
+};
@@ -0,0 +1,90 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Message } from '../types';
+import { Playback, SpeechSettings, SpeechStatus, DEFAULT_SPEECH_SETTINGS, getTtsProvider, loadSpeechSettings, saveSpeechSettings } from '../services/tts';
+import { toSpeechText } from '../services/speechText';
+import { TranscriptionSettings, DEFAULT_TRANSCRIPTION_SETTINGS, loadTranscriptionSettings, saveTranscriptionSettings } from '../services/transcription';
+import { getLanguageTag, t } from '../services/i18n';
+
+// Reads replies aloud, one at a time, with the user's speech settings. Also keeps their voice input settings.
+export const useSpeech = (userEmail: string | null) => {
+  const [settings, setSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(DEFAULT_TRANSCRIPTION_SETTINGS);
+  const [speakingId, setSpeakingId] = useState<string | null>(null); // Message being read
+  const [status, setStatus] = useState<SpeechStatus>('playing');
+  const playbackRef = useRef<Playback | null>(null);
+
+  useEffect(() => {
+    setSettings(userEmail ? loadSpeechSettings(userEmail) : DEFAULT_SPEECH_SETTINGS);
+    setTranscriptionSettings(userEmail ? loadTranscriptionSettings(userEmail) : DEFAULT_TRANSCRIPTION_SETTINGS);
+  }, [userEmail]);
+
+  const stop = useCallback(() => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setSpeakingId(null);
+  }, []);
+
+  // Nothing keeps talking once the user leaves
+  useEffect(() => stop, [stop]);
+
+  // False when there is nothing to read, e.g. a reply that is only a code block
+  const speak = useCallback((message: Message) => {
+    playbackRef.current?.stop();
+    const text = toSpeechText(message.text);
+    if (!text) return false;
+
+    const playback = getTtsProvider(settings.provider).speak(text, {
+      voice: settings.voice,
+      rate: settings.rate,
+      lang: getLanguageTag(),
+    });
+    playbackRef.current = playback;
+    setSpeakingId(message.id);
+    setStatus('playing');
+
+    playback.finished
+      .catch(error => {
+        console.error("Read aloud failed", error);
+        alert(t('speech.failed'));
+      })
+      .finally(() => {
+        if (playbackRef.current !== playback) return; // Replaced by a newer reading
+        playbackRef.current = null;
+        setSpeakingId(null);
+      });
+    return true;
+  }, [settings]);
+
+  const pause = useCallback(() => {
+    playbackRef.current?.pause();
+    setStatus('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    playbackRef.current?.resume();
+    setStatus('playing');
+  }, []);
+
+  const updateSettings = useCallback((next: SpeechSettings) => {
+    setSettings(next);
+    if (userEmail) saveSpeechSettings(userEmail, next);
+  }, [userEmail]);
+
+  const updateTranscriptionSettings = useCallback((next: TranscriptionSettings) => {
+    setTranscriptionSettings(next);
+    if (userEmail) saveTranscriptionSettings(userEmail, next);
+  }, [userEmail]);
+
+  return {
+    speechSettings: settings,
+    updateSpeechSettings: updateSettings,
+    transcriptionSettings,
+    updateTranscriptionSettings,
+    speakingId,
+    speechStatus: status,
+    speak,
+    pause,
+    resume,
+    stop,
+  };
+};
@@ -0,0 +1,127 @@
+import { useState, useRef, useEffect } from 'react';
+import { Message, Sender } from '../types';
+import { transcribeRecording, TranscriptionSettings } from '../services/transcription';
+import { startVoiceActivity, VoiceActivityDetector } from '../services/voiceActivity';
+import { t } from '../services/i18n';
+
+export type VoicePhase = 'starting' | 'listening' | 'transcribing' | 'thinking' | 'speaking';
+
+interface VoiceConversationOptions {
+  messages: Message[];
+  isLoading: boolean;
+  sendMessage: (text: string) => void;
+  stopGeneration: () => void;
+  speak: (message: Message) => boolean;
+  stopSpeech: () => void;
+  speakingId: string | null;
+  transcription: TranscriptionSettings;
+}
+
+// Hands-free conversation while mounted: each utterance is transcribed and sent, and the reply is
+// read aloud. Speaking over the reply (or while it is being generated) interrupts it.
+export const useVoiceConversation = ({ messages, isLoading, sendMessage, stopGeneration, speak, stopSpeech, speakingId, transcription }: VoiceConversationOptions) => {
+  const [phase, setPhaseState] = useState<VoicePhase>('starting');
+  const [level, setLevel] = useState(0);
+  const [heard, setHeard] = useState(''); // Last transcript sent
+  const [error, setError] = useState<string | null>(null);
+
+  const phaseRef = useRef<VoicePhase>('starting');
+  const setPhase = (next: VoicePhase) => {
+    phaseRef.current = next;
+    setPhaseState(next);
+  };
+
+  // The microphone callbacks outlive renders, so they read the latest values through refs
+  const latest = useRef({ isLoading, sendMessage, stopGeneration, stopSpeech, transcription });
+  latest.current = { isLoading, sendMessage, stopGeneration, stopSpeech, transcription };
+
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve()); // Transcriptions, in order
+  const pendingRef = useRef(0);
+  const transcriptRef = useRef(''); // Heard but not sent yet, while the user keeps talking
+  const sawLoadingRef = useRef(false);
+
+  // Sends what was heard once nothing more is on its way
+  const flush = () => {
+    if (pendingRef.current > 0 || detectorRef.current?.isSpeaking()) return;
+    const text = transcriptRef.current.trim();
+    transcriptRef.current = '';
+    if (!text) {
+      if (phaseRef.current === 'transcribing') setPhase('listening');
+      return;
+    }
+    setHeard(text);
+    setPhase('thinking');
+    sawLoadingRef.current = false;
+    latest.current.sendMessage(text);
+  };
+
+  const transcribe = (audio: Blob) => {
+    pendingRef.current++;
+    setPhase('transcribing');
+    queueRef.current = queueRef.current.then(async () => {
+      // Timestamps are for dictation, not for a message said out loud
+      const transcript = await transcribeRecording(audio, { ...latest.current.transcription, timestamps: false });
+      pendingRef.current--;
+      if (transcript) transcriptRef.current += ` ${transcript}`;
+      flush();
+    });
+  };
+
+  // Barge-in: the user talking stops the reading and the generation
+  const interrupt = () => {
+    const { isLoading, stopGeneration, stopSpeech } = latest.current;
+    if (phaseRef.current !== 'thinking' && phaseRef.current !== 'speaking') return;
+    sawLoadingRef.current = false;
+    setPhase('listening'); // Before stopping, so the partial reply isn't read
+    stopSpeech();
+    if (isLoading) stopGeneration();
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    startVoiceActivity({
+      onSpeechStart: () => {
+        interrupt();
+        if (phaseRef.current === 'starting') setPhase('listening');
+      },
+      onSpeechEnd: (audio) => audio ? transcribe(audio) : flush(),
+      onLevel: setLevel,
+    }).then(detector => {
+      if (cancelled) return detector.stop();
+      detectorRef.current = detector;
+      setPhase('listening');
+    }).catch(err => {
+      console.error("Error accessing microphone:", err);
+      if (!cancelled) setError(t('input.microphoneError'));
+    });
+
+    return () => {
+      cancelled = true;
+      detectorRef.current?.stop();
+      detectorRef.current = null;
+      latest.current.stopSpeech();
+    };
+  }, []);
+
+  // Thinking → speaking once the reply is complete
+  useEffect(() => {
+    if (phaseRef.current !== 'thinking') return;
+    if (isLoading) {
+      sawLoadingRef.current = true;
+      return;
+    }
+    if (!sawLoadingRef.current) return;
+    sawLoadingRef.current = false;
+    const reply = messages[messages.length - 1];
+    const isReadable = reply?.sender === Sender.Model && !reply.isError;
+    setPhase(isReadable && speak(reply) ? 'speaking' : 'listening');
+  }, [isLoading, messages]);
+
+  // Speaking → listening when the reading ends
+  useEffect(() => {
+    if (phaseRef.current === 'speaking' && speakingId === null) setPhase('listening');
+  }, [speakingId]);
+
+  return { phase, level, heard, error, interrupt };
+};
@@ -0,0 +1,319 @@
+import { MessageKey } from './vi';
+
+// English catalog; typed against the Vietnamese one so a missing key fails the type check
+
+export const en: Record<MessageKey, string> = {
+  // General
+  'common.cancel': 'Cancel',
+  'common.send': 'Send',
+  'common.delete': 'Delete',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.today': 'Today',
+  'common.you': 'You',
+
+  // Login
+  'login.title': 'Sign in',
+  'login.subtitle': 'Sign in securely with your identity provider.',
+  'login.failed': 'Sign-in failed ({error}). Please try again.',
+  'login.redirecting': 'Redirecting...',
+  'login.continue': 'Continue with k-ite ID',
+  'login.terms': 'By continuing, you agree to the k-ite Terms of Service and Privacy Policy.',
+
+  // History sidebar
+  'sidebar.searchPlaceholder': 'Search conversations',
+  'sidebar.newChat': 'New chat',
+  'sidebar.results': 'Results',
+  'sidebar.recent': 'Recent',
+  'sidebar.empty': 'No conversations yet',
+  'sidebar.noResults': 'No results found',
+  'sidebar.messages': 'Messages',
+  'sidebar.export': 'Export',
+  'sidebar.exportAll': 'Export all',
+  'sidebar.import': 'Import',
+  'sidebar.clearAll': 'Clear all history',
+  'sidebar.clearAllConfirm': 'Are you sure you want to delete your entire chat history? This cannot be undone.',
+  'sidebar.pinned': 'Pinned',
+  'sidebar.folders': 'Folders',
+  'sidebar.chats': 'Chats',
+  'sidebar.pin': 'Pin',
+  'sidebar.unpin': 'Unpin',
+  'sidebar.more': 'More',
+  'sidebar.rename': 'Rename',
+  'sidebar.moveTo': 'Move to',
+  'sidebar.noFolder': 'No folder',
+  'sidebar.showAll': 'Show all',
+  'sidebar.noTagged': 'No conversations with this tag',
+
+  // Folders and tags
+  'folder.new': 'New folder',
+  'folder.edit': 'Edit folder',
+  'folder.name': 'Name',
+  'folder.namePlaceholder': 'e.g. Thesis',
+  'folder.defaultModel': 'Model for new chats',
+  'folder.systemInstruction': 'System prompt for new chats',
+  'folder.systemInstructionPlaceholder': 'Optional. Used instead of k-ite\'s default instructions, unless a persona is picked.',
+  'folder.deleteConfirm': 'Delete folder "{name}"? Its conversations are kept.',
+  'folder.newChat': 'New chat in this folder',
+  'folder.newChatIn': 'In folder {name}',
+  'folder.leave': 'Start outside the folder',
+  'tag.title': 'Tags',
+  'tag.manage': 'Manage tags',
+  'tag.new': 'New tag',
+  'tag.namePlaceholder': 'Tag name',
+  'tag.empty': 'No tags yet. Tag conversations to find related ones again.',
+  'tag.deleteConfirm': 'Delete tag "{name}"? It is removed from every conversation.',
+
+  // Export / import
+  'export.markdown': 'Markdown (.md)',
+  'export.html': 'Web page (.html)',
+  'export.json': 'JSON backup (.json)',
+  'export.failed': 'Could not export the conversation. Please try again.',
+  'import.done': 'Imported {count} conversation(s).',
+  'import.nothingNew': 'The conversations in this file are already here.',
+  'import.failed': 'Could not import the file.',
+  'import.invalidJson': 'The file is not valid JSON.',
+  'import.notAnExport': 'The file is not a k-ite export.',
+  'import.newerVersion': 'The file was exported by a newer version of k-ite. Please update the app.',
+  'import.noSessions': 'The file contains no conversations.',
+  'import.invalidSession': 'Invalid data (conversation {session}).',
+  'import.invalidMessage': 'Invalid message (conversation {session}, message {message}).',
+  'import.invalidSender': 'Invalid sender (conversation {session}, message {message}).',
+  'import.invalidTimestamp': 'Invalid time (conversation {session}, message {message}).',
+  'import.invalidAttachment': 'Invalid attachment (conversation {session}, message {message}).',
+  'import.duplicateMessage': 'Duplicate message id (conversation {session}, message {message}).',
+  'import.missingParent': 'The message answers one that is not in the file (conversation {session}, message {message}).',
+  'import.messageCycle': 'The messages answer each other in a loop (conversation {session}, message {message}).',
+
+  // Header
+  'model.flash.description': 'Fast & Efficient',
+  'model.pro.description': 'Smart & Creative',
+  'profile.account': 'Account',
+  'profile.language': 'Language',
+  'profile.logout': 'Sign out',
+
+  // Personas
+  'persona.title': 'Personas',
+  'persona.manage': 'Manage personas',
+  'persona.new': 'New persona',
+  'persona.edit': 'Edit persona',
+  'persona.empty': 'No personas yet. Create one with its own system prompt to reuse it across conversations.',
+  'persona.name': 'Name',
+  'persona.namePlaceholder': 'e.g. Math tutor',
+  'persona.avatar': 'Avatar',
+  'persona.uploadAvatar': 'Upload',
+  'persona.removeAvatar': 'Remove',
+  'persona.systemInstruction': 'System prompt',
+  'persona.systemInstructionPlaceholder': 'Describe the persona\'s role, tone and how it should answer...',
+  'persona.defaultModel': 'Default model',
+  'persona.keepModel': 'Keep current model',
+  'persona.deleteConfirm': 'Delete persona "{name}"? Existing conversations are kept.',
+  'persona.pick': 'Chat with',
+
+  // Generation settings
+  'generation.title': 'Generation settings',
+  'generation.scopeSession': 'This conversation',
+  'generation.scopeDefaults': 'Defaults',
+  'generation.sessionHint': 'Applies to this conversation only. Unset values use your defaults.',
+  'generation.defaultsHint': 'Used by every conversation that doesn\'t set its own values.',
+  'generation.auto': 'Auto',
+  'generation.useDefault': 'Use default',
+  'generation.useModelDefault': 'Use the model\'s default',
+  'generation.temperature': 'Temperature',
+  'generation.temperatureHint': 'Higher is more creative, lower is more predictable.',
+  'generation.topP': 'Top-p',
+  'generation.topPHint': 'Only sample from the words making up this much probability.',
+  'generation.topK': 'Top-k',
+  'generation.maxOutputTokens': 'Max output tokens',
+  'generation.stopSequences': 'Stop sequences',
+  'generation.stopSequencesHint': 'One per line, up to {max}. The reply stops when it produces one of them.',
+  'generation.thinking': 'Thinking',
+  'generation.thinkingHint': 'A thinking level for the newest k-ite models, or a token budget for models that support one.',
+  'generation.thinkingLow': 'Low',
+  'generation.thinkingHigh': 'High',
+  'generation.thinkingBudget': 'Token budget',
+  'generation.thinkingOff': 'Off',
+  'generation.resetSession': 'Use all defaults',
+  'generation.resetDefaults': 'Reset all',
+
+  // Context window
+  'context.summarized': '{count} older messages were summarized to fit the context window',
+  'context.attachmentsDropped': '{count} older attachments are no longer sent to the model',
+  'context.compacting': 'Summarizing older messages...',
+
+  // Welcome screen
+  'welcome.title': 'Hi, how can I help?',
+  'welcome.subtitle': 'k-ite is a smart AI assistant designed to help you with work, study and creative projects.',
+
+  // Messages
+  'message.previousVersion': 'Previous version',
+  'message.nextVersion': 'Next version',
+  'message.copyCode': 'Copy code',
+  'message.copy': 'Copy',
+  'message.copied': 'Copied',
+  'message.copyAll': 'Copy all',
+  'message.regenerate': 'Regenerate response',
+  'message.edit': 'Edit',
+  'message.attachment': 'Attachment',
+
+  // Code blocks
+  'code.wrap': 'Wrap lines',
+  'code.noWrap': 'Don\'t wrap lines',
+  'code.download': 'Download {name}',
+  'code.expand': 'Show all {count} lines',
+  'code.collapse': 'Collapse',
+  'code.run': 'Run',
+  'code.runTitle': 'Run the code in your browser',
+  'code.stop': 'Stop',
+  'code.loadingPython': 'Loading Python...',
+  'code.running': 'Running...',
+  'code.output': 'Output',
+  'code.noOutput': 'No output',
+  'code.timedOut': 'Timed out: stopped after {seconds}s',
+  'code.stopped': 'Stopped',
+  'code.outputLimit': 'Stopped: too much output',
+  'code.startFailed': 'The code runner could not start',
+  'code.sendOutput': 'Send output to k-ite',
+  'code.closeOutput': 'Close output',
+  'code.followUp': 'I ran this code:',
+  'code.followUpNoOutput': 'It produced no output.',
+
+  // Diagrams and charts
+  'diagram.source': 'Source',
+  'diagram.preview': 'Preview',
+  'diagram.showSource': 'Show source',
+  'diagram.showRendered': 'Show diagram',
+  'diagram.export': 'Download as {format}',
+  'diagram.rendering': 'Rendering...',
+  'diagram.invalid': 'Could not draw the diagram: invalid syntax',
+  'chart.invalidJson': 'Could not draw the chart: invalid JSON',
+  'chart.unsupportedMark': 'Unsupported chart type "{mark}" (use bar, line or pie)',
+  'chart.noData': 'The chart has no data',
+  'chart.tooMuchData': 'The chart has too much data to show',
+  'chart.missingField': 'Missing "{channel}" field in the encoding',
+  'image.aspectRatio': 'Aspect ratio',
+  'image.variants': 'Images',
+  'image.variant': 'Variant {index}',
+  'image.style': 'Style',
+  'image.style.none': 'No style',
+  'image.style.photo': 'Photo',
+  'image.style.illustration': 'Illustration',
+  'image.style.watercolor': 'Watercolor',
+  'image.style.anime': 'Anime',
+  'image.style.3d': '3D',
+  'image.style.pixel': 'Pixel art',
+  'image.style.sketch': 'Pencil sketch',
+  'image.editThis': 'Edit this image',
+  'speech.title': 'Voice settings',
+  'speech.readAloudSection': 'Read aloud',
+  'speech.readAloud': 'Read aloud',
+  'speech.pause': 'Pause',
+  'speech.resume': 'Resume',
+  'speech.stop': 'Stop reading',
+  'speech.failed': 'This reply could not be read aloud.',
+  'speech.provider': 'Voices from',
+  'speech.providerWebSpeech': 'Browser (works offline)',
+  'speech.providerGemini': 'Gemini',
+  'speech.voice': 'Voice',
+  'speech.defaultVoice': 'Default',
+  'speech.noVoices': 'This browser has no voices installed.',
+  'speech.rate': 'Speed',
+  'speech.autoRead': 'Read new replies automatically',
+  'speech.autoReadHint': 'Each reply is read aloud as soon as it is complete.',
+  'transcription.section': 'Voice input',
+  'transcription.language': 'Spoken language',
+  'transcription.autoDetect': 'Detect automatically',
+  'transcription.translateTo': 'Translate to',
+  'transcription.noTranslation': 'No translation',
+  'transcription.timestamps': 'Add timestamps',
+  'transcription.timestampsHint': 'Dictation starts each passage with a [mm:ss] marker, handy for long recordings.',
+  'speech.test': 'Try it',
+  'speech.sample': 'Hi, I am k-ite. This is the voice you picked.',
+  'speech.codeBlock': '{language} code block.',
+  'speech.codeBlockPlain': 'Code block.',
+  'speech.diagram': 'Diagram.',
+  'speech.chart': 'Chart.',
+  'speech.link': 'link',
+  'speech.math.over': 'over',
+  'speech.math.sqrt': 'square root of',
+  'speech.math.squared': 'squared',
+  'speech.math.cubed': 'cubed',
+  'speech.math.power': 'to the power of',
+  'speech.math.times': 'times',
+  'speech.math.dividedBy': 'divided by',
+  'speech.math.plus': 'plus',
+  'speech.math.minus': 'minus',
+  'speech.math.plusMinus': 'plus or minus',
+  'speech.math.equals': 'equals',
+  'speech.math.notEqual': 'is not equal to',
+  'speech.math.less': 'is less than',
+  'speech.math.greater': 'is greater than',
+  'speech.math.lessOrEqual': 'is less than or equal to',
+  'speech.math.greaterOrEqual': 'is greater than or equal to',
+  'speech.math.approx': 'is approximately',
+  'speech.math.infinity': 'infinity',
+  'speech.math.sum': 'the sum of',
+  'speech.math.integral': 'the integral of',
+  'speech.math.to': 'tends to',
+  'voice.start': 'Voice conversation',
+  'voice.exit': 'Leave voice mode',
+  'voice.starting': 'Turning on the microphone...',
+  'voice.listening': 'Listening',
+  'voice.transcribing': 'Transcribing...',
+  'voice.thinking': 'Thinking...',
+  'voice.speaking': 'Speaking',
+  'voice.interrupt': 'Interrupt',
+  'voice.hint': 'Just talk; the reply comes when you pause. Speak over it to interrupt.',
+
+  // Input
+  'input.placeholder': 'Ask k-ite',
+  'input.imagePlaceholder': 'Describe the image you want to create...',
+  'input.editImagePlaceholder': 'Describe how to change the image...',
+  'input.recordingPlaceholder': 'Recording... (Press stop to transcribe)',
+  'input.transcribingPlaceholder': 'Transcribing speech...',
+  'input.uploadImage': 'Upload image',
+  'input.uploadFile': 'Upload file',
+  'input.takePhoto': 'Take photo',
+  'input.switchCamera': 'Switch camera',
+  'input.removeFile': 'Remove file',
+  'input.tools': 'Creative tools',
+  'input.generateImage': 'Create image',
+  'input.generationSettings': 'Generation settings',
+  'input.speechSettings': 'Voice settings',
+  'input.exitImageMode': 'Turn off image mode',
+  'input.startRecording': 'Voice input',
+  'input.stopRecording': 'Stop recording',
+  'input.stopGenerating': 'Stop generating',
+  'input.disclaimer': 'k-ite can make mistakes. Check important information.',
+  'input.cameraError': 'Cannot access the camera. Please check permissions.',
+  'input.microphoneError': 'Cannot access the microphone. Please grant permission.',
+  'input.tooManyFiles': 'You can attach at most {max} files per message.',
+  'input.imagesOnly': 'Please choose an image file.',
+  'input.unsupportedFiles': 'Some files have unsupported formats and were skipped.',
+  'input.readError': 'Could not read the file. Please try again.',
+
+  // Chat
+  'tool.running': 'running...',
+  'chat.untitled': 'New chat',
+  'chat.drawing': 'Drawing...',
+  'chat.generatingImage': 'Creating an image...',
+  'chat.imageReady': "Here's the image I created for you:",
+  'chat.imageFailed': "Sorry, I couldn't create an image right now.",
+  'offline.banner': "You're offline. Past conversations can still be browsed; new messages will be sent when you're back online.",
+  'offline.queued': 'Waiting for connection',
+  'offline.sending': 'Sending...',
+  'offline.cancel': 'Cancel this message',
+  'offline.attachments': '{count} attachment(s)',
+  'sync.replyingElsewhere': 'This chat is being answered in another tab',
+  'error.rateLimited': 'The service is busy (429 Resource Exhausted). Please try again in a few minutes.',
+  'error.quota': 'The daily usage quota is used up. Please try again tomorrow.',
+  'error.safety': 'The request or the reply was blocked by the safety filters. Try rephrasing it.',
+  'error.network': 'Could not reach the server. Check your connection.',
+  'error.invalidRequest': 'The request was rejected, possibly because an attachment is too large or not supported.',
+  'error.auth': 'Your session has expired or access was denied. Please sign in again.',
+  'error.generic': 'Sorry, something went wrong. Please try again.',
+  'error.retryIn': 'Retrying in {seconds}s',
+  'error.retryNow': 'Retry now',
+  'error.retry': 'Retry',
+  'error.cancelRetry': 'Cancel',
+};
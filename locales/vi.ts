@@ -0,0 +1,320 @@
+// Vietnamese catalog, the reference every other locale is checked against.
+// Placeholders like {count} are filled in by t().
+
+export const vi = {
+  // General
+  'common.cancel': 'Hủy',
+  'common.send': 'Gửi',
+  'common.delete': 'Xóa',
+  'common.close': 'Đóng',
+  'common.save': 'Lưu',
+  'common.today': 'Hôm nay',
+  'common.you': 'Bạn',
+
+  // Login
+  'login.title': 'Đăng nhập',
+  'login.subtitle': 'Đăng nhập an toàn qua nhà cung cấp định danh của bạn.',
+  'login.failed': 'Đăng nhập không thành công ({error}). Vui lòng thử lại.',
+  'login.redirecting': 'Đang chuyển hướng...',
+  'login.continue': 'Tiếp tục với k-ite ID',
+  'login.terms': 'Bằng việc tiếp tục, bạn đồng ý với Điều khoản dịch vụ và Chính sách quyền riêng tư của k-ite.',
+
+  // History sidebar
+  'sidebar.searchPlaceholder': 'Tìm kiếm cuộc trò chuyện',
+  'sidebar.newChat': 'Cuộc trò chuyện mới',
+  'sidebar.results': 'Kết quả',
+  'sidebar.recent': 'Gần đây',
+  'sidebar.empty': 'Chưa có cuộc trò chuyện nào',
+  'sidebar.noResults': 'Không tìm thấy kết quả',
+  'sidebar.messages': 'Tin nhắn',
+  'sidebar.export': 'Xuất',
+  'sidebar.exportAll': 'Xuất tất cả',
+  'sidebar.import': 'Nhập',
+  'sidebar.clearAll': 'Xóa tất cả lịch sử',
+  'sidebar.clearAllConfirm': 'Bạn có chắc chắn muốn xóa toàn bộ lịch sử chat không? Hành động này không thể hoàn tác.',
+  'sidebar.pinned': 'Đã ghim',
+  'sidebar.folders': 'Thư mục',
+  'sidebar.chats': 'Cuộc trò chuyện',
+  'sidebar.pin': 'Ghim',
+  'sidebar.unpin': 'Bỏ ghim',
+  'sidebar.more': 'Thêm',
+  'sidebar.rename': 'Đổi tên',
+  'sidebar.moveTo': 'Chuyển đến',
+  'sidebar.noFolder': 'Không thuộc thư mục nào',
+  'sidebar.showAll': 'Hiện tất cả',
+  'sidebar.noTagged': 'Không có cuộc trò chuyện nào mang nhãn này',
+
+  // Folders and tags
+  'folder.new': 'Thư mục mới',
+  'folder.edit': 'Sửa thư mục',
+  'folder.name': 'Tên',
+  'folder.namePlaceholder': 'Ví dụ: Luận văn',
+  'folder.defaultModel': 'Mô hình cho cuộc trò chuyện mới',
+  'folder.systemInstruction': 'Lời nhắn hệ thống cho cuộc trò chuyện mới',
+  'folder.systemInstructionPlaceholder': 'Không bắt buộc. Dùng thay cho hướng dẫn mặc định của k-ite, trừ khi chọn một nhân vật.',
+  'folder.deleteConfirm': 'Xóa thư mục "{name}"? Các cuộc trò chuyện trong đó vẫn được giữ lại.',
+  'folder.newChat': 'Cuộc trò chuyện mới trong thư mục này',
+  'folder.newChatIn': 'Trong thư mục {name}',
+  'folder.leave': 'Bắt đầu ngoài thư mục',
+  'tag.title': 'Nhãn',
+  'tag.manage': 'Quản lý nhãn',
+  'tag.new': 'Nhãn mới',
+  'tag.namePlaceholder': 'Tên nhãn',
+  'tag.empty': 'Chưa có nhãn nào. Gắn nhãn để tìm lại các cuộc trò chuyện liên quan.',
+  'tag.deleteConfirm': 'Xóa nhãn "{name}"? Nhãn sẽ được gỡ khỏi mọi cuộc trò chuyện.',
+
+  // Export / import
+  'export.markdown': 'Markdown (.md)',
+  'export.html': 'Trang web (.html)',
+  'export.json': 'Sao lưu JSON (.json)',
+  'export.failed': 'Không thể xuất cuộc trò chuyện. Vui lòng thử lại.',
+  'import.done': 'Đã nhập {count} cuộc trò chuyện.',
+  'import.nothingNew': 'Các cuộc trò chuyện trong tệp đã có sẵn.',
+  'import.failed': 'Không thể nhập tệp.',
+  'import.invalidJson': 'Tệp không phải là JSON hợp lệ.',
+  'import.notAnExport': 'Tệp không phải là bản xuất từ k-ite.',
+  'import.newerVersion': 'Tệp được xuất từ phiên bản k-ite mới hơn. Vui lòng cập nhật ứng dụng.',
+  'import.noSessions': 'Tệp không chứa cuộc trò chuyện nào.',
+  'import.invalidSession': 'Dữ liệu không hợp lệ (cuộc trò chuyện {session}).',
+  'import.invalidMessage': 'Tin nhắn không hợp lệ (cuộc trò chuyện {session}, tin nhắn {message}).',
+  'import.invalidSender': 'Người gửi không hợp lệ (cuộc trò chuyện {session}, tin nhắn {message}).',
+  'import.invalidTimestamp': 'Thời gian không hợp lệ (cuộc trò chuyện {session}, tin nhắn {message}).',
+  'import.invalidAttachment': 'Tệp đính kèm không hợp lệ (cuộc trò chuyện {session}, tin nhắn {message}).',
+  'import.duplicateMessage': 'Mã tin nhắn bị trùng (cuộc trò chuyện {session}, tin nhắn {message}).',
+  'import.missingParent': 'Tin nhắn trả lời một tin nhắn không có trong tệp (cuộc trò chuyện {session}, tin nhắn {message}).',
+  'import.messageCycle': 'Các tin nhắn trả lời lẫn nhau thành vòng (cuộc trò chuyện {session}, tin nhắn {message}).',
+
+  // Header
+  'model.flash.description': 'Nhanh & Hiệu quả',
+  'model.pro.description': 'Thông minh & Sáng tạo',
+  'profile.account': 'Tài khoản',
+  'profile.language': 'Ngôn ngữ',
+  'profile.logout': 'Đăng xuất',
+
+  // Personas
+  'persona.title': 'Nhân vật',
+  'persona.manage': 'Quản lý nhân vật',
+  'persona.new': 'Nhân vật mới',
+  'persona.edit': 'Sửa nhân vật',
+  'persona.empty': 'Chưa có nhân vật nào. Tạo nhân vật với lời nhắn hệ thống riêng để dùng lại cho các cuộc trò chuyện.',
+  'persona.name': 'Tên',
+  'persona.namePlaceholder': 'Ví dụ: Gia sư Toán',
+  'persona.avatar': 'Ảnh đại diện',
+  'persona.uploadAvatar': 'Tải ảnh',
+  'persona.removeAvatar': 'Bỏ ảnh',
+  'persona.systemInstruction': 'Lời nhắn hệ thống',
+  'persona.systemInstructionPlaceholder': 'Mô tả vai trò, giọng điệu và cách trả lời của nhân vật...',
+  'persona.defaultModel': 'Mô hình mặc định',
+  'persona.keepModel': 'Giữ mô hình hiện tại',
+  'persona.deleteConfirm': 'Xóa nhân vật "{name}"? Các cuộc trò chuyện cũ vẫn giữ nguyên.',
+  'persona.pick': 'Trò chuyện với',
+
+  // Generation settings
+  'generation.title': 'Cài đặt tạo câu trả lời',
+  'generation.scopeSession': 'Cuộc trò chuyện này',
+  'generation.scopeDefaults': 'Mặc định',
+  'generation.sessionHint': 'Chỉ áp dụng cho cuộc trò chuyện này. Mục không đặt sẽ dùng giá trị mặc định của bạn.',
+  'generation.defaultsHint': 'Áp dụng cho mọi cuộc trò chuyện không tự đặt giá trị riêng.',
+  'generation.auto': 'Tự động',
+  'generation.useDefault': 'Dùng giá trị mặc định',
+  'generation.useModelDefault': 'Dùng giá trị của mô hình',
+  'generation.temperature': 'Nhiệt độ',
+  'generation.temperatureHint': 'Cao hơn thì sáng tạo hơn, thấp hơn thì ổn định hơn.',
+  'generation.topP': 'Top-p',
+  'generation.topPHint': 'Chỉ chọn từ trong nhóm có tổng xác suất này.',
+  'generation.topK': 'Top-k',
+  'generation.maxOutputTokens': 'Số token tối đa',
+  'generation.stopSequences': 'Chuỗi dừng',
+  'generation.stopSequencesHint': 'Mỗi dòng một chuỗi, tối đa {max}. Câu trả lời dừng khi gặp một trong số đó.',
+  'generation.thinking': 'Suy luận',
+  'generation.thinkingHint': 'Mức suy luận cho mô hình k-ite mới, hoặc số token suy luận cho mô hình hỗ trợ.',
+  'generation.thinkingLow': 'Thấp',
+  'generation.thinkingHigh': 'Cao',
+  'generation.thinkingBudget': 'Giới hạn token',
+  'generation.thinkingOff': 'Tắt',
+  'generation.resetSession': 'Dùng toàn bộ mặc định',
+  'generation.resetDefaults': 'Đặt lại tất cả',
+
+  // Context window
+  'context.summarized': 'Đã tóm tắt {count} tin nhắn cũ để vừa giới hạn ngữ cảnh',
+  'context.attachmentsDropped': '{count} tệp đính kèm cũ không còn được gửi cho mô hình',
+  'context.compacting': 'Đang tóm tắt các tin nhắn cũ...',
+
+  // Welcome screen
+  'welcome.title': 'Xin chào, tôi có thể giúp gì?',
+  'welcome.subtitle': 'k-ite là trợ lý AI thông minh được thiết kế để hỗ trợ bạn trong công việc, học tập và sáng tạo.',
+
+  // Messages
+  'message.previousVersion': 'Phiên bản trước',
+  'message.nextVersion': 'Phiên bản sau',
+  'message.copyCode': 'Sao chép mã',
+  'message.copy': 'Sao chép',
+  'message.copied': 'Đã chép',
+  'message.copyAll': 'Sao chép toàn bộ',
+  'message.regenerate': 'Tạo lại câu trả lời',
+  'message.edit': 'Chỉnh sửa',
+  'message.attachment': 'Tài liệu đính kèm',
+
+  // Code blocks
+  'code.wrap': 'Tự xuống dòng',
+  'code.noWrap': 'Không xuống dòng',
+  'code.download': 'Tải xuống {name}',
+  'code.expand': 'Hiện tất cả {count} dòng',
+  'code.collapse': 'Thu gọn',
+  'code.run': 'Chạy',
+  'code.runTitle': 'Chạy mã trong trình duyệt',
+  'code.stop': 'Dừng',
+  'code.loadingPython': 'Đang tải Python...',
+  'code.running': 'Đang chạy...',
+  'code.output': 'Kết quả',
+  'code.noOutput': 'Không có kết quả',
+  'code.timedOut': 'Quá thời gian: đã dừng sau {seconds} giây',
+  'code.stopped': 'Đã dừng',
+  'code.outputLimit': 'Đã dừng vì kết quả quá dài',
+  'code.startFailed': 'Không thể khởi động trình chạy mã',
+  'code.sendOutput': 'Gửi kết quả cho k-ite',
+  'code.closeOutput': 'Đóng kết quả',
+  'code.followUp': 'Mình đã chạy đoạn mã này:',
+  'code.followUpNoOutput': 'Đoạn mã không in ra gì.',
+
+  // Diagrams and charts
+  'diagram.source': 'Mã nguồn',
+  'diagram.preview': 'Xem trước',
+  'diagram.showSource': 'Hiện mã nguồn',
+  'diagram.showRendered': 'Hiện sơ đồ',
+  'diagram.export': 'Tải xuống dạng {format}',
+  'diagram.rendering': 'Đang vẽ...',
+  'diagram.invalid': 'Không thể vẽ sơ đồ: cú pháp không hợp lệ',
+  'chart.invalidJson': 'Không thể vẽ biểu đồ: JSON không hợp lệ',
+  'chart.unsupportedMark': 'Không hỗ trợ loại biểu đồ "{mark}" (dùng bar, line hoặc pie)',
+  'chart.noData': 'Biểu đồ không có dữ liệu',
+  'chart.tooMuchData': 'Biểu đồ có quá nhiều dữ liệu để hiển thị',
+  'chart.missingField': 'Thiếu trường "{channel}" trong encoding',
+  'image.aspectRatio': 'Tỉ lệ khung hình',
+  'image.variants': 'Số ảnh',
+  'image.variant': 'Phương án {index}',
+  'image.style': 'Phong cách',
+  'image.style.none': 'Không phong cách',
+  'image.style.photo': 'Ảnh chụp',
+  'image.style.illustration': 'Minh họa',
+  'image.style.watercolor': 'Màu nước',
+  'image.style.anime': 'Anime',
+  'image.style.3d': '3D',
+  'image.style.pixel': 'Pixel art',
+  'image.style.sketch': 'Phác thảo chì',
+  'image.editThis': 'Chỉnh sửa ảnh này',
+  'speech.title': 'Cài đặt giọng nói',
+  'speech.readAloudSection': 'Đọc to',
+  'speech.readAloud': 'Đọc to',
+  'speech.pause': 'Tạm dừng',
+  'speech.resume': 'Tiếp tục',
+  'speech.stop': 'Dừng đọc',
+  'speech.failed': 'Không thể đọc to câu trả lời này.',
+  'speech.provider': 'Giọng đọc từ',
+  'speech.providerWebSpeech': 'Trình duyệt (dùng được khi offline)',
+  'speech.providerGemini': 'Gemini',
+  'speech.voice': 'Giọng',
+  'speech.defaultVoice': 'Mặc định',
+  'speech.noVoices': 'Trình duyệt này không có giọng đọc nào được cài đặt.',
+  'speech.rate': 'Tốc độ',
+  'speech.autoRead': 'Tự động đọc câu trả lời mới',
+  'speech.autoReadHint': 'Đọc to mỗi câu trả lời ngay khi hoàn tất.',
+  'transcription.section': 'Nhập bằng giọng nói',
+  'transcription.language': 'Ngôn ngữ nói',
+  'transcription.autoDetect': 'Tự nhận diện',
+  'transcription.translateTo': 'Dịch sang',
+  'transcription.noTranslation': 'Không dịch',
+  'transcription.timestamps': 'Thêm mốc thời gian',
+  'transcription.timestampsHint': 'Đánh dấu [phút:giây] đầu mỗi đoạn khi đọc chính tả, tiện cho ghi âm dài.',
+  'speech.test': 'Nghe thử',
+  'speech.sample': 'Xin chào, mình là k-ite. Đây là giọng đọc bạn đã chọn.',
+  'speech.codeBlock': 'Đoạn mã {language}.',
+  'speech.codeBlockPlain': 'Đoạn mã.',
+  'speech.diagram': 'Sơ đồ.',
+  'speech.chart': 'Biểu đồ.',
+  'speech.link': 'đường dẫn',
+  'speech.math.over': 'trên',
+  'speech.math.sqrt': 'căn bậc hai của',
+  'speech.math.squared': 'bình phương',
+  'speech.math.cubed': 'lập phương',
+  'speech.math.power': 'mũ',
+  'speech.math.times': 'nhân',
+  'speech.math.dividedBy': 'chia',
+  'speech.math.plus': 'cộng',
+  'speech.math.minus': 'trừ',
+  'speech.math.plusMinus': 'cộng trừ',
+  'speech.math.equals': 'bằng',
+  'speech.math.notEqual': 'khác',
+  'speech.math.less': 'nhỏ hơn',
+  'speech.math.greater': 'lớn hơn',
+  'speech.math.lessOrEqual': 'nhỏ hơn hoặc bằng',
+  'speech.math.greaterOrEqual': 'lớn hơn hoặc bằng',
+  'speech.math.approx': 'xấp xỉ',
+  'speech.math.infinity': 'vô cùng',
+  'speech.math.sum': 'tổng',
+  'speech.math.integral': 'tích phân',
+  'speech.math.to': 'tiến tới',
+  'voice.start': 'Trò chuyện bằng giọng nói',
+  'voice.exit': 'Thoát chế độ giọng nói',
+  'voice.starting': 'Đang bật micro...',
+  'voice.listening': 'Mình đang nghe',
+  'voice.transcribing': 'Đang nhận dạng...',
+  'voice.thinking': 'Đang suy nghĩ...',
+  'voice.speaking': 'Đang trả lời',
+  'voice.interrupt': 'Ngắt lời',
+  'voice.hint': 'Cứ nói tự nhiên, mình sẽ trả lời khi bạn dừng. Nói chen vào để ngắt lời.',
+
+  // Input
+  'input.placeholder': 'Hỏi k-ite',
+  'input.imagePlaceholder': 'Mô tả hình ảnh bạn muốn tạo...',
+  'input.editImagePlaceholder': 'Mô tả thay đổi bạn muốn trên ảnh...',
+  'input.recordingPlaceholder': 'Đang ghi âm... (Ấn dừng để chuyển văn bản)',
+  'input.transcribingPlaceholder': 'Đang chuyển đổi giọng nói...',
+  'input.uploadImage': 'Tải ảnh lên',
+  'input.uploadFile': 'Tải tệp lên',
+  'input.takePhoto': 'Chụp ảnh',
+  'input.switchCamera': 'Đổi camera',
+  'input.removeFile': 'Xóa tệp',
+  'input.tools': 'Công cụ sáng tạo',
+  'input.generateImage': 'Tạo hình ảnh',
+  'input.generationSettings': 'Cài đặt tạo',
+  'input.speechSettings': 'Cài đặt giọng nói',
+  'input.exitImageMode': 'Tắt chế độ tạo ảnh',
+  'input.startRecording': 'Nhập bằng giọng nói',
+  'input.stopRecording': 'Dừng ghi âm',
+  'input.stopGenerating': 'Dừng tạo',
+  'input.disclaimer': 'k-ite có thể mắc lỗi. Hãy kiểm tra lại thông tin quan trọng.',
+  'input.cameraError': 'Không thể truy cập camera. Vui lòng kiểm tra quyền truy cập.',
+  'input.microphoneError': 'Không thể truy cập microphone. Vui lòng cấp quyền.',
+  'input.tooManyFiles': 'Chỉ có thể đính kèm tối đa {max} tệp mỗi tin nhắn.',
+  'input.imagesOnly': 'Vui lòng chọn tệp hình ảnh.',
+  'input.unsupportedFiles': 'Một số tệp có định dạng không được hỗ trợ và đã bị bỏ qua.',
+  'input.readError': 'Không thể đọc tệp. Vui lòng thử lại.',
+
+  // Chat
+  'tool.running': 'đang chạy...',
+  'chat.untitled': 'Cuộc trò chuyện mới',
+  'chat.drawing': 'Đang vẽ hình...',
+  'chat.generatingImage': 'Đang tạo hình ảnh tự động...',
+  'chat.imageReady': 'Đây là hình ảnh mình vừa tạo theo yêu cầu của bạn:',
+  'chat.imageFailed': 'Xin lỗi, mình không thể tạo hình ảnh lúc này.',
+  'offline.banner': 'Bạn đang ngoại tuyến. Vẫn xem được các cuộc trò chuyện cũ; tin nhắn mới sẽ được gửi khi có mạng trở lại.',
+  'offline.queued': 'Đang chờ kết nối',
+  'offline.sending': 'Đang gửi...',
+  'offline.cancel': 'Hủy tin nhắn này',
+  'offline.attachments': '{count} tệp đính kèm',
+  'sync.replyingElsewhere': 'Cuộc trò chuyện này đang được trả lời trong một thẻ khác',
+  'error.rateLimited': 'Hệ thống đang bận (429 Resource Exhausted). Vui lòng thử lại sau ít phút.',
+  'error.quota': 'Đã hết hạn mức sử dụng trong ngày. Vui lòng thử lại vào ngày mai.',
+  'error.safety': 'Yêu cầu hoặc câu trả lời đã bị bộ lọc an toàn chặn. Hãy thử diễn đạt lại.',
+  'error.network': 'Không kết nối được tới máy chủ. Hãy kiểm tra kết nối mạng.',
+  'error.invalidRequest': 'Yêu cầu không hợp lệ, có thể do tệp đính kèm quá lớn hoặc không được hỗ trợ.',
+  'error.auth': 'Phiên đăng nhập đã hết hạn hoặc không có quyền truy cập. Vui lòng đăng nhập lại.',
+  'error.generic': 'Xin lỗi, đã có lỗi xảy ra. Vui lòng thử lại.',
+  'error.retryIn': 'Tự thử lại sau {seconds} giây',
+  'error.retryNow': 'Thử lại ngay',
+  'error.retry': 'Thử lại',
+  'error.cancelRetry': 'Hủy',
+};
+
+export type MessageKey = keyof typeof vi;
@@ -0,0 +1,132 @@
+import { test, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { createAuthenticator } from './auth';
+import { createMockIdp } from './mockIdp';
+import { HttpError } from './http';
+import { signJwt } from './jwt';
+
+// A stand-in identity provider serving discovery and JWKS, whose keys the tests can change
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = (kid: string) => ({ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' });
+let keys = [jwk('k1')];
+let jwksRequests = 0;
+let jwksStatus = 200;
+let server: http.Server;
+let issuer: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    if (req.url === '/.well-known/openid-configuration') {
+      res.end(JSON.stringify({ issuer, jwks_uri: `${issuer}/jwks` }));
+    } else if (req.url === '/jwks') {
+      jwksRequests++;
+      res.writeHead(jwksStatus).end(JSON.stringify(jwksStatus === 200 ? { keys } : { error: 'unavailable' }));
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  keys = [jwk('k1')];
+  jwksRequests = 0;
+  jwksStatus = 200;
+  // Only Date: the JWKS reload cooldown is measured with it, and the test server needs real timers
+  mock.timers.enable({ apis: ['Date'], now: Date.now() });
+  process.env.OIDC_ISSUER = issuer;
+  delete process.env.OIDC_AUDIENCE;
+});
+
+afterEach(() => mock.timers.reset());
+
+const request = (authorization?: string) =>
+  ({ headers: authorization ? { authorization } : {} }) as http.IncomingMessage;
+
+const token = (overrides: Record<string, unknown> = {}, kid = 'k1') => {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt({ iss: issuer, aud: 'kite-web', sub: 'user-1', email: 'a@example.com', iat: now, exp: now + 300, ...overrides }, privateKey, kid);
+};
+
+const rejects = async (promise: Promise<unknown>, message: RegExp) => {
+  await assert.rejects(promise, (error: any) => {
+    assert.ok(error instanceof HttpError);
+    assert.equal(error.status, 401);
+    assert.match(error.message, message);
+    return true;
+  });
+};
+
+test('accepts a valid bearer token', async () => {
+  const authenticate = createAuthenticator(null);
+  assert.deepEqual(await authenticate(request(`Bearer ${token()}`)), { sub: 'user-1', email: 'a@example.com' });
+});
+
+test('asks for a token when there is none', async () => {
+  const authenticate = createAuthenticator(null);
+  await rejects(authenticate(request()), /Missing access token/);
+  await rejects(authenticate(request(`Basic ${token()}`)), /Missing access token/);
+});
+
+test('rejects tokens for another audience or issuer', async () => {
+  const authenticate = createAuthenticator(null);
+  await rejects(authenticate(request(`Bearer ${token({ aud: 'other-app' })}`)), /audience/);
+  await rejects(authenticate(request(`Bearer ${token({ iss: 'https://evil.example.com' })}`)), /issuer/);
+});
+
+test('uses OIDC_AUDIENCE', async () => {
+  process.env.OIDC_AUDIENCE = 'kite-api';
+  const authenticate = createAuthenticator(null);
+  await rejects(authenticate(request(`Bearer ${token()}`)), /audience/);
+  assert.equal((await authenticate(request(`Bearer ${token({ aud: 'kite-api' })}`))).sub, 'user-1');
+});
+
+test('rejects tokens signed with an unknown key', async () => {
+  const authenticate = createAuthenticator(null);
+  await rejects(authenticate(request(`Bearer ${token({}, 'k2')}`)), /Unknown signing key/);
+});
+
+test('reloads the keys when the provider rotates them', async () => {
+  const authenticate = createAuthenticator(null);
+  await authenticate(request(`Bearer ${token()}`));
+  keys = [jwk('k2')];
+  mock.timers.tick(60_000);
+  assert.equal((await authenticate(request(`Bearer ${token({}, 'k2')}`))).sub, 'user-1');
+  assert.equal(jwksRequests, 2);
+});
+
+test('reloads the keys at most once a minute for unknown key ids', async () => {
+  const authenticate = createAuthenticator(null);
+  await authenticate(request(`Bearer ${token()}`));
+  await Promise.all([1, 2, 3].map(i => rejects(authenticate(request(`Bearer ${token({}, `forged-${i}`)}`)), /Unknown signing key/)));
+  assert.equal(jwksRequests, 1);
+
+  mock.timers.tick(60_000);
+  await Promise.all([1, 2, 3].map(i => rejects(authenticate(request(`Bearer ${token({}, `forged-${i}`)}`)), /Unknown signing key/)));
+  assert.equal(jwksRequests, 2);
+});
+
+test('keeps the known keys when a reload fails', async () => {
+  const authenticate = createAuthenticator(null);
+  await authenticate(request(`Bearer ${token()}`));
+  jwksStatus = 503;
+  mock.timers.tick(60_000);
+  await rejects(authenticate(request(`Bearer ${token({}, 'k2')}`)), /Unknown signing key/);
+  assert.equal(jwksRequests, 2);
+  assert.equal((await authenticate(request(`Bearer ${token()}`))).sub, 'user-1');
+});
+
+test('only accepts tokens of the mock IdP when there is no OIDC_ISSUER', async () => {
+  delete process.env.OIDC_ISSUER;
+  const mockIdp = createMockIdp('http://localhost:3000/idp');
+  const authenticate = createAuthenticator(mockIdp);
+  await rejects(authenticate(request(`Bearer ${token({ iss: mockIdp.issuer }, mockIdp.kid)}`)), /signature/);
+  assert.equal(jwksRequests, 0);
+});
@@ -0,0 +1,88 @@
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { HttpError } from './http';
+import { verifyJwt, decodeJwtHeader } from './jwt';
+import { MockIdp } from './mockIdp';
+
+// Verifies the bearer access token on proxy requests.
+//   OIDC_ISSUER    the identity provider; its access tokens must be RS256 JWTs. When unset, the
+//                  built-in mock IdP (server/mockIdp.ts) is used instead, which needs MOCK_IDP=1.
+//   OIDC_AUDIENCE  expected `aud` of access tokens, default 'kite-web'
+
+export interface AuthenticatedUser {
+  sub: string;
+  email?: string;
+}
+
+type KeyResolver = (kid: string | undefined) => Promise<crypto.KeyObject>;
+
+// How often an unknown key id may trigger a JWKS reload. Anyone can send a token with a made-up kid,
+// so reloads are rate limited rather than done for every such request.
+const JWKS_RELOAD_COOLDOWN_MS = 60_000;
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+  return response.json();
+};
+
+// Remote JWKS, cached and reloaded when an unknown key id shows up (key rotation). A failed reload
+// keeps the keys already known.
+const createJwksResolver = (issuer: string): KeyResolver => {
+  let keys: (crypto.JsonWebKey & { kid?: string })[] = [];
+  let lastReload = -Infinity;
+  let reloading: Promise<void> | null = null;
+
+  const load = async () => {
+    const discovery = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+    const jwks = await fetchJson(discovery.jwks_uri);
+    if (!Array.isArray(jwks.keys)) throw new Error('JWKS without keys');
+    keys = jwks.keys;
+  };
+
+  // Concurrent requests share one reload
+  const reload = () => {
+    if (!reloading && Date.now() - lastReload >= JWKS_RELOAD_COOLDOWN_MS) {
+      lastReload = Date.now();
+      reloading = load()
+        .catch(error => console.error('Could not load the JWKS of the identity provider', error))
+        .finally(() => { reloading = null; });
+    }
+    return reloading;
+  };
+
+  return async (kid) => {
+    let jwk = keys.find(k => k.kid === kid);
+    if (!jwk) {
+      await reload();
+      jwk = kid ? keys.find(k => k.kid === kid) : keys[0];
+    }
+    if (!jwk) throw new Error('Unknown signing key');
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  };
+};
+
+export const createAuthenticator = (mockIdp: MockIdp | null) => {
+  const audience = process.env.OIDC_AUDIENCE || 'kite-web';
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/$/, '');
+
+  const resolveKey: KeyResolver = issuer
+    ? createJwksResolver(issuer)
+    : async () => mockIdp!.publicKey;
+
+  return async (req: http.IncomingMessage): Promise<AuthenticatedUser> => {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!token) throw new HttpError(401, 'Missing access token', { 'WWW-Authenticate': 'Bearer' });
+
+    try {
+      const key = await resolveKey(decodeJwtHeader(token).kid);
+      const claims = verifyJwt(token, key, issuer || mockIdp!.issuer, audience);
+      // The mock IdP can tell us about revoked sessions; real IdPs rely on short token lifetimes
+      if (!issuer && claims.sid && !mockIdp!.isSessionActive(claims.sid)) throw new Error('Session revoked');
+      return { sub: claims.sub, email: claims.email };
+    } catch (error: any) {
+      throw new HttpError(401, `Invalid access token: ${error.message}`, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+    }
+  };
+};
@@ -0,0 +1,240 @@
+import { GoogleGenAI, Content, Part, GenerateContentConfig, ThinkingLevel, Modality, FinishReason } from '@google/genai';
+import { HttpError } from './http';
+
+// The only place the Gemini API key is read. It never leaves the server.
+let ai: GoogleGenAI | null = null;
+
+const getAi = () => {
+  if (!ai) {
+    if (!process.env.GEMINI_API_KEY) {
+      throw new Error('GEMINI_API_KEY is not set');
+    }
+    ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  }
+  return ai;
+};
+
+// Clients may only pick from the models the app offers, and the one session titles are written with
+export const CHAT_MODELS = ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash-lite'];
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const TRANSCRIBE_MODEL = 'gemini-3-flash-preview';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  thinkingLevel?: 'low' | 'high';
+  thinkingBudget?: number;
+}
+
+export interface ChatRequest {
+  model: string;
+  history?: Content[];
+  message: Part[];
+  systemInstruction?: string;
+  tools?: ToolDeclaration[];
+  generation?: GenerationSettings;
+}
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// Only well-formed, in-range values from the client reach the API; anything else is left to the model default
+const toGenerationConfig = (generation: GenerationSettings = {}): GenerateContentConfig => {
+  const { temperature, topP, topK, maxOutputTokens, stopSequences, thinkingLevel, thinkingBudget } = generation;
+  const config: GenerateContentConfig = {};
+  if (inRange(temperature, 0, 2)) config.temperature = temperature;
+  if (inRange(topP, 0, 1)) config.topP = topP;
+  if (inRange(topK, 1, 100)) config.topK = Math.round(topK);
+  if (inRange(maxOutputTokens, 1, 65536)) config.maxOutputTokens = Math.round(maxOutputTokens);
+  if (Array.isArray(stopSequences)) {
+    const sequences = stopSequences.filter(s => typeof s === 'string' && s !== '').slice(0, 5);
+    if (sequences.length > 0) config.stopSequences = sequences;
+  }
+  // The API rejects a level and a budget together
+  if (thinkingLevel === 'low' || thinkingLevel === 'high') {
+    config.thinkingConfig = { thinkingLevel: thinkingLevel === 'low' ? ThinkingLevel.LOW : ThinkingLevel.HIGH };
+  } else if (inRange(thinkingBudget, -1, 32768)) {
+    config.thinkingConfig = { thinkingBudget: Math.round(thinkingBudget) };
+  }
+  return config;
+};
+
+export interface ChatChunk {
+  text?: string;
+  functionCalls?: { id?: string; name: string; args: Record<string, unknown>; thoughtSignature?: string }[];
+}
+
+// Replies cut off by the safety filters; reported as errors so the client can tell them apart
+const BLOCKED_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII];
+
+export async function* streamChat(request: ChatRequest, signal: AbortSignal): AsyncGenerator<ChatChunk> {
+  const { model, history, message, systemInstruction, tools, generation } = request;
+
+  const stream = await getAi().models.generateContentStream({
+    model,
+    contents: [...(history || []), { role: 'user', parts: message }],
+    config: {
+      ...toGenerationConfig(generation),
+      abortSignal: signal,
+      systemInstruction,
+      tools: tools && tools.length > 0
+        ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+        : undefined,
+    },
+  });
+
+  for await (const chunk of stream) {
+    const blockReason = chunk.promptFeedback?.blockReason;
+    if (blockReason) throw new HttpError(400, `SAFETY: prompt blocked (${blockReason})`);
+    const finishReason = chunk.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new HttpError(400, `SAFETY: reply blocked (${finishReason})`);
+
+    const parts = chunk.candidates?.[0]?.content?.parts || [];
+    const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+    const functionCalls = parts
+      .filter(p => p.functionCall)
+      .map(p => ({
+        id: p.functionCall!.id,
+        name: p.functionCall!.name || '',
+        args: p.functionCall!.args || {},
+        // Gemini 3 requires the signature to be replayed with the call in later turns
+        thoughtSignature: p.thoughtSignature,
+      }));
+
+    yield {
+      ...(text && { text }),
+      ...(functionCalls.length > 0 && { functionCalls }),
+    };
+  }
+}
+
+// Counts the prompt tokens of a conversation. The Gemini API can't count a system instruction,
+// so callers add their own estimate for it.
+export const countTokens = async (model: string, contents: Content[]) => {
+  const response = await getAi().models.countTokens({ model, contents });
+  return { totalTokens: response.totalTokens ?? 0 };
+};
+
+export const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+export const MAX_IMAGE_VARIANTS = 4;
+export const MAX_SOURCE_IMAGES = 4;
+
+export interface ImageRequest {
+  prompt: string;
+  images?: { mimeType: string; data: string }[]; // Edited rather than drawn from scratch
+  aspectRatio?: string;
+  count?: number; // Variants, each one a separate call
+}
+
+const generateOneImage = async ({ prompt, images = [], aspectRatio }: ImageRequest) => {
+  const response = await getAi().models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts: [
+        ...images.map(inlineData => ({ inlineData })),
+        { text: prompt }
+      ]
+    },
+    // No responseMimeType or responseSchema for nano banana models
+    ...(aspectRatio && { config: { imageConfig: { aspectRatio } } }),
+  });
+
+  let attachment: { mimeType: string; data: string } | undefined;
+  let text = '';
+
+  const candidate = response.candidates?.[0];
+  if (candidate?.content?.parts) {
+    for (const part of candidate.content.parts) {
+      if (part.inlineData?.data) {
+        attachment = {
+          mimeType: part.inlineData.mimeType || 'image/png',
+          data: part.inlineData.data
+        };
+      } else if (part.text) {
+        text += part.text;
+      }
+    }
+  }
+
+  return { text, attachment };
+};
+
+export const generateImage = async (request: ImageRequest) => {
+  const results = await Promise.all(Array.from({ length: request.count || 1 }, () => generateOneImage(request)));
+  return {
+    text: results.find(r => r.text)?.text || '',
+    attachments: results.flatMap(r => r.attachment ? [r.attachment] : []),
+  };
+};
+
+// Languages clients may ask for, by ISO 639-1 code
+export const TRANSCRIPTION_LANGUAGES: Record<string, string> = {
+  vi: 'Vietnamese', en: 'English', zh: 'Chinese', ja: 'Japanese', ko: 'Korean',
+  fr: 'French', de: 'German', es: 'Spanish', th: 'Thai', id: 'Indonesian',
+};
+
+export interface TranscriptionOptions {
+  language?: string; // Detected when unset
+  translateTo?: string;
+  timestamps?: boolean;
+}
+
+const transcriptionPrompt = ({ language, translateTo, timestamps }: TranscriptionOptions) => [
+  language
+    ? `Listen carefully to the audio. The speaker speaks ${TRANSCRIPTION_LANGUAGES[language]}. Transcribe the human speech to text.`
+    : 'Listen carefully to the audio. Transcribe the human speech to text, in the language it is spoken in.',
+  translateTo && `Write the transcript translated into ${TRANSCRIPTION_LANGUAGES[translateTo]} instead of the original wording.`,
+  timestamps && 'Start each sentence on a new line, prefixed with the time it starts in the audio as [mm:ss].',
+  'CRITICAL RULE: If the audio contains NO human speech (e.g., only silence, background noise, static, typing sounds, breathing, or music without lyrics), output EXACTLY the string: [[NO_SPEECH]]',
+  'Do not output any other explanation.',
+].filter(Boolean).join('\n\n');
+
+// Transcribe audio using Gemini 3 Flash (Multimodal capabilities)
+export const transcribeAudio = async (mimeType: string, data: string, options: TranscriptionOptions = {}) => {
+  // We use Gemini 3 Flash to detect speech vs noise
+  const response = await getAi().models.generateContent({
+    model: TRANSCRIBE_MODEL,
+    contents: {
+      parts: [
+        {
+          inlineData: { mimeType, data }
+        },
+        {
+          text: transcriptionPrompt(options)
+        }
+      ]
+    }
+  });
+
+  return { text: response.text || "" };
+};
+
+// Prebuilt voices clients may pick from
+export const SPEECH_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+export const MAX_SPEECH_LENGTH = 5000; // Characters per request; clients split longer texts
+
+// Read text aloud with a Gemini TTS model. The audio is raw 16-bit PCM, its sample rate in the mime type.
+export const synthesizeSpeech = async (text: string, voice: string) => {
+  const response = await getAi().models.generateContent({
+    model: SPEECH_MODEL,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+    },
+  });
+
+  const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+  if (!audio?.data) throw new Error('No audio in the response');
+  return { mimeType: audio.mimeType || 'audio/L16;rate=24000', data: audio.data };
+};
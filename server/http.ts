@@ -0,0 +1,45 @@
+import http from 'node:http';
+
+// Small helpers shared by the proxy routes and the mock identity provider
+
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // base64 attachments are large
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+export const readBody = (req: http.IncomingMessage): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+};
+
+export const readJson = async (req: http.IncomingMessage): Promise<any> => {
+  const body = await readBody(req);
+  try {
+    return JSON.parse(body || '{}');
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+export const readForm = async (req: http.IncomingMessage) => new URLSearchParams(await readBody(req));
+
+export const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
@@ -0,0 +1,220 @@
+import http from 'node:http';
+import * as gemini from './gemini';
+import * as openai from './openai';
+import { countTokens, synthesizeSpeech, CHAT_MODELS, TRANSCRIPTION_LANGUAGES, SPEECH_VOICES, MAX_SPEECH_LENGTH, ChatRequest, ImageRequest, IMAGE_ASPECT_RATIOS, MAX_IMAGE_VARIANTS, MAX_SOURCE_IMAGES } from './gemini';
+import { createRateLimiter } from './rateLimit';
+import { HttpError, readJson, sendJson } from './http';
+import { createMockIdp } from './mockIdp';
+import { createAuthenticator, AuthenticatedUser } from './auth';
+
+// k-ite API proxy: holds GEMINI_API_KEY and exposes the chat, image, transcription and speech
+// endpoints the web client needs, plus token counting. Run with `npm run server`.
+// The chat, image and transcription endpoints are also served under /api/openai by an
+// OpenAI-compatible server, configured with the OPENAI_* variables (see server/openai.ts).
+//
+//   PORT                   default 8787
+//   ALLOWED_ORIGINS        comma-separated origins allowed by CORS (the Vite dev server is proxied, so
+//                          this is only needed for deployed builds, e.g. https://<user>.github.io)
+//   RATE_LIMIT_PER_MINUTE  request budget per user, default 20
+//   OIDC_ISSUER / OIDC_AUDIENCE  identity provider whose access tokens are accepted, see server/auth.ts
+//   MOCK_IDP=1             serve the development IdP instead; required when OIDC_ISSUER is unset
+//   MOCK_IDP_ISSUER        public URL of the development IdP,
+//                          default http://localhost:3000/idp (reached through the Vite dev server)
+//   MOCK_IDP_CLIENT_ORIGINS  comma-separated origins the development IdP redirects back to,
+//                          default the origin of MOCK_IDP_ISSUER
+
+const PORT = Number(process.env.PORT) || 8787;
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+// Image generation costs considerably more than a chat turn; counting tokens is nearly free
+const COSTS = { chat: 1, image: 5, transcribe: 1, speech: 1, countTokens: 0.2 };
+
+// The development IdP signs in anyone, so it never stands in for a missing OIDC_ISSUER by accident
+if (!process.env.OIDC_ISSUER && process.env.MOCK_IDP !== '1') {
+  console.error('OIDC_ISSUER is not set. Set it to your identity provider, or set MOCK_IDP=1 to use the development one.');
+  process.exit(1);
+}
+
+const MOCK_IDP_CLIENT_ORIGINS = (process.env.MOCK_IDP_CLIENT_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+const mockIdp = process.env.OIDC_ISSUER
+  ? null
+  : createMockIdp(
+    (process.env.MOCK_IDP_ISSUER || 'http://localhost:3000/idp').replace(/\/$/, ''),
+    MOCK_IDP_CLIENT_ORIGINS.length > 0 ? MOCK_IDP_CLIENT_ORIGINS : undefined
+  );
+const authenticate = createAuthenticator(mockIdp);
+
+const rateLimiter = createRateLimiter(
+  Number(process.env.RATE_LIMIT_PER_MINUTE) || 20,
+  Number(process.env.RATE_LIMIT_PER_MINUTE) || 20
+);
+
+const applyCors = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const origin = req.headers.origin;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  }
+};
+
+// Limits are keyed by the verified subject of the access token. The development IdP signs in any
+// email address, so its subjects cost nothing to make up; fall back to the remote address there.
+const getRateLimitKey = (req: http.IncomingMessage, user: AuthenticatedUser) =>
+  mockIdp ? `addr:${req.socket.remoteAddress || 'unknown'}` : `sub:${user.sub}`;
+
+const enforceRateLimit = (req: http.IncomingMessage, user: AuthenticatedUser, cost: number) => {
+  const { allowed, retryAfterSeconds } = rateLimiter.take(getRateLimitKey(req, user), cost);
+  if (!allowed) {
+    throw new HttpError(429, 'RESOURCE_EXHAUSTED: rate limit exceeded', { 'Retry-After': String(retryAfterSeconds) });
+  }
+};
+
+// The model backends behind the chat, image and transcription routes
+interface Backend {
+  isChatModel: (model: string) => boolean;
+  streamChat: typeof gemini.streamChat;
+  generateImage: typeof gemini.generateImage;
+  transcribeAudio: typeof gemini.transcribeAudio;
+}
+
+const geminiBackend: Backend = { ...gemini, isChatModel: model => CHAT_MODELS.includes(model) };
+const openaiBackend: Backend = openai;
+
+const handleChat = (backend: Backend) => async (req: http.IncomingMessage, res: http.ServerResponse, user: AuthenticatedUser) => {
+  const body = await readJson(req) as ChatRequest;
+  if (!backend.isChatModel(body.model)) throw new HttpError(400, `Unsupported model: ${body.model}`);
+  if (!Array.isArray(body.message) || body.message.length === 0) throw new HttpError(400, 'Missing message');
+  enforceRateLimit(req, user, COSTS.chat);
+
+  // Stop generating (and paying for tokens) as soon as the client goes away
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  const stream = backend.streamChat(body, controller.signal);
+  // Pull the first chunk before committing to a 200 so upstream errors keep their status code
+  const first = await stream.next();
+
+  // Newline-delimited JSON, one chunk per line
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  try {
+    if (!first.done) res.write(JSON.stringify(first.value) + '\n');
+    for await (const chunk of stream) {
+      res.write(JSON.stringify(chunk) + '\n');
+    }
+  } catch (error: any) {
+    if (!controller.signal.aborted) {
+      res.write(JSON.stringify({ error: { status: error.status || 500, message: error.message } }) + '\n');
+    }
+  }
+  res.end();
+};
+
+const handleCountTokens = async (req: http.IncomingMessage, res: http.ServerResponse, user: AuthenticatedUser) => {
+  const body = await readJson(req);
+  if (!CHAT_MODELS.includes(body.model)) throw new HttpError(400, `Unsupported model: ${body.model}`);
+  if (!Array.isArray(body.contents) || body.contents.length === 0) throw new HttpError(400, 'Missing contents');
+  enforceRateLimit(req, user, COSTS.countTokens);
+
+  sendJson(res, 200, await countTokens(body.model, body.contents));
+};
+
+const handleImage = (backend: Backend) => async (req: http.IncomingMessage, res: http.ServerResponse, user: AuthenticatedUser) => {
+  const body = await readJson(req) as ImageRequest;
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) throw new HttpError(400, 'Missing prompt');
+  if (body.aspectRatio !== undefined && !IMAGE_ASPECT_RATIOS.includes(body.aspectRatio)) {
+    throw new HttpError(400, `Unsupported aspect ratio: ${body.aspectRatio}`);
+  }
+  const count = body.count ?? 1;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGE_VARIANTS) throw new HttpError(400, 'Invalid variant count');
+  const images = body.images ?? [];
+  if (!Array.isArray(images) || images.length > MAX_SOURCE_IMAGES
+    || !images.every(i => typeof i?.data === 'string' && typeof i.mimeType === 'string' && i.mimeType.startsWith('image/'))) {
+    throw new HttpError(400, 'Invalid source images');
+  }
+  // Every variant is a generation of its own
+  enforceRateLimit(req, user, COSTS.image * count);
+
+  sendJson(res, 200, await backend.generateImage({
+    prompt: body.prompt,
+    images: images.map(({ mimeType, data }) => ({ mimeType, data })),
+    aspectRatio: body.aspectRatio,
+    count,
+  }));
+};
+
+const handleTranscribe = (backend: Backend) => async (req: http.IncomingMessage, res: http.ServerResponse, user: AuthenticatedUser) => {
+  const body = await readJson(req);
+  if (typeof body.data !== 'string' || !body.data) throw new HttpError(400, 'Missing audio data');
+  for (const key of ['language', 'translateTo']) {
+    if (body[key] !== undefined && !Object.keys(TRANSCRIPTION_LANGUAGES).includes(body[key])) throw new HttpError(400, `Unsupported language: ${body[key]}`);
+  }
+  enforceRateLimit(req, user, COSTS.transcribe);
+
+  sendJson(res, 200, await backend.transcribeAudio(body.mimeType || 'audio/webm', body.data, {
+    language: body.language,
+    translateTo: body.translateTo,
+    timestamps: body.timestamps === true,
+  }));
+};
+
+const handleSpeech = async (req: http.IncomingMessage, res: http.ServerResponse, user: AuthenticatedUser) => {
+  const body = await readJson(req);
+  if (typeof body.text !== 'string' || !body.text.trim()) throw new HttpError(400, 'Missing text');
+  if (body.text.length > MAX_SPEECH_LENGTH) throw new HttpError(413, 'Text too long');
+  if (!SPEECH_VOICES.includes(body.voice)) throw new HttpError(400, `Unsupported voice: ${body.voice}`);
+  enforceRateLimit(req, user, COSTS.speech);
+
+  sendJson(res, 200, await synthesizeSpeech(body.text, body.voice));
+};
+
+type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, user: AuthenticatedUser) => Promise<void>;
+
+const routes: Record<string, RouteHandler> = {
+  '/api/chat': handleChat(geminiBackend),
+  '/api/count-tokens': handleCountTokens,
+  '/api/image': handleImage(geminiBackend),
+  '/api/transcribe': handleTranscribe(geminiBackend),
+  '/api/speech': handleSpeech,
+  '/api/openai/chat': handleChat(openaiBackend),
+  '/api/openai/image': handleImage(openaiBackend),
+  '/api/openai/transcribe': handleTranscribe(openaiBackend),
+};
+
+const server = http.createServer(async (req, res) => {
+  applyCors(req, res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const { pathname } = url;
+
+  try {
+    if (mockIdp && await mockIdp.handle(req, res, url)) return;
+
+    const handler = routes[pathname];
+    if (!handler || req.method !== 'POST') {
+      throw new HttpError(404, 'Not found');
+    }
+    await handler(req, res, await authenticate(req));
+  } catch (error: any) {
+    const status = error instanceof HttpError ? error.status : (error.status || 500);
+    if (!(error instanceof HttpError)) console.error(`${pathname} failed`, error);
+    if (!res.headersSent) {
+      sendJson(res, status, { error: { status, message: error.message } }, error.headers);
+    } else {
+      res.end();
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`k-ite API proxy listening on http://localhost:${PORT}`);
+  if (mockIdp) {
+    console.warn(`MOCK_IDP=1: using the development identity provider at ${mockIdp.issuer}, which signs in any email address`);
+  }
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { signJwt, verifyJwt, decodeJwtHeader } from './jwt';
+
+const ISSUER = 'https://id.example.com';
+const AUDIENCE = 'kite-web';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const now = () => Math.floor(Date.now() / 1000);
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  iss: ISSUER, aud: AUDIENCE, sub: 'user-1', iat: now(), exp: now() + 300, ...overrides,
+});
+
+test('verifyJwt returns the claims of a valid token', () => {
+  const token = signJwt(claims({ email: 'a@example.com' }), privateKey, 'k1');
+  const verified = verifyJwt(token, publicKey, ISSUER, AUDIENCE);
+  assert.equal(verified.sub, 'user-1');
+  assert.equal(verified.email, 'a@example.com');
+  assert.equal(decodeJwtHeader(token).kid, 'k1');
+});
+
+test('verifyJwt accepts the audience among several', () => {
+  const token = signJwt(claims({ aud: ['other', AUDIENCE] }), privateKey, 'k1');
+  assert.equal(verifyJwt(token, publicKey, ISSUER, AUDIENCE).sub, 'user-1');
+});
+
+test('verifyJwt rejects a token signed with another key', () => {
+  const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const token = signJwt(claims(), other.privateKey, 'k1');
+  assert.throws(() => verifyJwt(token, publicKey, ISSUER, AUDIENCE), /signature/);
+});
+
+test('verifyJwt rejects tampered claims', () => {
+  const [header, , signature] = signJwt(claims(), privateKey, 'k1').split('.');
+  const payload = Buffer.from(JSON.stringify(claims({ sub: 'admin' }))).toString('base64url');
+  assert.throws(() => verifyJwt(`${header}.${payload}.${signature}`, publicKey, ISSUER, AUDIENCE), /signature/);
+});
+
+test('verifyJwt rejects other algorithms', () => {
+  const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims())).toString('base64url');
+  assert.throws(() => verifyJwt(`${header}.${payload}.x`, publicKey, ISSUER, AUDIENCE), /algorithm/);
+});
+
+test('verifyJwt rejects malformed tokens', () => {
+  assert.throws(() => verifyJwt('not-a-token', publicKey, ISSUER, AUDIENCE), /Malformed/);
+});
+
+test('verifyJwt checks issuer, audience and lifetime', () => {
+  const verify = (overrides: Record<string, unknown>) =>
+    () => verifyJwt(signJwt(claims(overrides), privateKey, 'k1'), publicKey, ISSUER, AUDIENCE);
+
+  assert.throws(verify({ iss: 'https://evil.example.com' }), /issuer/);
+  assert.throws(verify({ aud: 'someone-else' }), /audience/);
+  assert.throws(verify({ exp: now() - 120 }), /expired/);
+  assert.throws(verify({ exp: undefined }), /expired/);
+  assert.throws(verify({ nbf: now() + 120 }), /not yet valid/);
+  // Small clock skew is tolerated
+  assert.doesNotThrow(verify({ exp: now() - 10, nbf: now() + 10 }));
+});
@@ -0,0 +1,43 @@
+import crypto from 'node:crypto';
+
+// Minimal RS256 JWT helpers (node:crypto only)
+
+export type JwtClaims = Record<string, any>;
+
+const base64Url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+
+export const signJwt = (claims: JwtClaims, privateKey: crypto.KeyObject, kid: string) => {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }));
+  const payload = base64Url(JSON.stringify(claims));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64Url(signature)}`;
+};
+
+export const decodeJwtHeader = (token: string): { alg?: string; kid?: string } => {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+  } catch {
+    return {};
+  }
+};
+
+// Verifies the signature and the standard time/issuer/audience claims. Throws on any mismatch.
+export const verifyJwt = (token: string, publicKey: crypto.KeyObject, issuer: string, audience: string): JwtClaims => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) throw new Error('Malformed token');
+  if (decodeJwtHeader(token).alg !== 'RS256') throw new Error('Unsupported token algorithm');
+
+  const isValid = crypto.verify('sha256', Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'));
+  if (!isValid) throw new Error('Invalid token signature');
+
+  const claims: JwtClaims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== issuer) throw new Error('Token issuer mismatch');
+  if (!audiences.includes(audience)) throw new Error('Token audience mismatch');
+  if (typeof claims.exp !== 'number' || claims.exp < now - 30) throw new Error('Token expired');
+  if (typeof claims.nbf === 'number' && claims.nbf > now + 30) throw new Error('Token not yet valid');
+
+  return claims;
+};
@@ -0,0 +1,80 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { createMockIdp } from './mockIdp';
+import { HttpError, sendJson } from './http';
+
+const ISSUER = 'http://localhost:3000/idp';
+const APP = 'http://localhost:3000/';
+const mockIdp = createMockIdp(ISSUER);
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  server = http.createServer(async (req, res) => {
+    try {
+      if (!await mockIdp.handle(req, res, new URL(req.url || '/', 'http://localhost'))) throw new HttpError(404, 'Not found');
+    } catch (error: any) {
+      sendJson(res, error instanceof HttpError ? error.status : 500, { error: { message: error.message } });
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/idp`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const verifier = crypto.randomBytes(32).toString('base64url');
+const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+const authorize = (redirectUri: string) => fetch(`${baseUrl}/authorize`, {
+  method: 'POST',
+  redirect: 'manual',
+  body: new URLSearchParams({
+    email: 'a@example.com', client_id: 'kite-web', redirect_uri: redirectUri,
+    code_challenge: challenge, code_challenge_method: 'S256', response_type: 'code', state: 's1',
+  }),
+});
+
+test('signs in and redirects back to a registered origin with a code', async () => {
+  const response = await authorize(APP);
+  assert.equal(response.status, 302);
+  const location = new URL(response.headers.get('location')!);
+  assert.equal(location.origin, 'http://localhost:3000');
+  assert.equal(location.searchParams.get('state'), 's1');
+
+  const tokens = await fetch(`${baseUrl}/token`, {
+    method: 'POST',
+    body: new URLSearchParams({
+      grant_type: 'authorization_code', code: location.searchParams.get('code')!,
+      client_id: 'kite-web', redirect_uri: APP, code_verifier: verifier,
+    }),
+  });
+  assert.equal(tokens.status, 200);
+  assert.ok((await tokens.json()).access_token);
+});
+
+test('refuses to redirect to other origins after sign-in', async () => {
+  const response = await authorize('https://evil.example.com/callback');
+  assert.equal(response.status, 400);
+  assert.equal(response.headers.get('location'), null);
+});
+
+test('refuses to show the sign-in page for other origins', async () => {
+  const query = new URLSearchParams({
+    response_type: 'code', code_challenge: challenge, code_challenge_method: 'S256', redirect_uri: 'https://evil.example.com/',
+  });
+  assert.equal((await fetch(`${baseUrl}/authorize?${query}`)).status, 400);
+});
+
+test('only redirects to registered origins after logout', async () => {
+  const allowed = await fetch(`${baseUrl}/logout?post_logout_redirect_uri=${encodeURIComponent(APP)}`, { redirect: 'manual' });
+  assert.equal(allowed.status, 302);
+  assert.equal(allowed.headers.get('location'), APP);
+
+  const refused = await fetch(`${baseUrl}/logout?post_logout_redirect_uri=${encodeURIComponent('https://evil.example.com/')}`, { redirect: 'manual' });
+  assert.equal(refused.status, 400);
+  assert.equal(refused.headers.get('location'), null);
+});
@@ -0,0 +1,274 @@
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { HttpError, readForm, sendJson } from './http';
+import { signJwt } from './jwt';
+
+// Local OpenID Connect provider for development. It signs in any email address without a password,
+// so it is only mounted when the server is started with MOCK_IDP=1. Supports discovery, JWKS,
+// authorization code + PKCE (S256), refresh token rotation, revocation and RP-initiated logout.
+// It only redirects back to the client origins it was created with.
+
+const ACCESS_TOKEN_TTL = 5 * 60; // seconds, short on purpose so refresh gets exercised
+const ID_TOKEN_TTL = 60 * 60;
+const CODE_TTL_MS = 60_000;
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  scope: string;
+  email: string;
+  name: string;
+  expiresAt: number;
+}
+
+interface Session {
+  sid: string;
+  clientId: string;
+  email: string;
+  name: string;
+  scope: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const loginPage = (params: URLSearchParams, error?: string) => `<!DOCTYPE html>
+<html lang="vi">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>k-ite ID (mock)</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f8fafc; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; }
+    form { background: white; padding: 2rem; border-radius: 1.5rem; box-shadow: 0 10px 30px rgba(0,0,0,.08); width: 320px; display: flex; flex-direction: column; gap: .75rem; }
+    h1 { font-size: 1.25rem; margin: 0 0 .25rem; }
+    p { color: #64748b; font-size: .8rem; margin: 0 0 .5rem; }
+    input { padding: .75rem; border: 1px solid #e2e8f0; border-radius: .75rem; font-size: 1rem; }
+    button { padding: .75rem; border: 0; border-radius: .75rem; background: #0f172a; color: white; font-size: 1rem; cursor: pointer; }
+    .error { color: #dc2626; }
+  </style>
+</head>
+<body>
+  <form method="POST">
+    <h1>k-ite ID</h1>
+    <p>Máy chủ định danh thử nghiệm — chỉ dùng khi phát triển.</p>
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+    ${[...params].map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}" />`).join('\n    ')}
+    <input type="email" name="email" placeholder="ban@example.com" required autofocus />
+    <input type="text" name="name" placeholder="Tên hiển thị (không bắt buộc)" />
+    <button type="submit">Đăng nhập</button>
+  </form>
+</body>
+</html>`;
+
+// Parses a redirect URI and checks that it points at one of the client origins
+const parseRedirect = (value: string, clientOrigins: string[], param: string) => {
+  let target: URL;
+  try {
+    target = new URL(value);
+  } catch {
+    throw new HttpError(400, `Invalid ${param}`);
+  }
+  if (!clientOrigins.includes(target.origin)) throw new HttpError(400, `Unregistered ${param}`);
+  return target;
+};
+
+// clientOrigins defaults to the issuer's own origin, as the app reaches the IdP through its dev server
+export const createMockIdp = (issuer: string, clientOrigins = [new URL(issuer).origin]) => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString('hex');
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' };
+
+  const codes = new Map<string, AuthorizationCode>();
+  const refreshTokens = new Map<string, Session>();
+  const activeSessions = new Set<string>();
+
+  const issueTokens = (session: Session, nonce?: string) => {
+    const now = Math.floor(Date.now() / 1000);
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    refreshTokens.set(refreshToken, session);
+
+    return {
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL,
+      scope: session.scope,
+      access_token: signJwt({
+        iss: issuer, aud: session.clientId, sub: session.email, email: session.email,
+        sid: session.sid, scope: session.scope, iat: now, exp: now + ACCESS_TOKEN_TTL,
+      }, privateKey, kid),
+      id_token: signJwt({
+        iss: issuer, aud: session.clientId, sub: session.email, email: session.email, email_verified: true,
+        name: session.name, sid: session.sid, iat: now, exp: now + ID_TOKEN_TTL, ...(nonce && { nonce }),
+      }, privateKey, kid),
+      refresh_token: refreshToken,
+    };
+  };
+
+  const tokenError = (res: http.ServerResponse, error: string, description: string) =>
+    sendJson(res, 400, { error, error_description: description });
+
+  const handleAuthorize = async (req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams) => {
+    if (req.method === 'GET') {
+      if (query.get('response_type') !== 'code' || query.get('code_challenge_method') !== 'S256' || !query.get('code_challenge')) {
+        throw new HttpError(400, 'Only the authorization code flow with PKCE (S256) is supported');
+      }
+      parseRedirect(query.get('redirect_uri') || '', clientOrigins, 'redirect_uri');
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(loginPage(query));
+      return;
+    }
+
+    const form = await readForm(req);
+    const email = (form.get('email') || '').trim().toLowerCase();
+    const redirectUri = form.get('redirect_uri') || '';
+    if (!email.includes('@')) {
+      form.delete('email');
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(loginPage(form, 'Email không hợp lệ.'));
+      return;
+    }
+
+    const target = parseRedirect(redirectUri, clientOrigins, 'redirect_uri');
+
+    const code = crypto.randomBytes(24).toString('base64url');
+    codes.set(code, {
+      clientId: form.get('client_id') || '',
+      redirectUri,
+      codeChallenge: form.get('code_challenge') || '',
+      nonce: form.get('nonce') || undefined,
+      scope: form.get('scope') || 'openid',
+      email,
+      name: (form.get('name') || '').trim() || email.split('@')[0],
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    target.searchParams.set('code', code);
+    if (form.get('state')) target.searchParams.set('state', form.get('state')!);
+    target.searchParams.set('iss', issuer);
+    res.writeHead(302, { Location: target.toString() });
+    res.end();
+  };
+
+  const handleToken = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const form = await readForm(req);
+    const grantType = form.get('grant_type');
+
+    if (grantType === 'authorization_code') {
+      const code = codes.get(form.get('code') || '');
+      codes.delete(form.get('code') || ''); // Single use
+      if (!code || code.expiresAt < Date.now()) return tokenError(res, 'invalid_grant', 'Unknown or expired code');
+      if (code.clientId !== form.get('client_id') || code.redirectUri !== form.get('redirect_uri')) {
+        return tokenError(res, 'invalid_grant', 'Client or redirect URI mismatch');
+      }
+      const challenge = crypto.createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+      if (challenge !== code.codeChallenge) return tokenError(res, 'invalid_grant', 'PKCE verification failed');
+
+      const session: Session = {
+        sid: crypto.randomUUID(), clientId: code.clientId, email: code.email, name: code.name, scope: code.scope,
+      };
+      activeSessions.add(session.sid);
+      return sendJson(res, 200, issueTokens(session, code.nonce), { 'Cache-Control': 'no-store' });
+    }
+
+    if (grantType === 'refresh_token') {
+      const token = form.get('refresh_token') || '';
+      const session = refreshTokens.get(token);
+      refreshTokens.delete(token); // Rotation: every refresh token is single use
+      if (!session || !activeSessions.has(session.sid) || session.clientId !== form.get('client_id')) {
+        return tokenError(res, 'invalid_grant', 'Refresh token revoked or unknown');
+      }
+      return sendJson(res, 200, issueTokens(session), { 'Cache-Control': 'no-store' });
+    }
+
+    return tokenError(res, 'unsupported_grant_type', `Unsupported grant type: ${grantType}`);
+  };
+
+  // Revoking either token ends the whole session, including access tokens already issued
+  const handleRevoke = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const form = await readForm(req);
+    const token = form.get('token') || '';
+    const session = refreshTokens.get(token);
+    if (session) {
+      activeSessions.delete(session.sid);
+    } else {
+      try {
+        const claims = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+        if (claims.sid) activeSessions.delete(claims.sid);
+      } catch {
+        // Unknown tokens are ignored, as RFC 7009 requires
+      }
+    }
+    for (const [key, value] of refreshTokens) {
+      if (!activeSessions.has(value.sid)) refreshTokens.delete(key);
+    }
+    res.writeHead(200);
+    res.end();
+  };
+
+  const handleLogout = (res: http.ServerResponse, query: URLSearchParams) => {
+    const redirect = query.get('post_logout_redirect_uri');
+    if (redirect) {
+      res.writeHead(302, { Location: parseRedirect(redirect, clientOrigins, 'post_logout_redirect_uri').toString() });
+      res.end();
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Đã đăng xuất.');
+    }
+  };
+
+  // Routes everything under /idp; returns false for other paths
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    if (!url.pathname.startsWith('/idp')) return false;
+    const path = url.pathname.slice('/idp'.length);
+
+    switch (path) {
+      case '/.well-known/openid-configuration':
+        sendJson(res, 200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          revocation_endpoint: `${issuer}/revoke`,
+          end_session_endpoint: `${issuer}/logout`,
+          response_types_supported: ['code'],
+          grant_types_supported: ['authorization_code', 'refresh_token'],
+          code_challenge_methods_supported: ['S256'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          subject_types_supported: ['public'],
+          scopes_supported: ['openid', 'email', 'profile', 'offline_access'],
+          token_endpoint_auth_methods_supported: ['none'],
+        });
+        break;
+      case '/jwks':
+        sendJson(res, 200, { keys: [jwk] });
+        break;
+      case '/authorize':
+        await handleAuthorize(req, res, url.searchParams);
+        break;
+      case '/token':
+        await handleToken(req, res);
+        break;
+      case '/revoke':
+        await handleRevoke(req, res);
+        break;
+      case '/logout':
+        handleLogout(res, url.searchParams);
+        break;
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+    return true;
+  };
+
+  return {
+    handle,
+    issuer,
+    publicKey,
+    kid,
+    isSessionActive: (sid: string) => activeSessions.has(sid),
+  };
+};
+
+export type MockIdp = ReturnType<typeof createMockIdp>;
@@ -0,0 +1,77 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { streamChat, isChatModel } from './openai';
+import { HttpError } from './http';
+
+// A stand-in OpenAI-compatible server answering chat completions with the events the tests set
+let events: unknown[] = [];
+let status = 200;
+let received: { authorization?: string; body: any } | undefined;
+let server: http.Server;
+
+before(async () => {
+  server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    received = { authorization: req.headers.authorization, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+    if (status !== 200) {
+      res.writeHead(status).end('{"error":{"message":"refused"}}');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.end([...events.map(e => `data: ${JSON.stringify(e)}`), 'data: [DONE]'].join('\n\n') + '\n\n');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.OPENAI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  events = [];
+  status = 200;
+  received = undefined;
+  process.env.OPENAI_API_KEY = 'sk-server';
+  delete process.env.OPENAI_MODEL;
+  delete process.env.OPENAI_TITLE_MODEL;
+});
+
+const collect = async (model = 'gemini-3-flash-preview') => {
+  const chunks = [];
+  for await (const chunk of streamChat({ model, message: [{ text: 'Hi' }] }, new AbortController().signal)) chunks.push(chunk);
+  return chunks;
+};
+
+test('streams the reply and assembles tool calls, with the key of the server', async () => {
+  process.env.OPENAI_MODEL = 'llama3.1';
+  events = [
+    { choices: [{ delta: { content: 'Hel' } }] },
+    { choices: [{ delta: { content: 'lo' } }] },
+    { choices: [{ delta: { tool_calls: [{ index: 0, id: 'c1', function: { name: 'calculate', arguments: '{"expr' } }] } }] },
+    { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ession":"1+1"}' } }] } }] },
+  ];
+  assert.deepEqual(await collect(), [
+    { text: 'Hel' },
+    { text: 'lo' },
+    { functionCalls: [{ id: 'c1', name: 'calculate', args: { expression: '1+1' } }] },
+  ]);
+  assert.equal(received?.authorization, 'Bearer sk-server');
+  assert.equal(received?.body.model, 'llama3.1');
+  assert.deepEqual(received?.body.messages, [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }]);
+});
+
+test('only accepts the models of the app and the title model', () => {
+  assert.equal(isChatModel('gemini-3-flash-preview'), true);
+  assert.equal(isChatModel('gpt-4.5'), false);
+  process.env.OPENAI_TITLE_MODEL = 'gpt-4.1-nano';
+  assert.equal(isChatModel('gpt-4.1-nano'), true);
+});
+
+test('reports a refused key as an upstream failure rather than a sign-in error', async () => {
+  status = 401;
+  await assert.rejects(collect(), (error: any) => error instanceof HttpError && error.status === 502);
+  status = 429;
+  await assert.rejects(collect(), (error: any) => error instanceof HttpError && error.status === 429);
+});
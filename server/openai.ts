@@ -0,0 +1,280 @@
+import { Content, Part } from '@google/genai';
+import { HttpError } from './http';
+import { CHAT_MODELS, ChatChunk, ChatRequest, GenerationSettings, ImageRequest, TranscriptionOptions } from './gemini';
+
+// OpenAI-compatible servers (OpenAI, llama.cpp server, Ollama, LM Studio, vLLM...), behind the same
+// routes as Gemini under /api/openai. The only place their settings and key are read:
+//   OPENAI_BASE_URL  e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+//   OPENAI_API_KEY   optional, most local servers ignore it
+//   OPENAI_MODEL     optional, overrides the k-ite model id (local servers usually serve one model)
+//   OPENAI_TITLE_MODEL  optional, a cheaper model of the server to title chats with
+//   OPENAI_IMAGE_MODEL, OPENAI_TRANSCRIBE_MODEL  optional, for images and transcription
+
+const getBaseUrl = () => (process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1').replace(/\/$/, '');
+
+const getHeaders = (json = true): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (process.env.OPENAI_API_KEY) headers['Authorization'] = `Bearer ${process.env.OPENAI_API_KEY}`;
+  return headers;
+};
+
+// Clients may pick the models the app offers, which OPENAI_MODEL stands in for, and the title model
+export const isChatModel = (model: string) =>
+  CHAT_MODELS.includes(model) || (!!process.env.OPENAI_TITLE_MODEL && model === process.env.OPENAI_TITLE_MODEL);
+
+// The title model is one of the server's own, unlike the k-ite model ids OPENAI_MODEL stands in for
+const resolveModel = (model: string) =>
+  process.env.OPENAI_TITLE_MODEL && model === process.env.OPENAI_TITLE_MODEL ? model : process.env.OPENAI_MODEL || model;
+
+// Errors keep the upstream status, except a refused key: that is the proxy's, not the user's sign-in
+const ensureOk = async (response: Response) => {
+  if (!response.ok) {
+    const body = await response.text();
+    const status = response.status === 401 || response.status === 403 ? 502 : response.status;
+    const retryAfter = response.headers.get('Retry-After');
+    throw new HttpError(status, body || response.statusText, retryAfter ? { 'Retry-After': retryAfter } : {});
+  }
+};
+
+// Request messages of the chat completion API, as far as k-ite uses them
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: OpenAIContentPart[] }
+  | { role: 'assistant'; content: string; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const isTextMimeType = (mimeType: string) =>
+  mimeType.startsWith('text/') || ['application/json', 'application/xml', 'application/x-javascript', 'application/ld+json'].includes(mimeType);
+
+// Convert a single content part into an OpenAI "content part".
+// Images are sent as data URLs; text files are inlined; anything else is described, since
+// chat completion endpoints can't read arbitrary binaries.
+const toContentPart = (part: Part): OpenAIContentPart => {
+  if (part.inlineData) {
+    const { mimeType = '', data = '' } = part.inlineData;
+    if (mimeType.startsWith('image/')) {
+      return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }
+    if (isTextMimeType(mimeType)) {
+      return { type: 'text', text: Buffer.from(data, 'base64').toString('utf8') };
+    }
+    return { type: 'text', text: `[Attachment: ${mimeType}]` };
+  }
+  return { type: 'text', text: part.text || '' };
+};
+
+const toOpenAIMessages = (contents: Content[]) => {
+  const result: OpenAIMessage[] = [];
+
+  for (const content of contents) {
+    const parts = content.parts || [];
+    const functionCalls = parts.filter(p => p.functionCall).map(p => p.functionCall!);
+    const functionResponses = parts.filter(p => p.functionResponse).map(p => p.functionResponse!);
+    const contentParts = parts.filter(p => p.text || p.inlineData).map(toContentPart);
+
+    if (content.role === 'model') {
+      result.push({
+        role: 'assistant',
+        content: contentParts.map(p => p.type === 'text' ? p.text : '').join(''),
+        ...(functionCalls.length > 0 && {
+          tool_calls: functionCalls.map((call, i) => ({
+            id: call.id || `call_${i}`,
+            type: 'function' as const,
+            function: { name: call.name || '', arguments: JSON.stringify(call.args || {}) },
+          })),
+        }),
+      });
+      continue;
+    }
+
+    functionResponses.forEach((response, i) => {
+      result.push({ role: 'tool', tool_call_id: response.id || `call_${i}`, content: JSON.stringify(response.response || {}) });
+    });
+    if (contentParts.length > 0) {
+      result.push({ role: 'user', content: contentParts });
+    }
+  }
+
+  return result;
+};
+
+// Minimal Server-Sent Events reader for `stream: true` responses
+async function* readEventStream(response: Response) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return;
+      yield JSON.parse(payload);
+    }
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Chat completion sampling parameters. top_k is not part of the OpenAI API but llama.cpp, vLLM and
+// Ollama accept it; thinking maps to reasoning_effort, which only reasoning models understand.
+const toSamplingParams = ({ temperature, topP, topK, maxOutputTokens, stopSequences, thinkingLevel }: GenerationSettings = {}) => {
+  const stop = Array.isArray(stopSequences) ? stopSequences.filter(s => typeof s === 'string' && s !== '').slice(0, 4) : [];
+  return {
+    ...(isNumber(temperature) && { temperature }),
+    ...(isNumber(topP) && { top_p: topP }),
+    ...(isNumber(topK) && { top_k: Math.round(topK) }),
+    ...(isNumber(maxOutputTokens) && { max_tokens: Math.round(maxOutputTokens) }),
+    ...(stop.length > 0 && { stop }),
+    ...((thinkingLevel === 'low' || thinkingLevel === 'high') && { reasoning_effort: thinkingLevel }),
+  };
+};
+
+export async function* streamChat(request: ChatRequest, signal: AbortSignal): AsyncGenerator<ChatChunk> {
+  const { model, history, message, systemInstruction, tools, generation } = request;
+  const messages: OpenAIMessage[] = [
+    ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+    ...toOpenAIMessages([...(history || []), { role: 'user', parts: message }]),
+  ];
+
+  const response = await fetch(`${getBaseUrl()}/chat/completions`, {
+    method: 'POST',
+    headers: getHeaders(),
+    signal,
+    body: JSON.stringify({
+      model: resolveModel(model),
+      messages,
+      stream: true,
+      ...toSamplingParams(generation),
+      ...(tools && tools.length > 0 && {
+        tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })),
+      }),
+    }),
+  });
+  await ensureOk(response);
+
+  // Tool calls arrive as fragments indexed by position; arguments are streamed as a JSON string
+  const pendingCalls: { id?: string; name: string; args: string }[] = [];
+
+  for await (const event of readEventStream(response)) {
+    if (event.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new HttpError(400, 'SAFETY: reply blocked (content_filter)');
+    }
+    const delta = event.choices?.[0]?.delta;
+    if (!delta) continue;
+
+    if (delta.content) yield { text: delta.content };
+
+    for (const toolCall of delta.tool_calls || []) {
+      const index = toolCall.index ?? pendingCalls.length;
+      const pending = pendingCalls[index] || (pendingCalls[index] = { name: '', args: '' });
+      if (toolCall.id) pending.id = toolCall.id;
+      if (toolCall.function?.name) pending.name += toolCall.function.name;
+      if (toolCall.function?.arguments) pending.args += toolCall.function.arguments;
+    }
+  }
+
+  const functionCalls = pendingCalls.filter(Boolean).map(call => {
+    let args: Record<string, unknown> = {};
+    try {
+      args = call.args ? JSON.parse(call.args) : {};
+    } catch {
+      // Small local models sometimes emit malformed JSON; call the tool without arguments
+    }
+    return { id: call.id, name: call.name, args };
+  });
+
+  if (functionCalls.length > 0) yield { functionCalls };
+}
+
+// OpenAI image sizes closest to the requested aspect ratio
+const IMAGE_SIZES: Record<string, string> = {
+  '1:1': '1024x1024',
+  '3:4': '1024x1536',
+  '9:16': '1024x1536',
+  '4:3': '1536x1024',
+  '16:9': '1536x1024',
+};
+
+// Source images go to /images/edits as multipart form data, plain prompts to /images/generations
+export const generateImage = async ({ prompt, images = [], aspectRatio, count = 1 }: ImageRequest) => {
+  const size = aspectRatio ? IMAGE_SIZES[aspectRatio] : undefined;
+  let response: Response;
+  if (images.length > 0) {
+    const form = new FormData();
+    if (process.env.OPENAI_IMAGE_MODEL) form.append('model', process.env.OPENAI_IMAGE_MODEL);
+    form.append('prompt', prompt);
+    form.append('n', String(count));
+    if (size) form.append('size', size);
+    images.forEach((image, i) => {
+      const blob = new Blob([Buffer.from(image.data, 'base64')], { type: image.mimeType });
+      form.append(images.length > 1 ? 'image[]' : 'image', blob, `image-${i + 1}.${image.mimeType.split('/')[1] || 'png'}`);
+    });
+    response = await fetch(`${getBaseUrl()}/images/edits`, { method: 'POST', headers: getHeaders(false), body: form });
+  } else {
+    response = await fetch(`${getBaseUrl()}/images/generations`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({
+        model: process.env.OPENAI_IMAGE_MODEL || undefined,
+        prompt,
+        n: count,
+        size,
+        response_format: 'b64_json',
+      }),
+    });
+  }
+  await ensureOk(response);
+
+  const result = await response.json();
+  const data: { b64_json?: string; revised_prompt?: string }[] = result.data || [];
+  return {
+    text: data[0]?.revised_prompt || '',
+    attachments: data.filter(d => d.b64_json).map(d => ({ mimeType: 'image/png', data: d.b64_json! })),
+  };
+};
+
+const formatTimestamp = (seconds: number) =>
+  `[${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(Math.floor(seconds % 60)).padStart(2, '0')}]`;
+
+// Whisper-style endpoints only translate into English; other target languages get the plain transcript
+export const transcribeAudio = async (mimeType: string, data: string, { language, translateTo, timestamps }: TranscriptionOptions = {}) => {
+  const translate = translateTo === 'en';
+  const form = new FormData();
+  form.append('file', new Blob([Buffer.from(data, 'base64')], { type: mimeType }), mimeType === 'audio/wav' ? 'recording.wav' : 'recording.webm');
+  form.append('model', process.env.OPENAI_TRANSCRIBE_MODEL || 'whisper-1');
+  if (language && !translate) form.append('language', language);
+  if (timestamps) form.append('response_format', 'verbose_json');
+
+  const response = await fetch(`${getBaseUrl()}/audio/${translate ? 'translations' : 'transcriptions'}`, {
+    method: 'POST',
+    headers: getHeaders(false),
+    body: form,
+  });
+  await ensureOk(response);
+
+  const result = await response.json();
+  if (timestamps && Array.isArray(result.segments)) {
+    const lines = result.segments.map((s: { start: number; text: string }) => `${formatTimestamp(s.start)} ${s.text.trim()}`);
+    return { text: lines.join('\n') };
+  }
+  return { text: result.text || '' };
+};
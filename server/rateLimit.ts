@@ -0,0 +1,54 @@
+// In-memory token bucket rate limiter, one bucket per user key.
+// Good enough for a single proxy instance; buckets reset when the process restarts.
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export const createRateLimiter = (capacity: number, refillPerMinute: number) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60_000;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  // Drop buckets that have been idle long enough to be full again
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= capacity) buckets.delete(key);
+    }
+  }, 60_000);
+  cleanup.unref();
+
+  const take = (key: string, cost = 1): RateLimitResult => {
+    const now = Date.now();
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: capacity, updatedAt: now };
+      buckets.set(key, bucket);
+    }
+    refill(bucket, now);
+
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.ceil((cost - bucket.tokens) / refillPerMs / 1000),
+    };
+  };
+
+  return { take };
+};
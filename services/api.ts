@@ -0,0 +1,60 @@
+import { getAccessToken } from './auth';
+import { createApiError } from './apiError';
+
+// Thin client for the k-ite API proxy (see server/index.ts).
+// The base URL is KITE_API_URL at build time; in development Vite proxies /api to the local server.
+
+const getApiUrl = () => (process.env.KITE_API_URL || '/api').replace(/\/$/, '');
+
+// Errors are thrown as ApiErrors, classified by status code and message
+const toError = async (response: Response) => {
+  let message = response.statusText;
+  try {
+    const body = await response.json();
+    message = body.error?.message || message;
+  } catch {
+    // Not a JSON error body
+  }
+  return createApiError(response.status, message, response.headers.get('Retry-After'));
+};
+
+export const apiFetch = async (path: string, body: unknown, signal?: AbortSignal) => {
+  const accessToken = await getAccessToken();
+  const response = await fetch(`${getApiUrl()}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken && { 'Authorization': `Bearer ${accessToken}` }),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await toError(response);
+  }
+  return response;
+};
+
+// Reads a newline-delimited JSON stream. A line carrying `error` aborts the stream with that error.
+export async function* readJsonLines<T>(response: Response): AsyncGenerator<T> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (value) buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const parsed = JSON.parse(line);
+      if (parsed.error) throw createApiError(parsed.error.status || 500, parsed.error.message || '');
+      yield parsed as T;
+    }
+
+    if (done) return;
+  }
+}
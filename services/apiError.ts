@@ -0,0 +1,85 @@
+import { ApiErrorKind } from '../types';
+import { MessageKey } from './i18n';
+
+// Errors from the API proxy and the providers, sorted into the few kinds the UI treats differently.
+// Rate limits, network failures and server errors are retried with exponential backoff; the others
+// need the user (or the prompt) to change first.
+
+export class ApiError extends Error {
+  constructor(public kind: ApiErrorKind, message: string, public status?: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const RETRYABLE: ApiErrorKind[] = ['rateLimit', 'network', 'server'];
+export const MAX_AUTO_RETRIES = 3;
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 60_000; // A longer Retry-After is left to the user
+
+export const ERROR_MESSAGES: Record<ApiErrorKind, MessageKey> = {
+  rateLimit: 'error.rateLimited',
+  quota: 'error.quota',
+  safety: 'error.safety',
+  network: 'error.network',
+  invalidRequest: 'error.invalidRequest',
+  auth: 'error.auth',
+  server: 'error.generic',
+};
+
+// Gemini reports both per-minute and per-day limits as 429 RESOURCE_EXHAUSTED; only the daily
+// (or billing) ones are a used-up quota rather than a reason to slow down
+const isQuotaMessage = (message: string) => /PerDay|per day|daily|insufficient_quota|billing/i.test(message) && !/PerMinute|per minute/i.test(message);
+const isSafetyMessage = (message: string) => /^SAFETY\b|PROHIBITED_CONTENT|BLOCKLIST|content_filter/.test(message);
+
+const kindFromStatus = (status: number, message: string): ApiErrorKind => {
+  if (isSafetyMessage(message)) return 'safety';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return isQuotaMessage(message) ? 'quota' : 'rateLimit';
+  if (status === 402) return 'quota';
+  if (status === 408 || status === 502 || status === 503 || status === 504) return 'network';
+  if (status >= 400 && status < 500) return 'invalidRequest';
+  return 'server';
+};
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini puts its own hint in the error details, e.g. "retryDelay": "27s"
+const parseRetryDelay = (message: string) => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+export const createApiError = (status: number, message: string, retryAfter?: string | null) =>
+  new ApiError(kindFromStatus(status, message), message, status, parseRetryAfter(retryAfter) ?? parseRetryDelay(message));
+
+// Anything thrown while talking to a model, as an ApiError
+export const toApiError = (error: any): ApiError => {
+  if (error instanceof ApiError) return error;
+  // fetch rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new ApiError('network', error?.message || 'Network error');
+  }
+  const status = Number(error?.status ?? error?.code);
+  const message = String(error?.message ?? '');
+  if (Number.isInteger(status) && status > 0) return createApiError(status, message, error.retryAfter);
+  return new ApiError(isSafetyMessage(message) ? 'safety' : 'server', message || 'Unknown error');
+};
+
+export const isRetryable = (error: ApiError) => RETRYABLE.includes(error.kind);
+
+// Milliseconds to wait before retry number `attempt` (0-based), or null when it shouldn't be retried
+// automatically. The random half keeps clients that failed together from retrying together.
+export const getRetryDelay = (error: ApiError, attempt: number): number | null => {
+  if (!isRetryable(error) || attempt >= MAX_AUTO_RETRIES) return null;
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs <= MAX_DELAY_MS ? error.retryAfterMs : null;
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
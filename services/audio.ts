@@ -0,0 +1,103 @@
+// Audio helpers for voice input: decoding a recording to mono samples, energy-based speech
+// detection, splitting long recordings at pauses, and WAV encoding.
+
+export const ANALYSIS_RATE = 16_000; // Plenty for speech, and keeps re-encoded chunks small
+
+const FRAME_SECONDS = 0.03;
+const MIN_THRESHOLD = 0.01; // RMS below this is silence whatever the noise floor
+const MAX_THRESHOLD = 0.04; // Above this is speech, even in a clip with no pause to measure the noise in
+const THRESHOLD_RATIO = 3; // Speech is this many times louder than the noise floor
+const MIN_VOICED_SECONDS = 0.25; // Less than this above the threshold is a click or a breath
+
+// Wraps 16-bit mono PCM in a WAV header
+export const pcmToWav = (pcm: Uint8Array, sampleRate: number): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => [...value].forEach((c, i) => header.setUint8(offset + i, c.charCodeAt(0)));
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // PCM chunk size
+  header.setUint16(20, 1, true); // Format: PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true); // Block align
+  header.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, pcm.length, true);
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+export const encodeWav = (samples: Float32Array, sampleRate = ANALYSIS_RATE): Blob => {
+  const pcm = new DataView(new ArrayBuffer(samples.length * 2));
+  samples.forEach((sample, i) => pcm.setInt16(i * 2, Math.max(-1, Math.min(1, sample)) * 0x7fff, true));
+  return pcmToWav(new Uint8Array(pcm.buffer), sampleRate);
+};
+
+// Mono samples at ANALYSIS_RATE; decodeAudioData resamples to the context's rate
+export const decodeAudio = async (blob: Blob): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_RATE);
+  const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mixed = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    buffer.getChannelData(channel).forEach((sample, i) => { mixed[i] += sample / buffer.numberOfChannels; });
+  }
+  return mixed;
+};
+
+// RMS of each 30 ms frame
+const frameLevels = (samples: Float32Array, sampleRate: number) => {
+  const frameLength = Math.round(sampleRate * FRAME_SECONDS);
+  const levels: number[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += frameLength) {
+    let sum = 0;
+    for (let i = start; i < start + frameLength; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / frameLength));
+  }
+  return levels;
+};
+
+// Level above which a frame is speech. The quietest tenth of the frames is taken as the background noise.
+export const getSpeechThreshold = (samples: Float32Array, sampleRate = ANALYSIS_RATE) => {
+  const sorted = frameLevels(samples, sampleRate).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+  return Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, noiseFloor * THRESHOLD_RATIO));
+};
+
+// False for silence, hum and clicks, so they never reach the transcription API. Pieces of a longer
+// recording should be given the threshold of the whole, as a piece may have no pause to measure.
+export const hasSpeech = (samples: Float32Array, threshold = getSpeechThreshold(samples), sampleRate = ANALYSIS_RATE) => {
+  const levels = frameLevels(samples, sampleRate);
+  const voiced = levels.filter(level => level > threshold).length;
+  return voiced * FRAME_SECONDS >= MIN_VOICED_SECONDS;
+};
+
+export interface AudioChunk {
+  start: number; // Seconds from the start of the recording
+  samples: Float32Array;
+}
+
+// Pieces of at most `maxSeconds`, each cut at the quietest moment of its last quarter so words stay whole
+export const splitAtPauses = (samples: Float32Array, maxSeconds: number, sampleRate = ANALYSIS_RATE): AudioChunk[] => {
+  const levels = frameLevels(samples, sampleRate);
+  const frameLength = Math.round(sampleRate * FRAME_SECONDS);
+  const maxFrames = Math.floor(maxSeconds / FRAME_SECONDS);
+  const chunks: AudioChunk[] = [];
+
+  let startFrame = 0;
+  while (startFrame < levels.length) {
+    let endFrame = levels.length;
+    if (levels.length - startFrame > maxFrames) {
+      endFrame = startFrame + maxFrames;
+      for (let frame = startFrame + maxFrames - 1; frame >= startFrame + Math.floor(maxFrames * 0.75); frame--) {
+        if (levels[frame] < levels[endFrame - 1]) endFrame = frame + 1;
+      }
+    }
+    const end = endFrame === levels.length ? samples.length : endFrame * frameLength;
+    chunks.push({ start: (startFrame * frameLength) / sampleRate, samples: samples.subarray(startFrame * frameLength, end) });
+    startFrame = endFrame;
+  }
+  return chunks;
+};
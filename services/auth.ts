@@ -0,0 +1,361 @@
+// OpenID Connect client: Authorization Code flow with PKCE, for any standards-compliant identity provider.
+// Configured at build time (see vite.config.ts):
+//   OIDC_ISSUER     issuer URL; defaults to the mock IdP served by the API proxy at <origin>/idp
+//   OIDC_CLIENT_ID  default 'kite-web'
+//   OIDC_SCOPE      default 'openid email profile offline_access'
+//   OIDC_AUDIENCE   optional, for providers that need it to issue JWT access tokens (e.g. Auth0)
+
+export interface AuthUser {
+  sub: string;
+  email: string;
+  name?: string;
+  picture?: string;
+}
+
+interface StoredTokens {
+  accessToken: string;
+  idToken: string;
+  refreshToken?: string;
+  expiresAt: number; // ms epoch, access token expiry
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  revocation_endpoint?: string;
+  end_session_endpoint?: string;
+}
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+const TOKENS_KEY = 'kite_auth_tokens';
+const PENDING_KEY = 'kite_auth_pending';
+const CLOCK_SKEW_SECONDS = 60;
+const REFRESH_MARGIN_MS = 60_000;
+
+const getIssuer = () => (process.env.OIDC_ISSUER || `${window.location.origin}/idp`).replace(/\/$/, '');
+const getClientId = () => process.env.OIDC_CLIENT_ID || 'kite-web';
+const getScope = () => process.env.OIDC_SCOPE || 'openid email profile offline_access';
+const getRedirectUri = () => `${window.location.origin}${window.location.pathname}`;
+
+// --- Encoding helpers ---
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const randomString = (byteLength = 32) => base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const sha256 = async (value: string) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+
+// --- Discovery ---
+
+// The identity provider could not be reached: no network, a server error, or (offline) a response the
+// service worker has no copy of. Unlike a failed validation, this is no reason to sign the user out.
+class ProviderUnreachableError extends Error {}
+
+const fetchFromProvider = async (url: string, init?: RequestInit) => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error: any) {
+    throw new ProviderUnreachableError(error?.message || `Could not reach ${url}`);
+  }
+  if (response.status >= 500) throw new ProviderUnreachableError(`${url} failed (${response.status})`);
+  return response;
+};
+
+let metadataPromise: Promise<ProviderMetadata> | null = null;
+
+const getMetadata = () => {
+  if (!metadataPromise) {
+    metadataPromise = fetchFromProvider(`${getIssuer()}/.well-known/openid-configuration`)
+      .then(response => {
+        if (!response.ok) throw new Error(`OIDC discovery failed (${response.status})`);
+        return response.json();
+      })
+      .catch(error => {
+        metadataPromise = null; // Allow retrying discovery later
+        throw error;
+      });
+  }
+  return metadataPromise;
+};
+
+// --- ID token verification ---
+
+let jwksCache: { keys: JsonWebKey[] } | null = null;
+
+const getSigningKey = async (kid: string | undefined, jwksUri: string, forceReload = false) => {
+  if (!jwksCache || forceReload) {
+    const response = await fetchFromProvider(jwksUri);
+    if (!response.ok) throw new Error(`Failed to load signing keys (${response.status})`);
+    jwksCache = await response.json();
+  }
+  const keys = jwksCache!.keys as (JsonWebKey & { kid?: string })[];
+  const jwk = kid ? keys.find(k => k.kid === kid) : keys[0];
+  if (!jwk) {
+    // Keys may have been rotated since they were cached
+    if (!forceReload) return getSigningKey(kid, jwksUri, true);
+    throw new Error('Unknown signing key');
+  }
+  return crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+};
+
+const decodeClaims = (encodedPayload: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload)));
+
+const toUser = (claims: Record<string, any>): AuthUser =>
+  ({ sub: claims.sub, email: claims.email, name: claims.name, picture: claims.picture });
+
+const verifyIdToken = async (idToken: string, expectedNonce?: string, allowExpired = false): Promise<AuthUser> => {
+  const metadata = await getMetadata();
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) throw new Error('Malformed ID token');
+
+  const header = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedHeader)));
+  if (header.alg !== 'RS256') throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+
+  const key = await getSigningKey(header.kid, metadata.jwks_uri);
+  const isValid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    base64UrlDecode(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  );
+  if (!isValid) throw new Error('Invalid ID token signature');
+
+  const claims = decodeClaims(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== metadata.issuer) throw new Error('ID token issuer mismatch');
+  if (!audiences.includes(getClientId())) throw new Error('ID token audience mismatch');
+  if (!allowExpired && claims.exp < now - CLOCK_SKEW_SECONDS) throw new Error('ID token expired');
+  if (expectedNonce !== undefined && claims.nonce !== expectedNonce) throw new Error('ID token nonce mismatch');
+  if (!claims.email) throw new Error('ID token has no email claim');
+
+  return toUser(claims);
+};
+
+// --- Token storage & change notifications ---
+
+type AuthListener = (user: AuthUser | null) => void;
+const listeners = new Set<AuthListener>();
+
+export const onAuthChange = (listener: AuthListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notify = (user: AuthUser | null) => listeners.forEach(listener => listener(user));
+
+const loadTokens = (): StoredTokens | null => {
+  try {
+    const stored = localStorage.getItem(TOKENS_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveTokens = (tokens: StoredTokens | null) => {
+  if (tokens) {
+    localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+  } else {
+    localStorage.removeItem(TOKENS_KEY);
+  }
+};
+
+const requestTokens = async (params: Record<string, string>) => {
+  const metadata = await getMetadata();
+  const response = await fetchFromProvider(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ client_id: getClientId(), ...params }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error_description || body.error || `Token request failed (${response.status})`);
+  }
+  return body as { access_token: string; id_token?: string; refresh_token?: string; expires_in?: number };
+};
+
+// --- Public API ---
+
+export const login = async () => {
+  const metadata = await getMetadata();
+  const pending: PendingLogin = {
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier: randomString(48),
+    redirectUri: getRedirectUri(),
+  };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: getClientId(),
+    redirect_uri: pending.redirectUri,
+    scope: getScope(),
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: base64UrlEncode(await sha256(pending.codeVerifier)),
+    code_challenge_method: 'S256',
+    ...(process.env.OIDC_AUDIENCE && { audience: process.env.OIDC_AUDIENCE }),
+  });
+  window.location.assign(`${metadata.authorization_endpoint}?${params}`);
+};
+
+// Completes a login if the page was opened by the IdP's redirect. Returns null when there is nothing to handle.
+export const handleRedirectCallback = async (): Promise<AuthUser | null> => {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  const error = url.searchParams.get('error');
+  if (!code && !error) return null;
+
+  // Remove the one-time parameters from the address bar whatever happens next
+  ['code', 'state', 'error', 'error_description', 'iss', 'session_state'].forEach(p => url.searchParams.delete(p));
+  window.history.replaceState(null, '', url.toString());
+
+  const pending: PendingLogin | null = JSON.parse(sessionStorage.getItem(PENDING_KEY) || 'null');
+  sessionStorage.removeItem(PENDING_KEY);
+
+  if (error) throw new Error(error);
+  if (!pending || pending.state !== state) throw new Error('Login state mismatch');
+
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    code: code!,
+    redirect_uri: pending.redirectUri,
+    code_verifier: pending.codeVerifier,
+  });
+  if (!tokens.id_token) throw new Error('Identity provider did not return an ID token');
+
+  const user = await verifyIdToken(tokens.id_token, pending.nonce);
+  saveTokens({
+    accessToken: tokens.access_token,
+    idToken: tokens.id_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: Date.now() + (tokens.expires_in || 300) * 1000,
+  });
+  notify(user);
+  return user;
+};
+
+let refreshPromise: Promise<StoredTokens> | null = null;
+
+const refreshTokens = (current: StoredTokens) => {
+  // Concurrent callers share one refresh, refresh tokens may be single-use
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      if (!current.refreshToken) throw new Error('Session expired');
+      const tokens = await requestTokens({ grant_type: 'refresh_token', refresh_token: current.refreshToken });
+      const idToken = tokens.id_token || current.idToken;
+      if (tokens.id_token) await verifyIdToken(tokens.id_token, undefined);
+
+      const next: StoredTokens = {
+        accessToken: tokens.access_token,
+        idToken,
+        refreshToken: tokens.refresh_token || current.refreshToken,
+        expiresAt: Date.now() + (tokens.expires_in || 300) * 1000,
+      };
+      saveTokens(next);
+      return next;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Restores the user from stored tokens, refreshing them if the access token has expired.
+// When the identity provider can't be reached (e.g. offline), the tokens are kept as they are and the
+// user is taken from the stored ID token, verified when it was saved, so past sessions can still be
+// browsed; they are refreshed later. Only a token that fails validation signs the user out.
+export const restoreSession = async (): Promise<AuthUser | null> => {
+  const tokens = loadTokens();
+  if (!tokens) return null;
+
+  try {
+    const isExpired = tokens.expiresAt - REFRESH_MARGIN_MS < Date.now();
+    const current = isExpired && navigator.onLine ? await refreshTokens(tokens) : tokens;
+    return await verifyIdToken(current.idToken, undefined, true);
+  } catch (e) {
+    if (e instanceof ProviderUnreachableError) {
+      console.warn('Identity provider unreachable, restoring the stored session', e);
+      try {
+        const user = toUser(decodeClaims(tokens.idToken.split('.')[1]));
+        if (user.email) return user;
+      } catch {
+        // Unreadable, handled as invalid below
+      }
+    }
+    console.error('Failed to restore session', e);
+    saveTokens(null);
+    return null;
+  }
+};
+
+export const getAccessTokenExpiry = () => loadTokens()?.expiresAt ?? null;
+
+export const getAccessToken = async (): Promise<string | null> => {
+  const tokens = loadTokens();
+  if (!tokens) return null;
+  if (tokens.expiresAt - REFRESH_MARGIN_MS > Date.now()) return tokens.accessToken;
+
+  try {
+    return (await refreshTokens(tokens)).accessToken;
+  } catch (e) {
+    console.error('Token refresh failed', e);
+    if (e instanceof ProviderUnreachableError || !navigator.onLine) return null; // Not signed out, just unreachable
+    saveTokens(null);
+    notify(null);
+    return null;
+  }
+};
+
+// Revokes the session at the IdP, then clears local tokens and ends the IdP session if supported
+export const logout = async () => {
+  const tokens = loadTokens();
+  saveTokens(null);
+  notify(null);
+  if (!tokens) return;
+
+  try {
+    const metadata = await getMetadata();
+    if (metadata.revocation_endpoint) {
+      const revoke = (token: string, hint: string) => fetch(metadata.revocation_endpoint!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ client_id: getClientId(), token, token_type_hint: hint }),
+      });
+      await Promise.all([
+        tokens.refreshToken ? revoke(tokens.refreshToken, 'refresh_token') : null,
+        revoke(tokens.accessToken, 'access_token'),
+      ]);
+    }
+    if (metadata.end_session_endpoint) {
+      const params = new URLSearchParams({
+        client_id: getClientId(),
+        id_token_hint: tokens.idToken,
+        post_logout_redirect_uri: getRedirectUri(),
+      });
+      window.location.assign(`${metadata.end_session_endpoint}?${params}`);
+    }
+  } catch (e) {
+    console.error('Failed to revoke session', e);
+  }
+};
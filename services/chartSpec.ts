@@ -0,0 +1,150 @@
+import { t } from './i18n';
+
+// Charts in replies: a fenced `chart` block holding a small Vega-Lite-like JSON spec, e.g.
+//
+//   { "mark": "bar", "title": "Sales",
+//     "data": { "values": [{ "month": "Jan", "sales": 12 }, { "month": "Feb", "sales": 18 }] },
+//     "encoding": { "x": { "field": "month" }, "y": { "field": "sales" }, "color": { "field": "region" } } }
+//
+// Marks are bar, line and pie (or Vega-Lite's "arc", with `theta` for the value and `color` for the
+// slices). `color` on a bar or line chart splits it into series. The spec is turned into a table of
+// categories × series that components/ChartView.tsx draws.
+
+export type ChartMark = 'bar' | 'line' | 'pie';
+
+export interface ChartSeries {
+  name: string;
+  values: (number | null)[]; // One per category; null where the data has no value
+}
+
+export interface Chart {
+  mark: ChartMark;
+  title?: string;
+  categories: string[];
+  series: ChartSeries[];
+  xTitle?: string;
+  yTitle?: string;
+}
+
+export const CHART_LANGUAGES = ['chart', 'vega-lite', 'vegalite'];
+
+const MAX_CATEGORIES = 200;
+const MAX_SERIES = 12;
+
+const MARKS: Record<string, ChartMark> = { bar: 'bar', line: 'line', pie: 'pie', arc: 'pie' };
+
+interface Channel {
+  field: string;
+  title?: string;
+}
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readChannel = (encoding: Record<string, any>, name: string): Channel | undefined => {
+  const channel = encoding[name];
+  if (typeof channel === 'string') return { field: channel }; // Shorthand: "x": "month"
+  if (!isObject(channel) || typeof channel.field !== 'string') return undefined;
+  return { field: channel.field, ...(typeof channel.title === 'string' && { title: channel.title }) };
+};
+
+const requireChannel = (encoding: Record<string, any>, ...names: string[]): Channel => {
+  for (const name of names) {
+    const channel = readChannel(encoding, name);
+    if (channel) return channel;
+  }
+  throw new Error(t('chart.missingField', { channel: names[0] }));
+};
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+};
+
+// Rows with the same category (and series) are added up, as Vega-Lite's implicit sum would
+const tabulate = (rows: Record<string, unknown>[], category: string, value: string, seriesField?: string, defaultSeries = value) => {
+  const categories: string[] = [];
+  const seriesNames: string[] = [];
+  const cells = new Map<string, number>();
+
+  for (const row of rows) {
+    if (row[category] === undefined || row[category] === null) continue;
+    const label = String(row[category]);
+    const name = seriesField ? String(row[seriesField] ?? '') : defaultSeries;
+    const number = toNumber(row[value]);
+    if (!categories.includes(label)) categories.push(label);
+    if (!seriesNames.includes(name)) seriesNames.push(name);
+    if (number === null) continue;
+    const key = `${label}\u0000${name}`;
+    cells.set(key, (cells.get(key) || 0) + number);
+  }
+
+  if (categories.length === 0) throw new Error(t('chart.noData'));
+  if (categories.length > MAX_CATEGORIES || seriesNames.length > MAX_SERIES) throw new Error(t('chart.tooMuchData'));
+
+  return {
+    categories,
+    series: seriesNames.map(name => ({
+      name,
+      values: categories.map(label => cells.get(`${label}\u0000${name}`) ?? null),
+    })),
+  };
+};
+
+export const parseChartSpec = (source: string): Chart => {
+  let spec: unknown;
+  try {
+    spec = JSON.parse(source);
+  } catch {
+    throw new Error(t('chart.invalidJson'));
+  }
+  if (!isObject(spec)) throw new Error(t('chart.invalidJson'));
+
+  const markName = typeof spec.mark === 'string' ? spec.mark : spec.mark?.type;
+  const mark = MARKS[String(markName).toLowerCase()];
+  if (!mark) throw new Error(t('chart.unsupportedMark', { mark: String(markName ?? '') }));
+
+  const rows = Array.isArray(spec.data) ? spec.data : spec.data?.values;
+  if (!Array.isArray(rows) || rows.length === 0) throw new Error(t('chart.noData'));
+  const records = rows.filter(isObject);
+
+  const encoding = isObject(spec.encoding) ? spec.encoding : {};
+  const title = typeof spec.title === 'string' ? spec.title : typeof spec.title?.text === 'string' ? spec.title.text : undefined;
+
+  if (mark === 'pie') {
+    const value = requireChannel(encoding, 'theta', 'y');
+    const slice = requireChannel(encoding, 'color', 'x');
+    const table = tabulate(records, slice.field, value.field, undefined, value.title || value.field);
+    // Negative slices can't be drawn
+    table.series[0].values = table.series[0].values.map(v => v !== null && v > 0 ? v : null);
+    return { mark, title, ...table };
+  }
+
+  const x = requireChannel(encoding, 'x');
+  const y = requireChannel(encoding, 'y');
+  const color = readChannel(encoding, 'color');
+  return {
+    mark,
+    title,
+    ...tabulate(records, x.field, y.field, color?.field, y.title || y.field),
+    xTitle: x.title || x.field,
+    yTitle: y.title || y.field,
+  };
+};
+
+// Round tick values covering [min, max], about `count` of them
+export const niceTicks = (min: number, max: number, count = 5): number[] => {
+  if (min === max) {
+    if (max === 0) return [0, 1];
+    min = Math.min(0, min);
+    max = Math.max(0, max);
+  }
+  const rawStep = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) || 10 * magnitude;
+  const ticks: number[] = [];
+  for (let tick = Math.floor(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  if (ticks[ticks.length - 1] < max) ticks.push(Number((ticks[ticks.length - 1] + step).toPrecision(12)));
+  return ticks;
+};
@@ -0,0 +1,124 @@
+import { t } from './i18n';
+
+// Runs JavaScript, TypeScript and Python code blocks in a Web Worker (services/codeRunner.worker.ts),
+// away from the page and its storage. JavaScript gets a fresh worker per run; Python keeps one
+// alive because loading Pyodide takes seconds, and it is only replaced after a timeout or a stop.
+
+export type RunnableLanguage = 'javascript' | 'typescript' | 'python';
+
+const LANGUAGE_ALIASES: Record<string, RunnableLanguage> = {
+  js: 'javascript', javascript: 'javascript', mjs: 'javascript',
+  ts: 'typescript', typescript: 'typescript',
+  py: 'python', python: 'python', python3: 'python',
+};
+
+// The runnable language of a fenced block's language tag, if any
+export const getRunnableLanguage = (tag: string): RunnableLanguage | null => LANGUAGE_ALIASES[tag.toLowerCase()] || null;
+
+export const RUN_TIMEOUT_MS = 10_000; // Counted from when the code starts, not while Pyodide loads
+const MAX_OUTPUT_CHARS = 50_000; // A runaway print loop is stopped rather than filling the page
+
+export interface RunOutput {
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+export interface RunResult {
+  output: RunOutput[];
+  error?: string; // Uncaught exception, or why the run was stopped
+  timedOut?: boolean;
+  durationMs: number;
+}
+
+// Protocol with the worker
+export interface WorkerRequest {
+  language: RunnableLanguage;
+  code: string;
+  pyodideUrl: string;
+}
+
+export type WorkerMessage =
+  | { type: 'started' }
+  | { type: 'output'; stream: 'stdout' | 'stderr'; text: string }
+  | { type: 'done'; error?: string };
+
+const createWorker = () => new Worker(new URL('./codeRunner.worker.ts', import.meta.url), { type: 'module' });
+
+let pythonWorker: Worker | null = null;
+// Python runs share a worker, so they wait for each other
+let pythonQueue: Promise<unknown> = Promise.resolve();
+
+interface RunOptions {
+  signal?: AbortSignal;
+  onStart?: () => void; // The code itself starts, once Pyodide or the TypeScript compiler has loaded
+  onOutput?: (output: RunOutput) => void; // Called as the code prints
+  timeoutMs?: number;
+}
+
+const execute = (language: RunnableLanguage, code: string, { signal, onStart, onOutput, timeoutMs = RUN_TIMEOUT_MS }: RunOptions) =>
+  new Promise<RunResult>(resolve => {
+    const isPython = language === 'python';
+    const worker = isPython ? (pythonWorker ??= createWorker()) : createWorker();
+    const output: RunOutput[] = [];
+    let outputChars = 0;
+    let startedAt = performance.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (result: Omit<RunResult, 'output' | 'durationMs'>, keepWorker: boolean) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.onmessage = worker.onerror = null;
+      if (!keepWorker) {
+        worker.terminate();
+        if (worker === pythonWorker) pythonWorker = null;
+      }
+      resolve({ ...result, output, durationMs: Math.round(performance.now() - startedAt) });
+    };
+
+    const onAbort = () => finish({ error: t('code.stopped') }, false);
+    if (signal?.aborted) return finish({ error: t('code.stopped') }, false);
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = ({ data }: MessageEvent<WorkerMessage>) => {
+      if (data.type === 'started') {
+        startedAt = performance.now();
+        timer = setTimeout(() => finish({ error: t('code.timedOut', { seconds: timeoutMs / 1000 }), timedOut: true }, false), timeoutMs);
+        onStart?.();
+      } else if (data.type === 'output') {
+        const entry = { stream: data.stream, text: data.text };
+        output.push(entry);
+        onOutput?.(entry);
+        outputChars += data.text.length;
+        if (outputChars > MAX_OUTPUT_CHARS) finish({ error: t('code.outputLimit') }, false);
+      } else {
+        finish({ error: data.error }, isPython);
+      }
+    };
+    // Load failures, e.g. a missing Pyodide asset
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish({ error: event.message || t('code.startFailed') }, false);
+    };
+
+    worker.postMessage({ language, code, pyodideUrl: process.env.PYODIDE_URL || '/pyodide/' } satisfies WorkerRequest);
+  });
+
+export const runCode = (language: RunnableLanguage, code: string, options: RunOptions = {}): Promise<RunResult> => {
+  if (language !== 'python') return execute(language, code, options);
+  const run = pythonQueue.then(() => execute(language, code, options));
+  pythonQueue = run;
+  return run;
+};
+
+// The run as a message to the model, to continue from its output
+export const formatRunResult = (language: RunnableLanguage, code: string, result: RunResult) => {
+  const stdout = result.output.filter(o => o.stream === 'stdout').map(o => o.text).join('');
+  const stderr = [...result.output.filter(o => o.stream === 'stderr').map(o => o.text), result.error ? result.error + '\n' : ''].join('');
+  const fence = language === 'python' ? 'python' : language === 'typescript' ? 'ts' : 'js';
+  return [
+    `${t('code.followUp')}\n\`\`\`${fence}\n${code.trimEnd()}\n\`\`\``,
+    stdout && `stdout:\n\`\`\`\n${stdout.trimEnd()}\n\`\`\``,
+    stderr && `stderr:\n\`\`\`\n${stderr.trimEnd()}\n\`\`\``,
+    !stdout && !stderr && t('code.followUpNoOutput'),
+  ].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,138 @@
+import type { PyodideAPI } from 'pyodide';
+import type { RunnableLanguage, WorkerRequest, WorkerMessage } from './codeRunner';
+
+// Runs one code block for services/codeRunner.ts. The worker shares the app's origin, so before any
+// user code runs it loses everything that origin would give it: the storage APIs (which hold the
+// chat history), nested workers (which would start with those APIs intact) and the network, apart
+// from Pyodide's own files. They are removed from the prototypes too, where the getters would still
+// be reachable. Dynamic import() can't be taken away and can still load scripts, but nothing left
+// in the worker is worth sending anywhere: it only ever sees the code it is asked to run.
+
+const scope = self as any;
+
+const BLOCKED_GLOBALS = [
+  'indexedDB', 'caches', 'BroadcastChannel', 'importScripts',
+  'Worker', 'SharedWorker',
+  'XMLHttpRequest', 'WebSocket', 'WebSocketStream', 'EventSource', 'WebTransport',
+];
+const BLOCKED_NAVIGATOR = ['storage', 'locks', 'serviceWorker'];
+
+// Removes a property from an object and everything it inherits from, then pins it to `value`.
+// Throws if that didn't work, so the worker fails to start rather than run code unconfined.
+const replaceEverywhere = (target: any, name: string, value?: unknown) => {
+  for (let object = target; object; object = Object.getPrototypeOf(object)) {
+    if (Object.hasOwn(object, name)) delete object[name];
+  }
+  try {
+    Object.defineProperty(target, name, { value, configurable: false, writable: false });
+  } catch {
+    // Checked below
+  }
+  if (target[name] !== value) throw new Error(`Could not remove ${name} from the code runner`);
+};
+
+// fetch stays, for Pyodide, but only reaches the Pyodide directory; the original is kept out of reach
+const nativeFetch = scope.fetch.bind(scope);
+let pyodideRoot: string | null = null;
+const guardedFetch = (input: RequestInfo | URL, init?: RequestInit) => {
+  const url = new URL(input instanceof Request ? input.url : String(input), scope.location.href).href;
+  if (!pyodideRoot || !url.startsWith(pyodideRoot)) return Promise.reject(new TypeError('Network access is disabled in the code runner'));
+  return nativeFetch(input, init);
+};
+
+for (const name of BLOCKED_GLOBALS) replaceEverywhere(scope, name);
+for (const name of BLOCKED_NAVIGATOR) replaceEverywhere(scope.navigator, name);
+replaceEverywhere(scope, 'fetch', guardedFetch);
+
+const post = (message: WorkerMessage) => scope.postMessage(message);
+
+const format = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || String(value);
+  if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return String(value);
+  try {
+    return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? `${v}n` : v, 2) ?? String(value);
+  } catch {
+    return String(value); // Circular structures
+  }
+};
+
+const write = (stream: 'stdout' | 'stderr', args: unknown[]) =>
+  post({ type: 'output', stream, text: args.map(format).join(' ') + '\n' });
+
+console.log = console.info = console.debug = (...args) => write('stdout', args);
+console.warn = console.error = (...args) => write('stderr', args);
+
+// Top-level await is allowed, as in a module or the browser console
+const AsyncFunction = (async () => {}).constructor as new (body: string) => () => Promise<unknown>;
+
+const runJavaScript = async (code: string) => {
+  const run = new AsyncFunction(code);
+  post({ type: 'started' });
+  await run();
+};
+
+// The compiler is several megabytes, so it is only downloaded, from the CDN, the first time a
+// TypeScript block runs; the service worker keeps it for offline use from then on
+const TYPESCRIPT_URL = 'https://cdn.jsdelivr.net/npm/typescript@5.8.3/+esm';
+
+const runTypeScript = async (code: string) => {
+  const module = await import(/* @vite-ignore */ TYPESCRIPT_URL);
+  const ts: typeof import('typescript') = module.default ?? module;
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+  });
+  await runJavaScript(outputText);
+};
+
+let pyodide: Promise<PyodideAPI> | null = null;
+
+const loadPython = (indexURL: string) => {
+  pyodide ??= (async () => {
+    const { loadPyodide } = await import(/* @vite-ignore */ `${indexURL}pyodide.mjs`);
+    const instance: PyodideAPI = await loadPyodide({ indexURL });
+    instance.setStdout({ batched: text => post({ type: 'output', stream: 'stdout', text: text + '\n' }) });
+    instance.setStderr({ batched: text => post({ type: 'output', stream: 'stderr', text: text + '\n' }) });
+    return instance;
+  })();
+  return pyodide;
+};
+
+const runPython = async (code: string, indexURL: string) => {
+  const python = await loadPython(indexURL);
+  try {
+    await python.loadPackagesFromImports(code);
+  } catch (error: any) {
+    // Only the standard library is bundled; imports of anything else fail below with a clear message
+    console.warn(error?.message || String(error));
+  }
+  // Every block gets fresh globals, so earlier runs don't leak into it
+  const globals = python.globals.get('dict')();
+  post({ type: 'started' });
+  try {
+    const result = await python.runPythonAsync(code, { globals });
+    // Like the REPL, show the value of a trailing expression
+    if (result !== undefined && result !== null) {
+      post({ type: 'output', stream: 'stdout', text: String(result) + '\n' });
+      result.destroy?.();
+    }
+  } finally {
+    globals.destroy();
+  }
+};
+
+const runners: Record<RunnableLanguage, (code: string, pyodideUrl: string) => Promise<void>> = {
+  javascript: runJavaScript,
+  typescript: runTypeScript,
+  python: runPython,
+};
+
+scope.onmessage = async ({ data }: MessageEvent<WorkerRequest>) => {
+  pyodideRoot ??= new URL(data.pyodideUrl, scope.location.href).href;
+  try {
+    await runners[data.language](data.code, data.pyodideUrl);
+    post({ type: 'done' });
+  } catch (error: any) {
+    post({ type: 'done', error: error?.message || String(error) });
+  }
+};
@@ -0,0 +1,183 @@
+import { ContextSummary, Message, ModelId, Sender } from '../types';
+import { getProvider, LLMContent, LLMPart } from './llm';
+
+// Keeps the history replayed into a chat within a token budget. Over budget, attachments outside the
+// recent messages are first replaced by a short description; if that is not enough, the oldest turns
+// are folded into a rolling summary that travels in the system instruction.
+
+const DEFAULT_BUDGETS: Record<ModelId, number> = {
+  'gemini-3-flash-preview': 128_000,
+  'gemini-3-pro-preview': 64_000, // Pricier per token, so compacted sooner
+};
+
+// KITE_CONTEXT_BUDGETS overrides them at build time, e.g. "gemini-3-pro-preview=200000,gemini-3-flash-preview=400000"
+const parseBudgets = (value: string): Partial<Record<ModelId, number>> => {
+  const budgets: Partial<Record<ModelId, number>> = {};
+  for (const entry of value.split(',')) {
+    const [model, tokens] = entry.split('=').map(s => s.trim());
+    if (model in DEFAULT_BUDGETS && Number(tokens) > 0) budgets[model as ModelId] = Number(tokens);
+  }
+  return budgets;
+};
+
+const CONTEXT_BUDGETS: Record<ModelId, number> = { ...DEFAULT_BUDGETS, ...parseBudgets(process.env.KITE_CONTEXT_BUDGETS || '') };
+
+export const getContextBudget = (model: ModelId) => CONTEXT_BUDGETS[model];
+
+const KEEP_RECENT_MESSAGES = 6; // Never summarized, so the latest exchange is always quoted verbatim
+const ATTACHMENT_WINDOW = 8; // Messages keeping their attachments inline when the history is over budget
+const TARGET_RATIO = 0.6; // Compact well below the budget so it doesn't happen again on the next turn
+const SUMMARY_MODEL: ModelId = 'gemini-3-flash-preview';
+const IMAGE_TOKENS = 258; // What Gemini charges for an image of up to 384px, a fair average
+
+const SUMMARY_INSTRUCTION = 'You compress chat transcripts. Summarize the conversation you are given so an assistant can continue it without the original messages. Keep what the user shared about themselves and their goals, decisions taken, open questions, names, numbers, code identifiers and stated preferences. If an earlier summary is included, merge it into the new one. Write in the language of the conversation, in at most 400 words. Output only the summary.';
+
+export interface ContextWindow {
+  history: LLMContent[];
+  summary?: ContextSummary; // In effect for this history; a new object when it was (re)computed
+  droppedAttachments: number; // Attachments replaced by a description
+  tokens: number;
+}
+
+const isUsable = (message: Message) => !message.isError && (message.text.trim() !== '' || !!message.attachments?.length);
+
+const describeAttachment = (message: Message, index: number) => {
+  const attachment = message.attachments![index];
+  const kind = attachment.mimeType.startsWith('image/') ? 'image' : `file (${attachment.mimeType})`;
+  const name = attachment.fileName ? ` "${attachment.fileName}"` : '';
+  const origin = message.sender === Sender.User ? 'shared by the user' : 'generated';
+  return `[Earlier ${kind}${name} ${origin}; no longer available]`;
+};
+
+// Attachments first, then the text, as the model reads them in order.
+// Without `keepAttachments`, each attachment is replaced by a one-line description.
+// Of several generated variants, only the one the user picked is part of the conversation.
+export const toParts = (message: Message, keepAttachments = true): LLMPart[] => {
+  const parts: LLMPart[] = (message.attachments || []).flatMap(({ mimeType, data }, i): LLMPart[] => {
+    if (message.selectedImage !== undefined && i !== message.selectedImage) return [];
+    return [keepAttachments ? { inlineData: { mimeType, data } } : { text: describeAttachment(message, i) }];
+  });
+  if (message.text) parts.push({ text: message.text });
+  return parts;
+};
+
+const countAttachments = (messages: Message[]) =>
+  messages.reduce((count, m) => count + (m.selectedImage !== undefined ? 1 : m.attachments?.length || 0), 0);
+
+const toHistory = (messages: Message[], keepAttachmentsFrom: number): LLMContent[] =>
+  messages.map((m, i) => ({
+    role: m.sender === Sender.User ? 'user' : 'model',
+    parts: toParts(m, i >= keepAttachmentsFrom),
+  }));
+
+// Rough count for providers without a tokenizer endpoint: ~4 characters per token
+const estimateText = (text: string) => Math.ceil(text.length / 4);
+
+export const estimateTokens = (parts: LLMPart[]) => parts.reduce((total, part) => {
+  if (part.text) return total + estimateText(part.text);
+  if (part.inlineData) {
+    return total + (part.inlineData.mimeType.startsWith('image/') ? IMAGE_TOKENS : Math.ceil(part.inlineData.data.length * 0.75 / 4));
+  }
+  return total;
+}, 0);
+
+const estimateHistory = (history: LLMContent[]) => history.reduce((total, content) => total + estimateTokens(content.parts), 0);
+
+const countTokens = async (model: ModelId, history: LLMContent[], signal?: AbortSignal) => {
+  const provider = getProvider();
+  if (history.length === 0 || !provider.countTokens) return estimateHistory(history);
+  try {
+    return await provider.countTokens(model, history, signal);
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn("Token counting failed, estimating instead", e);
+    return estimateHistory(history);
+  }
+};
+
+// The system instruction with the summary of the turns no longer replayed
+export const withContextSummary = (systemInstruction: string, summary?: ContextSummary) =>
+  summary
+    ? `${systemInstruction}\n\nSummary of the earlier part of this conversation (those messages are no longer shown to you):\n${summary.text}`
+    : systemInstruction;
+
+const summarize = async (messages: Message[], previous: ContextSummary | undefined, signal?: AbortSignal) => {
+  const transcript = messages.map(m => {
+    const speaker = m.sender === Sender.User ? 'User' : 'Assistant';
+    const attachments = (m.attachments || []).map((_, i) => describeAttachment(m, i)).join(' ');
+    return `${speaker}: ${[attachments, m.text].filter(Boolean).join('\n')}`;
+  }).join('\n\n');
+  const prompt = previous
+    ? `Earlier summary:\n${previous.text}\n\nConversation that followed:\n${transcript}`
+    : transcript;
+
+  const chat = getProvider().createChat({ model: SUMMARY_MODEL, systemInstruction: SUMMARY_INSTRUCTION });
+  let text = '';
+  for await (const chunk of chat.sendMessageStream([{ text: prompt }], signal)) {
+    if (chunk.text) text += chunk.text;
+  }
+  if (!text.trim()) throw new Error('Empty summary');
+  return text.trim();
+};
+
+// Where to cut so the rest is estimated at most `target` tokens. Cuts only before a user turn and
+// never into the recent messages; returns `start` when nothing can be cut.
+const findCut = (messages: Message[], history: LLMContent[], start: number, target: number) => {
+  let remaining = estimateHistory(history.slice(start));
+  let cut = start;
+  for (let i = start; i < messages.length - KEEP_RECENT_MESSAGES && remaining > target; i++) {
+    remaining -= estimateTokens(history[i].parts);
+    if (messages[i + 1]?.sender === Sender.User) cut = i + 1;
+  }
+  return cut;
+};
+
+// History for a chat continuing `branch` (the messages before the next prompt). `summary` is the
+// session's stored summary; it is reused while it still covers a prefix of this branch and extended
+// when the rest is over budget. `extraTokens` accounts for what the history is sent with
+// (system instruction, the next prompt).
+export const buildContext = async ({ model, branch, summary, extraTokens = 0, signal, onSummarize }: {
+  model: ModelId;
+  branch: Message[];
+  summary?: ContextSummary;
+  extraTokens?: number;
+  signal?: AbortSignal;
+  onSummarize?: () => void; // Called before asking the model for a summary, which takes a while
+}): Promise<ContextWindow> => {
+  const budget = getContextBudget(model);
+  const messages = branch.filter(isUsable);
+  const summaryIndex = summary ? messages.findIndex(m => m.id === summary.upToMessageId) : -1;
+  let current = summaryIndex === -1 ? undefined : summary;
+  let start = summaryIndex + 1;
+
+  const fullHistory = toHistory(messages, 0);
+  const fullTokens = await countTokens(model, fullHistory.slice(start), signal) + (current ? estimateText(current.text) : 0) + extraTokens;
+  if (fullTokens <= budget) {
+    return { history: fullHistory.slice(start), summary: current, droppedAttachments: 0, tokens: fullTokens };
+  }
+
+  const keepAttachmentsFrom = messages.length - ATTACHMENT_WINDOW;
+  const history = toHistory(messages, keepAttachmentsFrom);
+
+  while (true) {
+    const summaryTokens = current ? estimateText(current.text) : 0;
+    const tokens = await countTokens(model, history.slice(start), signal) + summaryTokens + extraTokens;
+    const cut = tokens <= budget ? start : findCut(messages, history, start, budget * TARGET_RATIO - summaryTokens - extraTokens);
+    // Done when it fits, or when only recent messages are left: those are sent as they are
+    if (cut === start) {
+      return {
+        history: history.slice(start),
+        summary: current,
+        droppedAttachments: countAttachments(messages.slice(start, Math.max(start, keepAttachmentsFrom))),
+        tokens,
+      };
+    }
+
+    onSummarize?.();
+    current = {
+      text: await summarize(messages.slice(start, cut), current, signal),
+      upToMessageId: messages[cut - 1].id,
+    };
+    start = cut;
+  }
+};
@@ -0,0 +1,74 @@
+import { Playback, SpeakOptions, TtsProvider, TtsVoice } from './tts';
+import { splitForSpeech } from './speechText';
+import { apiFetch } from './api';
+import { base64ToBlob } from './blob';
+import { pcmToWav } from './audio';
+
+// Gemini TTS voices through the k-ite API proxy (/api/speech). The text is sent in paragraph-sized
+// pieces so playback starts quickly; the next piece is synthesized while the current one plays.
+
+const PIECE_LENGTH = 1200;
+
+// Same list as the proxy accepts (server/gemini.ts)
+const VOICES: TtsVoice[] = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'].map(name => ({ id: name, name }));
+const DEFAULT_VOICE = 'Kore';
+
+const synthesize = async (text: string, voice: string, signal: AbortSignal): Promise<Blob> => {
+  const response = await apiFetch('/speech', { text, voice }, signal);
+  const { mimeType, data }: { mimeType: string; data: string } = await response.json();
+  if (!/^audio\/L16/i.test(mimeType)) return base64ToBlob(data, mimeType);
+  // Headerless 16-bit mono PCM, which browsers only play with a WAV header
+  const sampleRate = Number(mimeType.match(/rate=(\d+)/)?.[1]) || 24000;
+  return pcmToWav(new Uint8Array(await base64ToBlob(data, mimeType).arrayBuffer()), sampleRate);
+};
+
+const speak = (text: string, { voice, rate }: SpeakOptions): Playback => {
+  const controller = new AbortController();
+  const audio = new Audio();
+  const voiceName = VOICES.some(v => v.id === voice) ? voice! : DEFAULT_VOICE;
+
+  const finished = (async () => {
+    const pieces = splitForSpeech(text, PIECE_LENGTH);
+    let next = pieces.length > 0 ? synthesize(pieces[0], voiceName, controller.signal) : null;
+    for (let i = 0; next; i++) {
+      const wav = await next;
+      next = i + 1 < pieces.length ? synthesize(pieces[i + 1], voiceName, controller.signal) : null;
+      next?.catch(() => {}); // Reported when awaited
+      if (controller.signal.aborted) return;
+
+      const url = URL.createObjectURL(wav);
+      try {
+        await new Promise<void>((resolve, reject) => {
+          audio.src = url;
+          audio.playbackRate = rate;
+          audio.onended = () => resolve();
+          audio.onerror = () => reject(new Error('Audio playback failed'));
+          controller.signal.addEventListener('abort', () => resolve(), { once: true });
+          audio.play().catch(reject);
+        });
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+  })().catch(error => {
+    if (!controller.signal.aborted) throw error;
+  });
+
+  return {
+    pause: () => audio.pause(),
+    resume: () => { audio.play().catch(() => {}); },
+    stop: () => {
+      controller.abort();
+      audio.pause();
+    },
+    finished,
+  };
+};
+
+export const geminiSpeechProvider: TtsProvider = {
+  id: 'gemini',
+  // Served by the API proxy, which only builds with the Gemini provider
+  isAvailable: () => (process.env.LLM_PROVIDER || 'gemini') === 'gemini',
+  getVoices: async () => VOICES,
+  speak,
+};
@@ -0,0 +1,81 @@
+import { GenerationSettings, ThinkingLevel } from '../types';
+
+// Generation settings: the allowed ranges, validation of untrusted values (storage, imports),
+// layering of session overrides over the user's defaults, and per-user persistence of the defaults.
+
+export const GENERATION_LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  topP: { min: 0, max: 1, step: 0.01 },
+  topK: { min: 1, max: 100, step: 1 },
+  maxOutputTokens: { min: 1, max: 65536, step: 1 },
+  thinkingBudget: { min: -1, max: 32768, step: 1 },
+};
+
+export const MAX_STOP_SEQUENCES = 5;
+
+const THINKING_LEVELS: ThinkingLevel[] = ['low', 'high'];
+
+type NumericSetting = keyof typeof GENERATION_LIMITS;
+
+const storageKey = (email: string) => `kite_generation_${email}`;
+
+const clampSetting = (key: NumericSetting, value: unknown): number | undefined => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  const { min, max, step } = GENERATION_LIMITS[key];
+  const clamped = Math.min(max, Math.max(min, value));
+  return step === 1 ? Math.round(clamped) : clamped;
+};
+
+// Keeps only well-formed values, clamped into range
+export const sanitizeGenerationSettings = (value: unknown): GenerationSettings => {
+  if (typeof value !== 'object' || value === null) return {};
+  const input = value as Record<string, unknown>;
+  const settings: GenerationSettings = {};
+
+  for (const key of Object.keys(GENERATION_LIMITS) as NumericSetting[]) {
+    const clamped = clampSetting(key, input[key]);
+    if (clamped !== undefined) settings[key] = clamped;
+  }
+  if (Array.isArray(input.stopSequences)) {
+    const stopSequences = input.stopSequences.filter((s): s is string => typeof s === 'string' && s !== '').slice(0, MAX_STOP_SEQUENCES);
+    if (stopSequences.length > 0) settings.stopSequences = stopSequences;
+  }
+  if (THINKING_LEVELS.includes(input.thinkingLevel as ThinkingLevel)) {
+    settings.thinkingLevel = input.thinkingLevel as ThinkingLevel;
+    delete settings.thinkingBudget;
+  }
+  return settings;
+};
+
+export const isEmptyGenerationSettings = (settings?: GenerationSettings) =>
+  !settings || Object.values(settings).every(value => value === undefined);
+
+// Session overrides win field by field. Level and budget are one choice, so overriding either replaces both.
+export const resolveGenerationSettings = (defaults: GenerationSettings, overrides?: GenerationSettings): GenerationSettings => {
+  if (!overrides) return defaults;
+  const resolved: GenerationSettings = { ...defaults };
+  if (overrides.thinkingLevel !== undefined || overrides.thinkingBudget !== undefined) {
+    delete resolved.thinkingLevel;
+    delete resolved.thinkingBudget;
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) (resolved as Record<string, unknown>)[key] = value;
+  }
+  return resolved;
+};
+
+export const loadGenerationDefaults = (email: string): GenerationSettings => {
+  try {
+    return sanitizeGenerationSettings(JSON.parse(localStorage.getItem(storageKey(email)) || '{}'));
+  } catch {
+    return {};
+  }
+};
+
+export const saveGenerationDefaults = (email: string, settings: GenerationSettings) => {
+  if (isEmptyGenerationSettings(settings)) {
+    localStorage.removeItem(storageKey(email));
+  } else {
+    localStorage.setItem(storageKey(email), JSON.stringify(settings));
+  }
+};
@@ -0,0 +1,85 @@
+import { vi, MessageKey } from '../locales/vi';
+import { en } from '../locales/en';
+
+// UI language: message catalogs, a module-level current locale (usable outside React, e.g. in
+// hooks building error messages) and locale-aware date formatting. The choice is remembered per user.
+
+export type Locale = 'vi' | 'en';
+export type { MessageKey };
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'vi', label: 'Tiếng Việt' },
+  { id: 'en', label: 'English' },
+];
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { vi, en };
+const languageTags: Record<Locale, string> = { vi: 'vi-VN', en: 'en-US' };
+
+// The last choice on this device is used until a user is known (e.g. on the login screen)
+const DEVICE_STORAGE_KEY = 'kite_locale';
+const userStorageKey = (email: string) => `kite_locale_${email}`;
+
+const isLocale = (value: string | null): value is Locale => value === 'vi' || value === 'en';
+
+const storedLocale = localStorage.getItem(DEVICE_STORAGE_KEY);
+let currentLocale: Locale = isLocale(storedLocale) ? storedLocale : 'vi';
+const listeners = new Set<() => void>();
+
+const applyLocale = (locale: Locale) => {
+  document.documentElement.lang = locale;
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  listeners.forEach(listener => listener());
+};
+
+applyLocale(currentLocale);
+
+export const getLocale = () => currentLocale;
+
+// BCP 47 tag of the current language, e.g. for picking a speech voice
+export const getLanguageTag = () => languageTags[currentLocale];
+
+export const onLocaleChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setLocale = (locale: Locale, email?: string | null) => {
+  localStorage.setItem(DEVICE_STORAGE_KEY, locale);
+  if (email) localStorage.setItem(userStorageKey(email), locale);
+  applyLocale(locale);
+};
+
+// Switches to the language the user picked last time, if they ever did
+export const loadUserLocale = (email: string) => {
+  const stored = localStorage.getItem(userStorageKey(email));
+  if (isLocale(stored)) {
+    localStorage.setItem(DEVICE_STORAGE_KEY, stored);
+    applyLocale(stored);
+  }
+};
+
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const template = catalogs[currentLocale][key] ?? vi[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+// "Today" for today, otherwise e.g. "31 thg 12, 2025" / "Dec 31, 2025"
+export const formatDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) return t('common.today');
+  return date.toLocaleDateString(languageTags[currentLocale], { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+export const formatTime = (date: Date) =>
+  date.toLocaleTimeString(languageTags[currentLocale], { hour: '2-digit', minute: '2-digit' });
+
+export const formatDateTime = (date: Date) =>
+  date.toLocaleString(languageTags[currentLocale], { hour: '2-digit', minute: '2-digit', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  value.toLocaleString(languageTags[currentLocale], options);
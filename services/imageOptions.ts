@@ -0,0 +1,47 @@
+import { ImageAspectRatio, ImageOptions } from '../types';
+import type { MessageKey } from '../locales/vi';
+
+// Image mode options: aspect ratio, number of variants and style presets, how they are folded into
+// the prompt, and validation of untrusted values (imports). Limits mirror server/gemini.ts.
+
+export const ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export const MAX_VARIANTS = 4;
+export const MAX_SOURCE_IMAGES = 4; // Images an edit can start from
+
+export interface StylePreset {
+  id: string;
+  labelKey: MessageKey;
+  prompt: string; // Appended to the user's prompt
+}
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: 'photo', labelKey: 'image.style.photo', prompt: 'photorealistic, natural lighting, high detail' },
+  { id: 'illustration', labelKey: 'image.style.illustration', prompt: 'digital illustration, clean lines, vibrant colors' },
+  { id: 'watercolor', labelKey: 'image.style.watercolor', prompt: 'watercolor painting, soft washes, paper texture' },
+  { id: 'anime', labelKey: 'image.style.anime', prompt: 'anime style, cel shading' },
+  { id: '3d', labelKey: 'image.style.3d', prompt: '3D render, soft global illumination' },
+  { id: 'pixel', labelKey: 'image.style.pixel', prompt: 'pixel art, limited palette' },
+  { id: 'sketch', labelKey: 'image.style.sketch', prompt: 'pencil sketch, hand-drawn, monochrome' },
+];
+
+// The prompt sent to the image model. When editing, the text is an instruction about the attached images.
+export const buildImagePrompt = (text: string, options: ImageOptions = {}, isEdit = false) => {
+  const style = STYLE_PRESETS.find(s => s.id === options.style);
+  const prompt = text.trim() || (isEdit ? 'Redraw this image' : '');
+  return style ? `${prompt}\n\nStyle: ${style.prompt}` : prompt;
+};
+
+// Keeps only well-formed values
+export const sanitizeImageOptions = (value: unknown): ImageOptions | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const input = value as Record<string, unknown>;
+  const options: ImageOptions = {};
+
+  if (ASPECT_RATIOS.includes(input.aspectRatio as ImageAspectRatio)) options.aspectRatio = input.aspectRatio as ImageAspectRatio;
+  if (typeof input.variants === 'number' && Number.isInteger(input.variants) && input.variants >= 1 && input.variants <= MAX_VARIANTS) {
+    options.variants = input.variants;
+  }
+  if (STYLE_PRESETS.some(s => s.id === input.style)) options.style = input.style as string;
+  return Object.keys(options).length > 0 ? options : undefined;
+};
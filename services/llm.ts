@@ -0,0 +1,123 @@
+import { Attachment, GenerationSettings, ImageAspectRatio } from '../types';
+import { geminiProvider } from './gemini';
+import { openAICompatibleProvider } from './openaiCompatible';
+
+// --- Provider-neutral conversation types ---
+// Shaped like Gemini's Content/Part so existing history code maps 1:1,
+// but owned by us so providers other than Gemini don't need the SDK.
+
+export interface LLMFunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  thoughtSignature?: string; // Gemini-specific, must be replayed alongside the call
+}
+
+export interface LLMFunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LLMPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: LLMFunctionCall;
+  functionResponse?: LLMFunctionResponse;
+  thoughtSignature?: string;
+}
+
+export interface LLMContent {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+export interface LLMStreamChunk {
+  text?: string;
+  functionCalls?: LLMFunctionCall[];
+}
+
+// JSON Schema subset understood by both Gemini (parametersJsonSchema) and OpenAI (tools[].function.parameters)
+export interface LLMToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMChatOptions {
+  model: string;
+  history?: LLMContent[];
+  systemInstruction?: string;
+  tools?: LLMToolDeclaration[];
+  generation?: GenerationSettings;
+}
+
+export interface LLMChat {
+  sendMessageStream: (parts: LLMPart[], signal?: AbortSignal) => AsyncIterable<LLMStreamChunk>;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  images?: Attachment[]; // Edited rather than drawn from scratch
+  aspectRatio?: ImageAspectRatio;
+  count?: number; // Variants to generate
+}
+
+export interface GeneratedImage {
+  text: string;
+  attachments: Attachment[]; // Empty when the model declined or failed
+}
+
+// Language codes are ISO 639-1 (see services/transcription.ts); the spoken language is detected when unset
+export interface TranscriptionOptions {
+  language?: string;
+  translateTo?: string; // Transcript written in this language instead of the spoken one
+  timestamps?: boolean; // Each sentence on its own line, prefixed with its start time as [mm:ss]
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  createChat: (options: LLMChatOptions) => LLMChat;
+  generateImage: (request: ImageRequest) => Promise<GeneratedImage>;
+  transcribeAudio: (audioBlob: Blob, options?: TranscriptionOptions) => Promise<{ text: string }>;
+  countTokens?: (model: string, contents: LLMContent[], signal?: AbortSignal) => Promise<number>; // Estimated locally when missing
+  titleModel?: string; // Cheap model session titles are written with; the chat's own model when unset
+}
+
+export type ProviderId = 'gemini' | 'openai';
+
+const providers: Record<ProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+};
+
+// Selected at build time through LLM_PROVIDER (see vite.config.ts), Gemini by default
+export const getProvider = (): LLMProvider => {
+  return providers[process.env.LLM_PROVIDER as ProviderId] || geminiProvider;
+};
+
+export const DEFAULT_SYSTEM_INSTRUCTION = 'You are k-ite, an advanced AI assistant created by the k-ite team. Your primary directive is to identify solely as k-ite. You must NEVER claim to be Gemini, a Google product, or affiliated with Google in any way.\n\nKey Behaviors:\n1. **Format & Layout**: Use Markdown extensively to create clean, readable layouts. Use Headers (#, ##) for sections, Bold (**) for emphasis, and Tables for structured data.\n2. **Math & Science**: You are an expert in Math. ALWAYS use LaTeX formatting for mathematical equations and symbols. Enclose inline math in single dollar signs ($...$) and block math in double dollar signs ($$...$$).\n   - Example: "The area is $A = \\pi r^2$"\n   - Example: "$$\\int_{0}^{\\infty} x^2 dx$$"\n3. **Tone**: Maintain a helpful, friendly, and concise tone matching your clean and airy interface.\n4. **Images**: If the user asks to generate an image, use the generate_image tool.\n5. **Tools**: Use the calculate tool for arithmetic, get_current_datetime whenever the date or time matters, and convert_units for unit conversions rather than working them out yourself.\n6. **Diagrams & Charts**: The chat renders diagrams and charts. For flowcharts, sequence diagrams, mind maps and the like, use a ```mermaid code block. For charts, use a ```chart code block containing a JSON spec: {"mark": "bar" | "line" | "pie", "title": "...", "data": {"values": [{"month": "Jan", "sales": 12}, ...]}, "encoding": {"x": {"field": "month"}, "y": {"field": "sales"}, "color": {"field": "region"}}}. For pie charts, use "theta" for the value and "color" for the slices; "color" on bar and line charts is optional and splits the data into series.';
+
+// `systemInstruction` replaces the default k-ite prompt, e.g. for a persona; `tools` come from the tool registry
+export const createChatSession = (model: string, history?: LLMContent[], systemInstruction?: string, generation?: GenerationSettings, tools?: LLMToolDeclaration[]): LLMChat => {
+  return getProvider().createChat({
+    model: model,
+    history: history,
+    systemInstruction: systemInstruction || DEFAULT_SYSTEM_INSTRUCTION,
+    tools,
+    generation,
+  });
+};
+
+export const generateImage = (request: ImageRequest) => {
+  return getProvider().generateImage(request);
+};
+
+export const transcribeAudio = async (audioBlob: Blob, options?: TranscriptionOptions) => {
+  try {
+    return await getProvider().transcribeAudio(audioBlob, options);
+  } catch (e) {
+    console.error("Transcription error", e);
+    return { text: "" };
+  }
+};
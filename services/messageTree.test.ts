@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Message, Sender } from '../types';
+import { getBranch, getLatestLeaf } from './messageTree';
+
+const message = (id: string, parentId: string | null, minute: number): Message =>
+  ({ id, parentId, sender: Sender.User, text: id, timestamp: new Date(2025, 0, 1, 0, minute) });
+
+test('getBranch walks from the leaf up to the root', () => {
+  const nodes = [message('a', null, 0), message('b', 'a', 1), message('c', 'b', 2), message('b2', 'a', 3)];
+  assert.deepEqual(getBranch(nodes, 'c').map(m => m.id), ['a', 'b', 'c']);
+});
+
+test('getLatestLeaf follows the most recent child', () => {
+  const nodes = [message('a', null, 0), message('b', 'a', 1), message('b2', 'a', 2), message('c', 'b2', 3)];
+  assert.equal(getLatestLeaf(nodes, 'a'), 'c');
+});
+
+test('the walkers stop at parent chains that loop', () => {
+  const nodes = [message('a', 'c', 0), message('b', 'a', 1), message('c', 'b', 2), message('d', 'd', 3)];
+  assert.deepEqual(getBranch(nodes, 'c').map(m => m.id), ['a', 'b', 'c']);
+  assert.deepEqual(getBranch(nodes, 'd').map(m => m.id), ['d']);
+  assert.equal(getLatestLeaf(nodes, 'a'), 'c');
+  assert.equal(getLatestLeaf(nodes, 'd'), 'd');
+});
@@ -0,0 +1,62 @@
+import { Message } from '../types';
+
+// A session's messages form a tree: every message points at the one it answers or follows (parentId).
+// Editing a prompt or regenerating a reply adds a sibling; the conversation shown (and sent to the
+// model) is the branch from the root down to the active leaf.
+
+export interface VersionInfo {
+  index: number; // 0-based position among siblings
+  total: number;
+}
+
+// Sessions saved before branching existed are plain lists; chain them in order
+export const normalizeTree = (messages: Message[]): Message[] => {
+  if (messages.some(m => m.parentId !== undefined)) return messages;
+  return messages.map((m, i) => ({ ...m, parentId: i === 0 ? null : messages[i - 1].id }));
+};
+
+export const getBranch = (nodes: Message[], leafId: string | null): Message[] => {
+  if (!leafId) return [];
+  const byId = new Map(nodes.map(m => [m.id, m]));
+  const branch: Message[] = [];
+  // Guards against parent chains that loop, which a corrupted store could still hold
+  const visited = new Set<string>();
+  let current = byId.get(leafId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    branch.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch.reverse();
+};
+
+const byTimestamp = (a: Message, b: Message) => a.timestamp.getTime() - b.timestamp.getTime();
+
+export const getSiblings = (nodes: Message[], message: Message): Message[] =>
+  nodes
+    .filter(m => (m.parentId ?? null) === (message.parentId ?? null) && m.sender === message.sender)
+    .sort(byTimestamp);
+
+// Follows the most recent child at every level, so switching to a version shows its latest continuation
+export const getLatestLeaf = (nodes: Message[], fromId: string): string => {
+  const visited = new Set<string>([fromId]);
+  let currentId = fromId;
+  while (true) {
+    const children = nodes.filter(m => m.parentId === currentId).sort(byTimestamp);
+    const latest = children[children.length - 1];
+    if (!latest || visited.has(latest.id)) return currentId;
+    visited.add(latest.id);
+    currentId = latest.id;
+  }
+};
+
+export const getVersionInfo = (nodes: Message[], branch: Message[]): Record<string, VersionInfo> => {
+  const versions: Record<string, VersionInfo> = {};
+  for (const message of branch) {
+    const siblings = getSiblings(nodes, message);
+    if (siblings.length > 1) {
+      versions[message.id] = { index: siblings.findIndex(s => s.id === message.id), total: siblings.length };
+    }
+  }
+  return versions;
+};
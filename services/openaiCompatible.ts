@@ -0,0 +1,12 @@
+import { LLMProvider } from './llm';
+import { createProxiedProvider } from './proxiedProvider';
+
+// OpenAI-compatible servers (OpenAI, llama.cpp server, Ollama, LM Studio, vLLM...), reached through
+// the k-ite API proxy like Gemini: the server's URL, key and models are set on the proxy, see server/openai.ts.
+// OPENAI_TITLE_MODEL is also set at build time (see vite.config.ts), so chats are titled with it.
+
+export const openAICompatibleProvider: LLMProvider = {
+  id: 'openai',
+  ...createProxiedProvider('/openai'),
+  titleModel: process.env.OPENAI_TITLE_MODEL || undefined,
+};
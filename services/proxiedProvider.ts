@@ -0,0 +1,65 @@
+import { LLMProvider, LLMChatOptions, LLMChat, LLMContent, LLMPart, LLMStreamChunk, LLMFunctionCall, GeneratedImage, ImageRequest, TranscriptionOptions } from './llm';
+import { apiFetch, readJsonLines } from './api';
+import { blobToBase64 } from './blob';
+
+// Chat, images and transcription through the k-ite API proxy, which holds the providers' keys.
+// Gemini is served under /api, OpenAI-compatible servers under /api/openai (see server/index.ts).
+
+export const createProxiedProvider = (prefix: string): Pick<LLMProvider, 'createChat' | 'generateImage' | 'transcribeAudio'> => {
+  const createChat = ({ model, history, systemInstruction, tools, generation }: LLMChatOptions): LLMChat => {
+    // The proxy is stateless, so the conversation is kept here and replayed on every turn
+    const contents: LLMContent[] = [...(history || [])];
+
+    return {
+      async *sendMessageStream(parts: LLMPart[], signal?: AbortSignal) {
+        const response = await apiFetch(`${prefix}/chat`, {
+          model,
+          history: contents,
+          message: parts,
+          systemInstruction,
+          tools,
+          generation,
+        }, signal);
+
+        let text = '';
+        const functionCalls: LLMFunctionCall[] = [];
+
+        for await (const chunk of readJsonLines<LLMStreamChunk>(response)) {
+          if (chunk.text) text += chunk.text;
+          if (chunk.functionCalls) functionCalls.push(...chunk.functionCalls);
+          yield chunk;
+        }
+
+        contents.push({ role: 'user', parts }, {
+          role: 'model',
+          parts: [
+            ...(text ? [{ text }] : []),
+            ...functionCalls.map(({ thoughtSignature, ...functionCall }) => ({ functionCall, thoughtSignature })),
+          ],
+        });
+      },
+    };
+  };
+
+  const generateImage = async ({ prompt, images, aspectRatio, count }: ImageRequest): Promise<GeneratedImage> => {
+    const response = await apiFetch(`${prefix}/image`, {
+      prompt,
+      images: images?.map(({ mimeType, data }) => ({ mimeType, data })),
+      aspectRatio,
+      count,
+    });
+    return response.json();
+  };
+
+  const transcribeAudio = async (audioBlob: Blob, options: TranscriptionOptions = {}) => {
+    const base64Data = await blobToBase64(audioBlob);
+    const response = await apiFetch(`${prefix}/transcribe`, {
+      mimeType: audioBlob.type || 'audio/webm',
+      data: base64Data,
+      ...options,
+    });
+    return response.json();
+  };
+
+  return { createChat, generateImage, transcribeAudio };
+};
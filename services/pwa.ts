@@ -0,0 +1,9 @@
+// Registers the service worker that makes the app installable and usable offline
+// (see services/serviceWorker.ts). Only production builds have one.
+export const registerServiceWorker = () => {
+  const url = process.env.SERVICE_WORKER_URL;
+  if (!url || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(url).catch(e => console.error('Service worker registration failed', e));
+  });
+};
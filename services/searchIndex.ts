@@ -0,0 +1,179 @@
+import { Message } from '../types';
+
+// In-memory full-text index over message text, rebuilt per session whenever the session changes.
+// Matching ignores case and diacritics ("phuong trinh" finds "phương trình"), every query word must
+// prefix-match a word of the message, and hits are reported with a snippet and highlight ranges
+// in the original text.
+
+export type IndexedMessage = Pick<Message, 'id' | 'sender' | 'text' | 'timestamp'>;
+
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][]; // [start, end) ranges within `text`
+}
+
+export interface SearchResult {
+  sessionId: string;
+  messageId: string;
+  sender: Message['sender'];
+  timestamp: Date;
+  snippet: SearchSnippet;
+}
+
+interface IndexedDocument {
+  sessionId: string;
+  message: IndexedMessage;
+  normalized: string;
+  // Index in the original text of every character of `normalized`
+  offsets: number[];
+}
+
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 40;
+const MAX_RESULTS = 50;
+const WORD_SEPARATOR = /[^\p{L}\p{N}]+/u;
+
+const foldChar = (char: string) =>
+  char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase();
+
+// Lowercase, diacritic-free copy of `text` with a map back to the original positions
+const normalizeWithOffsets = (text: string) => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const folded = foldChar(char);
+    for (let i = 0; i < folded.length; i++) offsets.push(index);
+    normalized += folded;
+    index += char.length;
+  }
+  offsets.push(text.length);
+  return { normalized, offsets };
+};
+
+export const normalizeForSearch = (text: string) => normalizeWithOffsets(text).normalized;
+
+const tokenize = (normalized: string) => normalized.split(WORD_SEPARATOR).filter(Boolean);
+
+const buildSnippet = (doc: IndexedDocument, terms: string[]): SearchSnippet => {
+  const text = doc.message.text;
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    let from = doc.normalized.indexOf(term);
+    while (from !== -1) {
+      ranges.push([doc.offsets[from], doc.offsets[from + term.length]]);
+      from = doc.normalized.indexOf(term, from + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const firstHit = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, firstHit - SNIPPET_LEAD);
+  // Start on a word boundary when cutting into the text
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < firstHit) start = space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const snippetText = prefix + text.slice(start, end).replace(/\s+/g, ' ') + suffix;
+
+  // Whitespace runs collapse to one space, so positions are recomputed on the cleaned string
+  const shift = (position: number) => prefix.length + text.slice(start, position).replace(/\s+/g, ' ').length;
+  const highlights = ranges
+    .filter(([from, to]) => from >= start && to <= end)
+    .map(([from, to]): [number, number] => [shift(from), shift(to)]);
+
+  return { text: snippetText, highlights };
+};
+
+export const createSearchIndex = () => {
+  const documents = new Map<string, IndexedDocument>(); // key: `${sessionId}/${messageId}`
+  const tokens = new Map<string, Set<string>>();
+  const sessionDocuments = new Map<string, string[]>();
+  const indexedVersions = new Map<string, number>(); // sessionId -> updatedAt when indexed
+
+  const removeSession = (sessionId: string) => {
+    for (const key of sessionDocuments.get(sessionId) || []) {
+      const doc = documents.get(key);
+      if (!doc) continue;
+      for (const token of tokenize(doc.normalized)) {
+        const keys = tokens.get(token);
+        keys?.delete(key);
+        if (keys?.size === 0) tokens.delete(token);
+      }
+      documents.delete(key);
+    }
+    sessionDocuments.delete(sessionId);
+    indexedVersions.delete(sessionId);
+  };
+
+  const indexSession = (sessionId: string, updatedAt: number, messages: IndexedMessage[]) => {
+    removeSession(sessionId);
+    const keys: string[] = [];
+    for (const message of messages) {
+      if (!message.text.trim()) continue;
+      const key = `${sessionId}/${message.id}`;
+      const { normalized, offsets } = normalizeWithOffsets(message.text);
+      documents.set(key, { sessionId, message, normalized, offsets });
+      keys.push(key);
+      for (const token of tokenize(normalized)) {
+        let keysForToken = tokens.get(token);
+        if (!keysForToken) tokens.set(token, keysForToken = new Set());
+        keysForToken.add(key);
+      }
+    }
+    sessionDocuments.set(sessionId, keys);
+    indexedVersions.set(sessionId, updatedAt);
+  };
+
+  const isIndexed = (sessionId: string, updatedAt: number) => indexedVersions.get(sessionId) === updatedAt;
+
+  // Drops sessions that no longer exist; returns whether any were dropped
+  const retain = (sessionIds: string[]) => {
+    const keep = new Set(sessionIds);
+    const removed = [...indexedVersions.keys()].filter(id => !keep.has(id));
+    removed.forEach(removeSession);
+    return removed.length > 0;
+  };
+
+  const clear = () => {
+    documents.clear();
+    tokens.clear();
+    sessionDocuments.clear();
+    indexedVersions.clear();
+  };
+
+  const search = (query: string): SearchResult[] => {
+    const terms = [...new Set(tokenize(normalizeForSearch(query)))];
+    if (terms.length === 0) return [];
+
+    let candidates: Set<string> | null = null;
+    for (const term of terms) {
+      const matching = new Set<string>();
+      for (const [token, keys] of tokens) {
+        if (token.startsWith(term)) keys.forEach(key => matching.add(key));
+      }
+      candidates = candidates ? new Set([...candidates].filter(key => matching.has(key))) : matching;
+      if (candidates.size === 0) return [];
+    }
+
+    return [...candidates!]
+      .map(key => documents.get(key)!)
+      .sort((a, b) => b.message.timestamp.getTime() - a.message.timestamp.getTime())
+      .slice(0, MAX_RESULTS)
+      .map(doc => ({
+        sessionId: doc.sessionId,
+        messageId: doc.message.id,
+        sender: doc.message.sender,
+        timestamp: doc.message.timestamp,
+        snippet: buildSnippet(doc, terms),
+      }));
+  };
+
+  return { indexSession, removeSession, isIndexed, retain, clear, search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
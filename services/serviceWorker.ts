@@ -0,0 +1,101 @@
+// Service worker, compiled on its own to `sw.js` at the root of the site (see vite.config.ts), which
+// fills in the two constants below. It keeps the app usable offline:
+//   - the files of the build and the CDN stylesheets and scripts the page needs, KaTeX and its
+//     fonts included, are cached on install
+//   - Pyodide, too large to fetch up front, is cached the first time code runs
+//   - the page itself is fetched from the network first, so a new deploy is picked up when online
+// API calls are never cached; sessions are in IndexedDB and don't need the network to be browsed.
+
+declare const __CACHE_NAME__: string;
+declare const __SHELL_URLS__: string[];
+
+const sw = self as any;
+const CACHE_NAME = __CACHE_NAME__;
+const SHELL_URLS = __SHELL_URLS__;
+const CACHE_PREFIX = 'k-ite-';
+const SCOPE = new URL(sw.registration.scope).pathname;
+
+// Loaded by index.html
+const CDN_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://cdn.tailwindcss.com?plugins=typography',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600&display=swap',
+];
+const KATEX_CSS = 'https://cdn.jsdelivr.net/npm/katex@0.16.8/dist/katex.min.css';
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'cdn.jsdelivr.net', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// Pages load CDN scripts without CORS, so their responses are opaque; they are cached as such
+const cacheCdnUrl = async (cache: Cache, url: string) => {
+  const response = await fetch(new Request(url, { mode: 'no-cors' }));
+  if (response.ok || response.type === 'opaque') await cache.put(url, response);
+};
+
+// KaTeX's stylesheet only loads a font once a formula needs it; they are all cached so formulas
+// render offline even in chats never opened online
+const cacheKatex = async (cache: Cache) => {
+  const response = await fetch(KATEX_CSS);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  await cache.put(KATEX_CSS, response.clone());
+  const css = await response.text();
+  const fonts = new Set([...css.matchAll(/url\((fonts\/[^)]+\.woff2)\)/g)].map(match => new URL(match[1], KATEX_CSS).href));
+  await cache.addAll([...fonts]);
+};
+
+sw.addEventListener('install', (event: any) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(SHELL_URLS);
+    // A CDN being down shouldn't keep the app from installing
+    await Promise.all([
+      ...CDN_URLS.map(url => cacheCdnUrl(cache, url).catch(e => console.warn(`Could not cache ${url}`, e))),
+      cacheKatex(cache).catch(e => console.warn('Could not cache KaTeX', e)),
+    ]);
+    await sw.skipWaiting();
+  })());
+});
+
+sw.addEventListener('activate', (event: any) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME).map(name => caches.delete(name)));
+    await sw.clients.claim();
+  })());
+});
+
+const fromCache = async (request: Request | string) => (await caches.open(CACHE_NAME)).match(request);
+
+const store = async (key: Request | string, response: Response) => {
+  if (response.ok || response.type === 'opaque') await (await caches.open(CACHE_NAME)).put(key, response.clone());
+  return response;
+};
+
+const cacheFirst = async (request: Request) => (await fromCache(request)) || store(request, await fetch(request));
+
+const networkFirst = async (request: Request, key: Request | string = request) => {
+  try {
+    return await store(key, await fetch(request));
+  } catch (error) {
+    const cached = await fromCache(key);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+sw.addEventListener('fetch', (event: any) => {
+  const request: Request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  const isOwn = url.origin === sw.location.origin && url.pathname.startsWith(SCOPE);
+
+  if (url.origin === sw.location.origin && url.pathname.startsWith('/api/')) return;
+  if (request.mode === 'navigate') {
+    // Every page of the app (e.g. the sign-in callback) is the app shell; others, like an IdP's sign-in page, are left alone
+    if (isOwn) event.respondWith(networkFirst(request, SCOPE));
+    return;
+  }
+  if (isOwn || CDN_HOSTS.includes(url.hostname)) return event.respondWith(cacheFirst(request));
+  // Anything else, such as the identity provider's discovery document and signing keys, which are
+  // needed to restore the sign-in: from the network, or the last copy when offline
+  event.respondWith(networkFirst(request));
+});
@@ -0,0 +1,333 @@
+import { ChatSession, ChatSessionMeta, Message, Attachment, QueuedAttachment, Persona, Folder, Tag } from '../types';
+import { base64ToBlob, blobToBase64 } from './blob';
+import { IndexedMessage } from './searchIndex';
+
+// IndexedDB-backed persistence for chat sessions, one database per user:
+//   sessions     session metadata (title, updatedAt...), listed in the sidebar
+//   messages     one record per session holding its messages, loaded when the session is opened
+//   attachments  attachment payloads as Blobs, referenced from messages (or queued messages) by id
+//   personas     the user's personas
+//   folders      folders sessions are filed in
+//   tags         tags put on sessions
+// Writes are coalesced per session so streaming a reply doesn't write on every chunk.
+
+const DB_VERSION = 3;
+const SAVE_DELAY_MS = 300;
+
+type AttachmentRef = Omit<Attachment, 'data'> & { id: string };
+type StoredMessage = Omit<Message, 'attachments'> & {
+  attachments?: AttachmentRef[];
+  attachment?: AttachmentRef; // Single attachment, as saved before messages could carry several
+};
+
+interface StoredMessages {
+  sessionId: string;
+  messages: StoredMessage[];
+}
+
+interface StoredAttachment {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+// Blobs of queued messages are only referenced from the session metadata, so they are never dropped
+// as unreferenced by a message write; they go once the message is sent or cancelled
+const isQueuedAttachmentId = (id: string) => id.includes(':queued:');
+
+const legacyStorageKey = (email: string) => `kite_sessions_${email}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = (name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+    if (event.oldVersion < 1) {
+      db.createObjectStore('sessions', { keyPath: 'id' });
+      db.createObjectStore('messages', { keyPath: 'sessionId' });
+      db.createObjectStore('attachments', { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+    }
+    if (event.oldVersion < 2) {
+      db.createObjectStore('personas', { keyPath: 'id' });
+    }
+    if (event.oldVersion < 3) {
+      db.createObjectStore('folders', { keyPath: 'id' });
+      db.createObjectStore('tags', { keyPath: 'id' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const toMeta = ({ messages, ...meta }: ChatSession): ChatSessionMeta => meta;
+
+// Moves a legacy single `attachment` into the `attachments` list
+const withAttachmentList = ({ attachment, ...message }: StoredMessage): StoredMessage =>
+  attachment && !message.attachments ? { ...message, attachments: [attachment] } : message;
+
+export const openSessionStore = async (email: string) => {
+  const db = await openDatabase(legacyStorageKey(email));
+
+  // Blob ids each attachment object was already written (or read) under in this tab; unchanged ones
+  // are not rewritten. An object can be shared by messages with different ids, e.g. an edited copy.
+  const persistedAttachments = new WeakMap<Attachment, Set<string>>();
+  const markPersisted = (attachment: Attachment, id: string) => {
+    const ids = persistedAttachments.get(attachment);
+    if (ids) ids.add(id);
+    else persistedAttachments.set(attachment, new Set([id]));
+  };
+  const pending = new Map<string, { meta: ChatSessionMeta; messages: Message[] }>();
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Queues the writes for one session inside an open transaction
+  const writeSession = (tx: IDBTransaction, meta: ChatSessionMeta, messages: Message[]) => {
+    const attachmentStore = tx.objectStore('attachments');
+    const referenced = new Set<string>();
+
+    const storedMessages: StoredMessage[] = messages.map(({ attachments, ...message }) => {
+      if (!attachments?.length) return message;
+
+      return {
+        ...message,
+        attachments: attachments.map((attachment, index) => {
+          const id = attachment.id || `${meta.id}:${message.id}:${index}`;
+          referenced.add(id);
+          if (!persistedAttachments.get(attachment)?.has(id)) {
+            attachmentStore.put({ id, sessionId: meta.id, blob: base64ToBlob(attachment.data, attachment.mimeType) } as StoredAttachment);
+            markPersisted(attachment, id);
+          }
+          const { data, ...ref } = attachment;
+          return { ...ref, id };
+        }),
+      };
+    });
+
+    tx.objectStore('sessions').put(meta);
+    tx.objectStore('messages').put({ sessionId: meta.id, messages: storedMessages } as StoredMessages);
+
+    // Drop blobs no longer referenced by any message of the session
+    const keysRequest = attachmentStore.index('sessionId').getAllKeys(meta.id);
+    keysRequest.onsuccess = () => {
+      for (const key of keysRequest.result) {
+        if (!referenced.has(key as string) && !isQueuedAttachmentId(key as string)) attachmentStore.delete(key);
+      }
+    };
+  };
+
+  const flush = async () => {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    if (pending.size === 0) return;
+
+    const batch = [...pending.values()];
+    pending.clear();
+    const tx = db.transaction(['sessions', 'messages', 'attachments'], 'readwrite');
+    batch.forEach(({ meta, messages }) => writeSession(tx, meta, messages));
+    await transactionDone(tx);
+  };
+
+  const scheduleFlush = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      flush().catch(e => console.error('Failed to save sessions', e));
+    }, SAVE_DELAY_MS);
+  };
+
+  const listSessions = async (): Promise<ChatSessionMeta[]> => {
+    const tx = db.transaction('sessions', 'readonly');
+    const sessions = await requestToPromise(tx.objectStore('sessions').getAll() as IDBRequest<ChatSessionMeta[]>);
+    // Sort by newest first
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  };
+
+  const loadMessages = async (sessionId: string): Promise<Message[]> => {
+    // Unsaved changes win over what is on disk
+    const queued = pending.get(sessionId);
+    if (queued) return queued.messages;
+
+    const tx = db.transaction(['messages', 'attachments'], 'readonly');
+    const record = await requestToPromise(tx.objectStore('messages').get(sessionId) as IDBRequest<StoredMessages | undefined>);
+    if (!record) return [];
+
+    const attachmentStore = tx.objectStore('attachments');
+    const storedMessages = record.messages.map(withAttachmentList);
+    // Issue every read before awaiting so they all run inside the transaction
+    const blobs = await Promise.all(storedMessages.map(m => Promise.all((m.attachments || []).map(ref =>
+      requestToPromise(attachmentStore.get(ref.id) as IDBRequest<StoredAttachment | undefined>)
+    ))));
+
+    return Promise.all(storedMessages.map(async ({ attachments: refs, ...message }, i) => {
+      if (!refs?.length) return message;
+
+      const attachments = await Promise.all(refs.map(async (ref, j) => {
+        const stored = blobs[i][j];
+        if (!stored) return null;
+        const attachment: Attachment = { ...ref, data: await blobToBase64(stored.blob) };
+        markPersisted(attachment, ref.id);
+        return attachment;
+      }));
+      const loaded = attachments.filter((a): a is Attachment => a !== null);
+      return loaded.length > 0 ? { ...message, attachments: loaded } : message;
+    }));
+  };
+
+  // Messages without their attachment payloads, e.g. for the search index
+  const loadMessageTexts = async (sessionId: string): Promise<IndexedMessage[]> => {
+    const queued = pending.get(sessionId);
+    const messages = queued
+      ? queued.messages
+      : (await requestToPromise(db.transaction('messages', 'readonly').objectStore('messages').get(sessionId) as IDBRequest<StoredMessages | undefined>))?.messages || [];
+    return messages.map(({ id, sender, text, timestamp }) => ({ id, sender, text, timestamp }));
+  };
+
+  const saveSession = (meta: ChatSessionMeta, messages: Message[]) => {
+    pending.set(meta.id, { meta, messages });
+    scheduleFlush();
+  };
+
+  // Metadata-only update (e.g. renaming) that keeps any queued message write
+  const saveSessionMeta = async (meta: ChatSessionMeta) => {
+    const queued = pending.get(meta.id);
+    if (queued) {
+      queued.meta = meta;
+      return;
+    }
+    const tx = db.transaction('sessions', 'readwrite');
+    tx.objectStore('sessions').put(meta);
+    await transactionDone(tx);
+  };
+
+  // Attachments of a message queued offline: the blobs are written here, and the session's outbox
+  // only keeps the references returned, so the metadata and tab broadcasts stay small
+  const saveQueuedAttachments = async (sessionId: string, queuedId: string, attachments: Attachment[]): Promise<QueuedAttachment[]> => {
+    const tx = db.transaction('attachments', 'readwrite');
+    const refs = attachments.map(({ data, id: _previous, ...attachment }, index) => {
+      const id = `${sessionId}:queued:${queuedId}:${index}`;
+      tx.objectStore('attachments').put({ id, sessionId, blob: base64ToBlob(data, attachment.mimeType) } as StoredAttachment);
+      return { ...attachment, id };
+    });
+    await transactionDone(tx);
+    return refs;
+  };
+
+  // The attachments back, without their ids, to be sent as new ones; missing blobs are left out
+  const loadQueuedAttachments = async (refs: QueuedAttachment[]): Promise<Attachment[]> => {
+    const tx = db.transaction('attachments', 'readonly');
+    const stored = await Promise.all(refs.map(ref =>
+      requestToPromise(tx.objectStore('attachments').get(ref.id) as IDBRequest<StoredAttachment | undefined>)
+    ));
+    const attachments = await Promise.all(refs.map(async ({ id: _stored, ...ref }, i) =>
+      stored[i] ? { ...ref, data: await blobToBase64(stored[i].blob) } : null
+    ));
+    return attachments.filter((a): a is Attachment => a !== null);
+  };
+
+  const deleteQueuedAttachments = async (refs: QueuedAttachment[]) => {
+    const tx = db.transaction('attachments', 'readwrite');
+    refs.forEach(ref => tx.objectStore('attachments').delete(ref.id));
+    await transactionDone(tx);
+  };
+
+  const deleteSession = async (sessionId: string) => {
+    pending.delete(sessionId);
+    const tx = db.transaction(['sessions', 'messages', 'attachments'], 'readwrite');
+    tx.objectStore('sessions').delete(sessionId);
+    tx.objectStore('messages').delete(sessionId);
+    const attachmentStore = tx.objectStore('attachments');
+    const keysRequest = attachmentStore.index('sessionId').getAllKeys(sessionId);
+    keysRequest.onsuccess = () => keysRequest.result.forEach(key => attachmentStore.delete(key));
+    await transactionDone(tx);
+  };
+
+  const clear = async () => {
+    pending.clear();
+    const tx = db.transaction(['sessions', 'messages', 'attachments'], 'readwrite');
+    ['sessions', 'messages', 'attachments'].forEach(name => tx.objectStore(name).clear());
+    await transactionDone(tx);
+  };
+
+  // Personas, folders and tags: small records listed by name
+  const listNamed = async <T extends { name: string }>(storeName: string): Promise<T[]> => {
+    const tx = db.transaction(storeName, 'readonly');
+    const records = await requestToPromise(tx.objectStore(storeName).getAll() as IDBRequest<T[]>);
+    return records.sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  const put = async (storeName: string, record: { id: string }) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(record);
+    await transactionDone(tx);
+  };
+
+  const remove = async (storeName: string, id: string) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).delete(id);
+    await transactionDone(tx);
+  };
+
+  const listPersonas = () => listNamed<Persona>('personas');
+  const savePersona = (persona: Persona) => put('personas', persona);
+  const deletePersona = (personaId: string) => remove('personas', personaId);
+
+  const listFolders = () => listNamed<Folder>('folders');
+  const saveFolder = (folder: Folder) => put('folders', folder);
+  const deleteFolder = (folderId: string) => remove('folders', folderId);
+
+  const listTags = () => listNamed<Tag>('tags');
+  const saveTag = (tag: Tag) => put('tags', tag);
+  const deleteTag = (tagId: string) => remove('tags', tagId);
+
+  const close = async () => {
+    await flush().catch(e => console.error('Failed to save sessions', e));
+    db.close();
+  };
+
+  // One-time migration from the single localStorage key used before IndexedDB
+  const migrateLegacySessions = async () => {
+    const stored = localStorage.getItem(legacyStorageKey(email));
+    if (!stored) return;
+
+    try {
+      const legacySessions: ChatSession[] = JSON.parse(stored).map((s: any) => ({
+        ...s,
+        messages: s.messages.map((m: any) => withAttachmentList({
+          ...m,
+          timestamp: new Date(m.timestamp)
+        }))
+      }));
+
+      const tx = db.transaction(['sessions', 'messages', 'attachments'], 'readwrite');
+      legacySessions.forEach(session => writeSession(tx, toMeta(session), session.messages));
+      await transactionDone(tx);
+      localStorage.removeItem(legacyStorageKey(email));
+    } catch (e) {
+      // Keep the old data around so nothing is lost; migration is retried next time
+      console.error("Failed to migrate sessions", e);
+    }
+  };
+
+  await migrateLegacySessions();
+
+  return {
+    listSessions, loadMessages, loadMessageTexts, saveSession, saveSessionMeta, deleteSession, clear, flush, close,
+    saveQueuedAttachments, loadQueuedAttachments, deleteQueuedAttachments,
+    listPersonas, savePersona, deletePersona,
+    listFolders, saveFolder, deleteFolder,
+    listTags, saveTag, deleteTag,
+  };
+};
+
+export type SessionStore = Awaited<ReturnType<typeof openSessionStore>>;
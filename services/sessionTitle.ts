@@ -0,0 +1,46 @@
+import { Attachment, Message } from '../types';
+import { getProvider } from './llm';
+
+// Session titles. A new chat is first titled after the beginning of its first message; once the first
+// reply is in, a cheap model is asked for a better one. Titles the user typed are never replaced.
+
+const TITLE_INSTRUCTION = 'You title chat conversations. Given the start of a conversation, reply with a short title for it: at most 6 words, in the language of the user\'s message, without quotes, markdown or a final period. Output only the title.';
+const HEURISTIC_LENGTH = 30;
+const MAX_TITLE_LENGTH = 60;
+const EXCERPT_LENGTH = 1500; // Of each message, which is plenty to tell what the chat is about
+
+// The first words of a message, or the name of its first named file when it has no text
+export const heuristicTitle = ({ text, attachments }: { text: string; attachments?: Attachment[] }) => {
+  const words = text.trim().replace(/\s+/g, ' ');
+  if (words) return words.length > HEURISTIC_LENGTH ? `${words.slice(0, HEURISTIC_LENGTH)}...` : words;
+  return attachments?.find(a => a.fileName)?.fileName ?? '';
+};
+
+// Attachments are only named, so titling stays cheap; the reply usually says what they show
+const describe = (message: Message) => [
+  ...(message.attachments || []).map(a => `[${a.mimeType.split('/')[0]}${a.fileName ? `: ${a.fileName}` : ''}]`),
+  message.text.slice(0, EXCERPT_LENGTH),
+].filter(Boolean).join('\n');
+
+// Models sometimes wrap the title anyway
+const cleanTitle = (text: string) => text
+  .trim()
+  .split('\n')[0]
+  .replace(/^[#*_"'“”«»\s]+/, '')
+  .replace(/^title:[*_\s]*/i, '')
+  .replace(/^["'“”«»]+|[*_"'“”«».\s]+$/g, '')
+  .slice(0, MAX_TITLE_LENGTH);
+
+// Asks the provider's title model (or the chat's, when it has none) for a title of the exchange;
+// throws when it can't give one
+export const generateTitle = async (prompt: Message, reply: Message, chatModel: string, signal?: AbortSignal) => {
+  const provider = getProvider();
+  const chat = provider.createChat({ model: provider.titleModel || chatModel, systemInstruction: TITLE_INSTRUCTION });
+  let text = '';
+  for await (const chunk of chat.sendMessageStream([{ text: `User: ${describe(prompt)}\n\nAssistant: ${describe(reply)}` }], signal)) {
+    if (chunk.text) text += chunk.text;
+  }
+  const title = cleanTitle(text);
+  if (!title) throw new Error('Empty title');
+  return title;
+};
@@ -0,0 +1,378 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { ApiErrorKind, Attachment, ChatSession, ContextSummary, Message, Sender, SessionPersona, ToolCall } from '../types';
+import { getBranch, normalizeTree } from './messageTree';
+import { downloadBlob, safeFileName } from './download';
+import { t, getLocale, formatDateTime } from './i18n';
+import { sanitizeGenerationSettings, isEmptyGenerationSettings } from './generationSettings';
+import { sanitizeImageOptions } from './imageOptions';
+import { ERROR_MESSAGES } from './apiError';
+
+// Export and import of chat sessions.
+//   json      versioned, lossless (every message version and attachment), the only format that can be imported
+//   markdown  the conversation as shown, LaTeX left as written
+//   html      a single self-contained page with math rendered by KaTeX and images embedded
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+const EXPORT_FORMAT_ID = 'k-ite-sessions';
+const EXPORT_VERSION = 1;
+const KATEX_CSS_URL = 'https://cdn.jsdelivr.net/npm/katex@0.16.8/dist/katex.min.css';
+
+type ExportedMessage = Omit<Message, 'timestamp' | 'attachments'> & {
+  timestamp: string; // ISO 8601
+  attachments?: Omit<Attachment, 'id'>[];
+};
+
+type ExportedSession = Omit<ChatSession, 'messages'> & { messages: ExportedMessage[] };
+
+interface SessionsExport {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  sessions: ExportedSession[];
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { json: 'json', markdown: 'md', html: 'html' };
+const MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const senderLabel = (message: Message) => message.sender === Sender.User ? t('common.you') : 'k-ite';
+
+const titleOf = (session: ChatSession) => session.title || t('chat.untitled');
+
+// The branch the user was looking at, which is what the readable formats contain
+const visibleMessages = (session: ChatSession) => {
+  const tree = normalizeTree(session.messages);
+  const leafId = tree.some(m => m.id === session.activeLeafId) ? session.activeLeafId! : tree[tree.length - 1]?.id ?? null;
+  return getBranch(tree, leafId);
+};
+
+const toJson = (sessions: ChatSession[]): string => {
+  const data: SessionsExport = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Messages still waiting to be sent belong to this device only
+    sessions: sessions.map(({ outbox, ...session }) => ({
+      ...session,
+      messages: session.messages.map(({ timestamp, attachments, ...message }) => ({
+        ...message,
+        timestamp: timestamp.toISOString(),
+        // Blob ids belong to the local store; imported attachments get new ones
+        ...(attachments?.length && { attachments: attachments.map(({ id, ...attachment }) => attachment) }),
+      })),
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const toMarkdown = (sessions: ChatSession[]): string =>
+  sessions.map(session => {
+    const messages = visibleMessages(session).map(message => {
+      const attachments = (message.attachments || [])
+        .map(a => `> 📎 ${a.fileName || a.mimeType}`)
+        .join('\n');
+      return [
+        `**${senderLabel(message)}** · ${formatDateTime(message.timestamp)}`,
+        attachments,
+        message.text,
+      ].filter(Boolean).join('\n\n');
+    });
+    return [`# ${titleOf(session)}`, ...messages].join('\n\n---\n\n');
+  }).join('\n\n\n');
+
+// Inlines the KaTeX stylesheet so the page renders math without the app; fonts still come from the CDN
+const loadKatexCss = async (): Promise<string> => {
+  try {
+    const response = await fetch(KATEX_CSS_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const css = await response.text();
+    return `<style>${css.replace(/url\(fonts\//g, `url(${KATEX_CSS_URL.replace(/katex\.min\.css$/, '')}fonts/`)}</style>`;
+  } catch (e) {
+    console.warn('Could not inline KaTeX CSS, linking it instead', e);
+    return `<link rel="stylesheet" href="${KATEX_CSS_URL}">`;
+  }
+};
+
+const HTML_STYLES = `
+  body { font-family: Inter, system-ui, sans-serif; background: #f8fafc; color: #0f172a; margin: 0; }
+  main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+  h1 { font-size: 1.5rem; border-bottom: 1px solid #e2e8f0; padding-bottom: .5rem; margin-top: 3rem; }
+  .message { margin: 1.5rem 0; }
+  .meta { font-size: .75rem; color: #64748b; margin-bottom: .25rem; }
+  .user .content { background: #2563eb; color: white; border-radius: 1.25rem; padding: .75rem 1rem; white-space: pre-wrap; display: inline-block; }
+  .user { text-align: right; }
+  .user .content { text-align: left; }
+  .error .content { background: #fef2f2; border: 1px solid #fecaca; color: #dc2626; border-radius: .75rem; padding: .75rem 1rem; }
+  .content { line-height: 1.7; }
+  .attachments { display: flex; flex-wrap: wrap; gap: .5rem; margin-bottom: .5rem; }
+  .user .attachments { justify-content: flex-end; }
+  .attachments img { max-width: 20rem; max-height: 20rem; border-radius: 1rem; border: 1px solid #e2e8f0; }
+  .file { border: 1px solid #e2e8f0; background: white; border-radius: .75rem; padding: .5rem .75rem; font-size: .875rem; }
+  pre { background: #1e293b; color: #e2e8f0; border-radius: .75rem; padding: 1rem; overflow-x: auto; }
+  code { font-family: ui-monospace, monospace; font-size: .9em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #e2e8f0; padding: .4rem .75rem; }
+`;
+
+const toHtml = async (sessions: ChatSession[]): Promise<string> => {
+  // Only needed here, so kept out of the main bundle
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const renderMarkdown = (text: string): string => renderToStaticMarkup(
+    React.createElement(ReactMarkdown, { remarkPlugins: [remarkGfm, remarkMath], rehypePlugins: [rehypeKatex] }, text)
+  );
+
+  const renderAttachment = (attachment: Attachment) => attachment.mimeType.startsWith('image/')
+    ? `<img src="data:${escapeHtml(attachment.mimeType)};base64,${escapeHtml(attachment.data)}" alt="${escapeHtml(attachment.fileName || '')}">`
+    : `<div class="file">📎 ${escapeHtml(attachment.fileName || attachment.mimeType)}</div>`;
+
+  const body = sessions.map(session => {
+    const messages = visibleMessages(session).map(message => {
+      const isUser = message.sender === Sender.User;
+      const attachments = message.attachments?.length
+        ? `<div class="attachments">${message.attachments.map(renderAttachment).join('')}</div>`
+        : '';
+      const content = isUser || message.isError ? escapeHtml(message.text) : renderMarkdown(message.text);
+      return `<div class="message ${message.sender}${message.isError ? ' error' : ''}">
+  <div class="meta">${senderLabel(message)} · ${formatDateTime(message.timestamp)}</div>
+  ${attachments}${message.text ? `<div class="content">${content}</div>` : ''}
+</div>`;
+    }).join('\n');
+    return `<section>\n<h1>${escapeHtml(titleOf(session))}</h1>\n${messages}\n</section>`;
+  }).join('\n');
+
+  const title = sessions.length === 1 ? titleOf(sessions[0]) : 'k-ite';
+  return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+${await loadKatexCss()}
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+};
+
+// Builds the file and hands it to the browser as a download
+export const downloadSessions = async (sessions: ChatSession[], format: ExportFormat) => {
+  const content = format === 'json' ? toJson(sessions) : format === 'markdown' ? toMarkdown(sessions) : await toHtml(sessions);
+  const baseName = sessions.length === 1
+    ? safeFileName(titleOf(sessions[0]))
+    : `k-ite-${new Date().toISOString().slice(0, 10)}`;
+
+  downloadBlob(new Blob([content], { type: MIME_TYPES[format] }), `${baseName}.${FILE_EXTENSIONS[format]}`);
+};
+
+// --- Import ---
+
+// type/subtype only; anything else could break out of the data URLs the HTML export builds
+const MIME_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+$/;
+
+// Attachment data is decoded with atob when the import is saved; checking it up front rejects the whole
+// file instead of failing halfway through writing it
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Position of the record being validated, 1-based, for error messages
+type Location = { session: number; message: number };
+
+const parseAttachment = (value: unknown, where: Location): Attachment => {
+  if (!isObject(value) || typeof value.mimeType !== 'string' || !MIME_TYPE_PATTERN.test(value.mimeType) || typeof value.data !== 'string' || !BASE64_PATTERN.test(value.data)) {
+    throw new Error(t('import.invalidAttachment', where));
+  }
+  return {
+    mimeType: value.mimeType,
+    data: value.data,
+    ...(typeof value.fileName === 'string' && { fileName: value.fileName }),
+  };
+};
+
+const parseMessage = (value: unknown, where: Location): Message => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.text !== 'string') {
+    throw new Error(t('import.invalidMessage', where));
+  }
+  if (value.sender !== Sender.User && value.sender !== Sender.Model) {
+    throw new Error(t('import.invalidSender', where));
+  }
+  const timestamp = new Date(value.timestamp);
+  if (isNaN(timestamp.getTime())) throw new Error(t('import.invalidTimestamp', where));
+  if (value.parentId !== undefined && value.parentId !== null && typeof value.parentId !== 'string') {
+    throw new Error(t('import.invalidMessage', where));
+  }
+  if (value.attachments !== undefined && !Array.isArray(value.attachments)) {
+    throw new Error(t('import.invalidAttachment', where));
+  }
+
+  const toolCalls = parseToolCalls(value.toolCalls);
+  const imageOptions = value.isImageRequest === true ? sanitizeImageOptions(value.imageOptions) : undefined;
+  const attachmentCount = value.attachments?.length || 0;
+
+  return {
+    id: value.id,
+    sender: value.sender,
+    text: value.text,
+    timestamp,
+    ...(value.parentId !== undefined && { parentId: value.parentId }),
+    ...(value.isError === true && { isError: true }),
+    ...(value.isError === true && typeof value.errorKind === 'string' && Object.keys(ERROR_MESSAGES).includes(value.errorKind) && { errorKind: value.errorKind as ApiErrorKind }),
+    ...(value.isImageRequest === true && { isImageRequest: true }),
+    ...(value.attachments?.length && {
+      attachments: value.attachments.map((a: unknown) => parseAttachment(a, where)),
+    }),
+    ...(imageOptions && { imageOptions }),
+    // Index of the variant picked among the reply's images
+    ...(Number.isInteger(value.selectedImage) && value.selectedImage >= 0 && value.selectedImage < attachmentCount && { selectedImage: value.selectedImage }),
+    ...(toolCalls && { toolCalls }),
+  };
+};
+
+// Tool calls are only shown, never replayed, so malformed ones are dropped rather than failing the import
+const parseToolCalls = (value: unknown): ToolCall[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const calls = value.filter((c: unknown): c is ToolCall =>
+    isObject(c) && typeof c.id === 'string' && typeof c.name === 'string' && isObject(c.args) &&
+    (c.status === 'done' || c.status === 'error' || c.status === 'running') &&
+    (c.result === undefined || isObject(c.result))
+  ).map(c => ({
+    id: c.id,
+    name: c.name,
+    args: c.args,
+    // A call still running when the chat was exported never finished
+    status: c.status === 'done' ? 'done' as const : 'error' as const,
+    ...(c.result && { result: c.result }),
+  }));
+  return calls.length > 0 ? calls : undefined;
+};
+
+// A malformed persona is dropped rather than failing the import; the chat falls back to k-ite
+const parsePersona = (value: unknown): SessionPersona | undefined => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || typeof value.systemInstruction !== 'string') {
+    return undefined;
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    systemInstruction: value.systemInstruction,
+    ...(typeof value.avatar === 'string' && { avatar: value.avatar }),
+  };
+};
+
+// The tree walkers follow parentId up to a root, so every parent must be in the session and no chain may loop
+const validateMessageTree = (messages: Message[], session: number) => {
+  const indexById = new Map<string, number>();
+  messages.forEach((m, i) => {
+    if (indexById.has(m.id)) throw new Error(t('import.duplicateMessage', { session, message: i + 1 }));
+    indexById.set(m.id, i);
+  });
+  messages.forEach((m, i) => {
+    if (m.parentId && !indexById.has(m.parentId)) throw new Error(t('import.missingParent', { session, message: i + 1 }));
+  });
+
+  // Messages known to lead up to a root without looping
+  const rooted = new Set<string>();
+  messages.forEach((m, i) => {
+    const chain = new Set<string>();
+    let current: Message | undefined = m;
+    while (current && !rooted.has(current.id)) {
+      if (chain.has(current.id)) throw new Error(t('import.messageCycle', { session, message: i + 1 }));
+      chain.add(current.id);
+      current = current.parentId ? messages[indexById.get(current.parentId)!] : undefined;
+    }
+    chain.forEach(id => rooted.add(id));
+  });
+};
+
+// Likewise for the context summary; without it the history is simply compacted again when needed
+const parseContextSummary = (value: unknown): ContextSummary | undefined => {
+  if (!isObject(value) || typeof value.text !== 'string' || typeof value.upToMessageId !== 'string') {
+    return undefined;
+  }
+  return { text: value.text, upToMessageId: value.upToMessageId };
+};
+
+const parseSession = (value: unknown, index: number): ChatSession => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.title !== 'string' || !Array.isArray(value.messages)) {
+    throw new Error(t('import.invalidSession', { session: index + 1 }));
+  }
+  const messages = value.messages.map((m: unknown, i: number) => parseMessage(m, { session: index + 1, message: i + 1 }));
+  validateMessageTree(messages, index + 1);
+  const persona = parsePersona(value.persona);
+  const generationSettings = sanitizeGenerationSettings(value.generationSettings);
+  const contextSummary = parseContextSummary(value.contextSummary);
+  // Folders and tags are the exporting user's; ids without a match here are ignored when shown
+  const tagIds = Array.isArray(value.tagIds) ? value.tagIds.filter((id: unknown): id is string => typeof id === 'string') : [];
+  return {
+    id: value.id,
+    title: value.title,
+    ...((value.titleSource === 'generated' || value.titleSource === 'manual') && { titleSource: value.titleSource }),
+    ...(persona && { persona }),
+    ...(value.pinned === true && { pinned: true }),
+    ...(typeof value.folderId === 'string' && { folderId: value.folderId }),
+    ...(tagIds.length > 0 && { tagIds }),
+    ...(typeof value.systemInstruction === 'string' && value.systemInstruction && { systemInstruction: value.systemInstruction }),
+    ...(!isEmptyGenerationSettings(generationSettings) && { generationSettings }),
+    ...(contextSummary && { contextSummary }),
+    messages,
+    ...(typeof value.activeLeafId === 'string' && { activeLeafId: value.activeLeafId }),
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : Date.now(),
+  };
+};
+
+// Validates a JSON export; throws an Error with a user-facing message when the file can't be used
+export const parseSessionsExport = (text: string): ChatSession[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t('import.invalidJson'));
+  }
+
+  if (!isObject(data) || data.format !== EXPORT_FORMAT_ID || typeof data.version !== 'number') {
+    throw new Error(t('import.notAnExport'));
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error(t('import.newerVersion'));
+  }
+  if (!Array.isArray(data.sessions)) throw new Error(t('import.noSessions'));
+
+  return data.sessions.map(parseSession);
+};
+
+// Imported sessions that clash with an existing id get a new one, unless they are the very same
+// session (same id and last update), which is skipped so importing a file twice doesn't duplicate it
+export const mergeImportedSessions = (
+  existing: { id: string; updatedAt: number }[],
+  imported: ChatSession[],
+): ChatSession[] => {
+  const taken = new Map(existing.map(s => [s.id, s.updatedAt]));
+  const merged: ChatSession[] = [];
+
+  for (const session of imported) {
+    if (taken.get(session.id) === session.updatedAt) continue;
+
+    let id = session.id;
+    while (taken.has(id)) {
+      id = `${session.id}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+    taken.set(id, session.updatedAt);
+    merged.push({ ...session, id });
+  }
+  return merged;
+};
@@ -0,0 +1,98 @@
+import { t, MessageKey } from './i18n';
+
+// Turns a Markdown reply into text worth reading aloud: formatting is dropped, code blocks are
+// announced rather than spelled out, and LaTeX is read as words in the UI language.
+
+const GREEK = ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'theta', 'lambda', 'mu', 'pi', 'sigma', 'phi', 'omega'];
+
+// LaTeX commands and operators read as a word
+const MATH_WORDS: [RegExp, MessageKey][] = [
+  [/\\(?:cdot|times)/g, 'speech.math.times'],
+  [/\\div|÷/g, 'speech.math.dividedBy'],
+  [/\\pm/g, 'speech.math.plusMinus'],
+  [/\\(?:leq?|leqslant)|≤/g, 'speech.math.lessOrEqual'],
+  [/\\(?:geq?|geqslant)|≥/g, 'speech.math.greaterOrEqual'],
+  [/\\(?:neq?)|≠/g, 'speech.math.notEqual'],
+  [/\\approx|≈/g, 'speech.math.approx'],
+  [/\\infty|∞/g, 'speech.math.infinity'],
+  [/\\sum/g, 'speech.math.sum'],
+  [/\\int/g, 'speech.math.integral'],
+  [/\\to|\\rightarrow|→/g, 'speech.math.to'],
+  [/=/g, 'speech.math.equals'],
+  [/\+/g, 'speech.math.plus'],
+  [/(?<=[\w)}\s])-(?=[\w({\s\\])/g, 'speech.math.minus'],
+  [/</g, 'speech.math.less'],
+  [/>/g, 'speech.math.greater'],
+];
+
+export const verbalizeLatex = (latex: string) => {
+  let text = latex
+    .replace(/\\(?:left|right|displaystyle|mathrm|mathbf|text|operatorname|,|;|!|quad|qquad)/g, ' ')
+    .replace(/\\frac\s*{([^{}]*)}\s*{([^{}]*)}/g, (_, a, b) => ` ${a} ${t('speech.math.over')} ${b} `)
+    .replace(/\\sqrt\s*{([^{}]*)}/g, (_, a) => ` ${t('speech.math.sqrt')} ${a} `)
+    .replace(/\^\s*(?:\{2\}|2)(?![\d])/g, ` ${t('speech.math.squared')} `)
+    .replace(/\^\s*(?:\{3\}|3)(?![\d])/g, ` ${t('speech.math.cubed')} `)
+    .replace(/\^\s*(?:{([^{}]*)}|(\w))/g, (_, a, b) => ` ${t('speech.math.power')} ${a ?? b} `)
+    .replace(/_\s*(?:{([^{}]*)}|(\w))/g, (_, a, b) => ` ${a ?? b} `);
+  for (const [pattern, key] of MATH_WORDS) text = text.replace(pattern, ` ${t(key)} `);
+  text = text.replace(new RegExp(`\\\\(${GREEK.join('|')})\\b`, 'gi'), ' $1 ');
+  return text.replace(/\\[a-zA-Z]+/g, ' ').replace(/[{}\\&]/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+export const toSpeechText = (markdown: string) => markdown
+  // Fenced code: announce it, unless it is a diagram or chart
+  .replace(/```[ \t]*([\w+#-]*)[^\n]*\n[\s\S]*?(?:```|$)/g, (_, language: string) => {
+    const tag = language.toLowerCase();
+    if (tag === 'mermaid') return `\n${t('speech.diagram')}\n`;
+    if (['chart', 'vega-lite', 'vegalite'].includes(tag)) return `\n${t('speech.chart')}\n`;
+    return `\n${language ? t('speech.codeBlock', { language }) : t('speech.codeBlockPlain')}\n`;
+  })
+  .replace(/\$\$([\s\S]+?)\$\$/g, (_, latex) => `\n${verbalizeLatex(latex)}.\n`)
+  .replace(/\\\[([\s\S]+?)\\\]/g, (_, latex) => `\n${verbalizeLatex(latex)}.\n`)
+  .replace(/\\\((.+?)\\\)/g, (_, latex) => verbalizeLatex(latex))
+  .replace(/(?<![\w$])\$(?!\s)([^$\n]+?)\$(?!\d)/g, (_, latex) => verbalizeLatex(latex))
+  .replace(/`([^`\n]+)`/g, '$1')
+  .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/https?:\/\/\S+/g, t('speech.link'))
+  .replace(/<[^>]+>/g, '')
+  // Tables: separator rows go, cells are read as a list
+  .replace(/^[ \t]*\|?[ \t:|-]+\|[ \t:|-]*$/gm, '')
+  .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, cells: string) => cells.split('|').map(c => c.trim()).filter(Boolean).join(', ') + '.')
+  .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*)$/gm, '$1.')
+  .replace(/^[ \t]*>[ \t]?/gm, '')
+  .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, '')
+  .replace(/^[ \t]*(?:[-*_][ \t]*){3,}$/gm, '')
+  .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+  .replace(/(?<![\w*])[*_](?!\s)(.+?)(?<!\s)[*_](?![\w*])/g, '$1')
+  .replace(/\.\.(?=\s|$)/g, '.')
+  .replace(/[ \t]+/g, ' ')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Pieces of at most `maxLength` characters, split at paragraph, then sentence, then word boundaries
+export const splitForSpeech = (text: string, maxLength: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  const push = () => {
+    if (current.trim()) pieces.push(current.trim());
+    current = '';
+  };
+
+  // A line without closing punctuation (list item, heading...) still ends a sentence
+  const lines = text.split(/\n+/).map(line => line.trim()).filter(Boolean).map(line => /[.!?…:;,]$/.test(line) ? line : `${line}.`);
+  const sentences = lines.flatMap(line => line.match(/.+?(?:[.!?…]+(?=\s|$)|$)/g) || []);
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > maxLength) push();
+    if (sentence.length <= maxLength) {
+      current += (current ? ' ' : '') + sentence.trim();
+      continue;
+    }
+    for (const word of sentence.split(/\s+/)) {
+      if (current && current.length + word.length + 1 > maxLength) push();
+      current += (current ? ' ' : '') + word;
+    }
+  }
+  push();
+  return pieces;
+};
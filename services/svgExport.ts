@@ -0,0 +1,45 @@
+import { downloadBlob, safeFileName } from './download';
+
+// Saves a rendered diagram or chart as an SVG file, or rasterized to PNG
+
+const PNG_SCALE = 2; // Sharp on high-density screens
+
+const serialize = (svg: SVGSVGElement) => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  const { width, height } = svg.getBoundingClientRect();
+  // Responsive SVGs have no intrinsic size; give the file the one shown on screen
+  clone.setAttribute('width', String(Math.ceil(width)));
+  clone.setAttribute('height', String(Math.ceil(height)));
+  clone.removeAttribute('style');
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+export const downloadSvg = (svg: SVGSVGElement, name: string) => {
+  const { markup } = serialize(svg);
+  downloadBlob(new Blob([markup], { type: 'image/svg+xml' }), `${safeFileName(name)}.svg`);
+};
+
+export const downloadPng = async (svg: SVGSVGElement, name: string) => {
+  const { markup, width, height } = serialize(svg);
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * PNG_SCALE);
+    canvas.height = Math.ceil(height * PNG_SCALE);
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error('PNG encoding failed');
+    downloadBlob(png, `${safeFileName(name)}.png`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,149 @@
+import type { HLJSApi, LanguageFn } from 'highlight.js';
+
+// Syntax highlighting for code blocks with highlight.js. Only the core is bundled up front; each
+// grammar is its own chunk, fetched the first time a block in that language shows up. Results are
+// cached per block content, so re-rendering a message doesn't highlight its finished blocks again.
+
+type GrammarLoader = () => Promise<{ default: LanguageFn }>;
+
+const GRAMMARS: Record<string, GrammarLoader> = {
+  javascript: () => import('highlight.js/lib/languages/javascript'),
+  typescript: () => import('highlight.js/lib/languages/typescript'),
+  python: () => import('highlight.js/lib/languages/python'),
+  java: () => import('highlight.js/lib/languages/java'),
+  c: () => import('highlight.js/lib/languages/c'),
+  cpp: () => import('highlight.js/lib/languages/cpp'),
+  csharp: () => import('highlight.js/lib/languages/csharp'),
+  go: () => import('highlight.js/lib/languages/go'),
+  rust: () => import('highlight.js/lib/languages/rust'),
+  ruby: () => import('highlight.js/lib/languages/ruby'),
+  php: () => import('highlight.js/lib/languages/php'),
+  swift: () => import('highlight.js/lib/languages/swift'),
+  kotlin: () => import('highlight.js/lib/languages/kotlin'),
+  scala: () => import('highlight.js/lib/languages/scala'),
+  dart: () => import('highlight.js/lib/languages/dart'),
+  lua: () => import('highlight.js/lib/languages/lua'),
+  r: () => import('highlight.js/lib/languages/r'),
+  perl: () => import('highlight.js/lib/languages/perl'),
+  haskell: () => import('highlight.js/lib/languages/haskell'),
+  bash: () => import('highlight.js/lib/languages/bash'),
+  powershell: () => import('highlight.js/lib/languages/powershell'),
+  sql: () => import('highlight.js/lib/languages/sql'),
+  json: () => import('highlight.js/lib/languages/json'),
+  yaml: () => import('highlight.js/lib/languages/yaml'),
+  ini: () => import('highlight.js/lib/languages/ini'),
+  xml: () => import('highlight.js/lib/languages/xml'),
+  css: () => import('highlight.js/lib/languages/css'),
+  scss: () => import('highlight.js/lib/languages/scss'),
+  markdown: () => import('highlight.js/lib/languages/markdown'),
+  latex: () => import('highlight.js/lib/languages/latex'),
+  dockerfile: () => import('highlight.js/lib/languages/dockerfile'),
+  makefile: () => import('highlight.js/lib/languages/makefile'),
+  graphql: () => import('highlight.js/lib/languages/graphql'),
+  diff: () => import('highlight.js/lib/languages/diff'),
+};
+
+// Fence tags → grammar
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', node: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python', python3: 'python',
+  h: 'c', 'c++': 'cpp', cc: 'cpp', hpp: 'cpp', cs: 'csharp', 'c#': 'csharp',
+  golang: 'go', rs: 'rust', rb: 'ruby', kt: 'kotlin', pl: 'perl', hs: 'haskell',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash', ps1: 'powershell', ps: 'powershell',
+  yml: 'yaml', toml: 'ini', html: 'xml', htm: 'xml', svg: 'xml', vue: 'xml',
+  md: 'markdown', tex: 'latex', docker: 'dockerfile', make: 'makefile', gql: 'graphql', patch: 'diff',
+};
+
+// File extension for downloading a block, by fence tag and then by grammar
+const EXTENSIONS: Record<string, string> = {
+  javascript: 'js', jsx: 'jsx', mjs: 'mjs', cjs: 'cjs', typescript: 'ts', tsx: 'tsx', python: 'py',
+  java: 'java', c: 'c', h: 'h', cpp: 'cpp', hpp: 'hpp', csharp: 'cs', go: 'go', rust: 'rs', ruby: 'rb',
+  php: 'php', swift: 'swift', kotlin: 'kt', scala: 'scala', dart: 'dart', lua: 'lua', r: 'r', perl: 'pl',
+  haskell: 'hs', bash: 'sh', zsh: 'zsh', powershell: 'ps1', sql: 'sql', json: 'json', yaml: 'yaml',
+  toml: 'toml', ini: 'ini', xml: 'xml', html: 'html', svg: 'svg', vue: 'vue', css: 'css', scss: 'scss',
+  markdown: 'md', latex: 'tex', dockerfile: 'Dockerfile', makefile: 'Makefile', graphql: 'graphql',
+  diff: 'diff', mermaid: 'mmd', chart: 'json', csv: 'csv', text: 'txt', txt: 'txt',
+};
+
+const resolveGrammar = (tag: string) => {
+  const name = tag.toLowerCase();
+  return GRAMMARS[name] ? name : ALIASES[name];
+};
+
+// "script.py", "Dockerfile"...
+export const getDownloadName = (tag: string) => {
+  const name = tag.toLowerCase();
+  const extension = EXTENSIONS[name] || EXTENSIONS[resolveGrammar(name)] || 'txt';
+  return /^[A-Z]/.test(extension) ? extension : `snippet.${extension}`;
+};
+
+let core: Promise<HLJSApi> | null = null;
+const loading = new Map<string, Promise<boolean>>();
+
+const loadGrammar = (grammar: string) => {
+  if (!loading.has(grammar)) {
+    core ??= import('highlight.js/lib/core').then(module => module.default as HLJSApi);
+    loading.set(grammar, Promise.all([core, GRAMMARS[grammar]()])
+      .then(([hljs, { default: language }]) => {
+        hljs.registerLanguage(grammar, language);
+        return true;
+      })
+      .catch(error => {
+        console.error(`Failed to load the ${grammar} grammar`, error);
+        loading.delete(grammar); // Retried with the next block
+        return false;
+      }));
+  }
+  return loading.get(grammar)!;
+};
+
+// highlight.js output is one HTML string; spans crossing a line break are closed at the end of the
+// line and reopened on the next, so every line can be rendered (and wrapped) on its own
+const splitLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = '';
+  for (const token of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (!token) continue;
+    if (token === '\n') {
+      lines.push(line + '</span>'.repeat(open.length));
+      line = open.join('');
+    } else {
+      if (token === '</span>') open.pop();
+      else if (token.startsWith('<span')) open.push(token);
+      line += token;
+    }
+  }
+  lines.push(line);
+  return lines;
+};
+
+const CACHE_SIZE = 200;
+const cache = new Map<string, string[]>();
+
+const cacheKey = (code: string, grammar: string) => `${grammar}\u0000${code}`;
+
+// Lines already highlighted for this block, so a block that is rendered again shows them at once
+export const getCachedHighlight = (code: string, tag: string) => {
+  const grammar = resolveGrammar(tag);
+  return grammar ? cache.get(cacheKey(code, grammar)) : undefined;
+};
+
+// The block as lines of highlighted HTML, or null for languages without a grammar
+export const highlightCode = async (code: string, tag: string): Promise<string[] | null> => {
+  const grammar = resolveGrammar(tag);
+  if (!grammar) return null;
+
+  const key = cacheKey(code, grammar);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  if (!(await loadGrammar(grammar))) return null;
+  const hljs = await core!;
+  const lines = splitLines(hljs.highlight(code, { language: grammar, ignoreIllegals: true }).value);
+
+  cache.set(key, lines);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  return lines;
+};
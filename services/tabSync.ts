@@ -0,0 +1,73 @@
+import { ChatSessionMeta, Message } from '../types';
+
+// Keeps the tabs a user has open in step. Every tab writes to the same session store, so each one
+// tells the others what it changed over a BroadcastChannel: sessions are merged by updatedAt, and the
+// messages of a reply are sent as they stream so other tabs showing the session can follow along.
+// Generating a reply holds a Web Lock on the session, so only one tab at a time replies in it.
+
+export type TabSyncEvent =
+  | { type: 'session'; session: ChatSessionMeta } // Created or changed
+  | { type: 'messages'; sessionId: string; messages: Message[] } // Added or changed
+  | { type: 'deleted'; sessionId: string }
+  | { type: 'cleared' }
+  | { type: 'replying'; sessionId: string } // Started generating; done once the lock is released
+  | { type: 'stop'; sessionId: string }; // Asks the tab replying in the session to stop
+
+export interface TabSync {
+  post: (event: TabSyncEvent) => void;
+  close: () => void;
+}
+
+export const openTabSync = (email: string, onEvent: (event: TabSyncEvent) => void): TabSync => {
+  // Browsers without BroadcastChannel behave as if each tab were alone
+  if (typeof BroadcastChannel === 'undefined') return { post: () => {}, close: () => {} };
+
+  const channel = new BroadcastChannel(`kite_sessions_${email}`);
+  channel.onmessage = (event: MessageEvent<TabSyncEvent>) => onEvent(event.data);
+  return {
+    post: (event) => channel.postMessage(event),
+    close: () => channel.close(),
+  };
+};
+
+// The newer copy of each session wins; sessions stay sorted newest first
+export const mergeSession = (sessions: ChatSessionMeta[], incoming: ChatSessionMeta): ChatSessionMeta[] => {
+  const existing = sessions.find(s => s.id === incoming.id);
+  if (existing && existing.updatedAt > incoming.updatedAt) return sessions;
+  return [...sessions.filter(s => s.id !== incoming.id), incoming].sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const mergeMessages = (tree: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map(incoming.map(message => [message.id, message]));
+  const merged = tree.map(message => byId.get(message.id) ?? message);
+  const known = new Set(tree.map(message => message.id));
+  return [...merged, ...incoming.filter(message => !known.has(message.id))];
+};
+
+const lockName = (email: string, sessionId: string) => `kite_reply_${email}_${sessionId}`;
+
+const hasLocks = () => typeof navigator !== 'undefined' && 'locks' in navigator;
+
+// Runs `generate` while holding the session's reply lock. Resolves to false, without running it,
+// when another tab is replying in the session.
+export const withReplyLock = async (email: string, sessionId: string, generate: () => Promise<void>): Promise<boolean> => {
+  if (!hasLocks()) {
+    await generate();
+    return true;
+  }
+  return navigator.locks.request(lockName(email, sessionId), { ifAvailable: true }, async lock => {
+    if (!lock) return false;
+    await generate();
+    return true;
+  });
+};
+
+// Resolves once no tab is replying in the session, including when the replying tab is closed. The
+// lock is polled rather than queued for, which would keep the replying tab from taking it again.
+export const waitForReply = async (email: string, sessionId: string) => {
+  if (!hasLocks()) return;
+  const name = lockName(email, sessionId);
+  while ((await navigator.locks.query()).held?.some(lock => lock.name === name)) {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+};
@@ -0,0 +1,105 @@
+import { transcribeAudio, TranscriptionOptions } from './llm';
+import { decodeAudio, encodeWav, getSpeechThreshold, hasSpeech, splitAtPauses } from './audio';
+
+// Voice input: the user's transcription settings, and transcribing a recording. Recordings are
+// checked locally first so silence never reaches the API; long ones are cut at pauses and
+// transcribed piece by piece, with the text so far reported as each piece comes back.
+
+export const TRANSCRIPTION_LANGUAGES: { id: string; label: string }[] = [
+  { id: 'vi', label: 'Tiếng Việt' },
+  { id: 'en', label: 'English' },
+  { id: 'zh', label: '中文' },
+  { id: 'ja', label: '日本語' },
+  { id: 'ko', label: '한국어' },
+  { id: 'fr', label: 'Français' },
+  { id: 'de', label: 'Deutsch' },
+  { id: 'es', label: 'Español' },
+  { id: 'th', label: 'ไทย' },
+  { id: 'id', label: 'Bahasa Indonesia' },
+];
+
+export interface TranscriptionSettings {
+  language: string; // 'auto' or a TRANSCRIPTION_LANGUAGES id
+  translateTo?: string;
+  timestamps: boolean;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = { language: 'auto', timestamps: false };
+
+const CHUNK_SECONDS = 60; // Longer recordings are transcribed in pieces
+const NO_SPEECH = '[[NO_SPEECH]]'; // What the model answers for clips without speech
+
+const storageKey = (email: string) => `kite_transcription_${email}`;
+
+const isLanguage = (value: unknown): value is string => TRANSCRIPTION_LANGUAGES.some(l => l.id === value);
+
+export const sanitizeTranscriptionSettings = (value: unknown): TranscriptionSettings => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_TRANSCRIPTION_SETTINGS;
+  const input = value as Record<string, unknown>;
+  return {
+    language: isLanguage(input.language) ? input.language : 'auto',
+    ...(isLanguage(input.translateTo) && { translateTo: input.translateTo }),
+    timestamps: input.timestamps === true,
+  };
+};
+
+export const loadTranscriptionSettings = (email: string): TranscriptionSettings => {
+  try {
+    return sanitizeTranscriptionSettings(JSON.parse(localStorage.getItem(storageKey(email)) || '{}'));
+  } catch {
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+};
+
+export const saveTranscriptionSettings = (email: string, settings: TranscriptionSettings) => {
+  localStorage.setItem(storageKey(email), JSON.stringify(settings));
+};
+
+const toOptions = ({ language, translateTo, timestamps }: TranscriptionSettings): TranscriptionOptions => ({
+  ...(language !== 'auto' && { language }),
+  ...(translateTo && translateTo !== language && { translateTo }),
+  ...(timestamps && { timestamps }),
+});
+
+const cleanTranscript = (text: string | undefined) => {
+  const transcript = text?.trim() || '';
+  return transcript === NO_SPEECH ? '' : transcript.replace(NO_SPEECH, '').trim();
+};
+
+const formatTime = (seconds: number) =>
+  `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// [mm:ss] markers of a piece are relative to the piece; shift them to the whole recording
+export const offsetTimestamps = (text: string, seconds: number) => seconds === 0 ? text :
+  text.replace(/\[(\d{1,3}):(\d{2})\]/g, (_, minutes, secs) => `[${formatTime(Number(minutes) * 60 + Number(secs) + seconds)}]`);
+
+// The transcript, or '' when the recording holds no speech
+export const transcribeRecording = async (audio: Blob, settings: TranscriptionSettings, onPartial?: (text: string) => void): Promise<string> => {
+  const options = toOptions(settings);
+
+  let samples: Float32Array;
+  try {
+    samples = await decodeAudio(audio);
+  } catch (e) {
+    // Formats the browser can't decode still go to the model, unchecked
+    console.warn("Could not analyze the recording", e);
+    return cleanTranscript((await transcribeAudio(audio, options)).text);
+  }
+  const threshold = getSpeechThreshold(samples);
+  if (!hasSpeech(samples, threshold)) return '';
+
+  const chunks = splitAtPauses(samples, CHUNK_SECONDS);
+  // A short recording is uploaded as recorded, which is smaller than WAV
+  if (chunks.length === 1) return cleanTranscript((await transcribeAudio(audio, options)).text);
+
+  const separator = settings.timestamps ? '\n' : ' ';
+  const parts: string[] = [];
+  for (const chunk of chunks) {
+    if (!hasSpeech(chunk.samples, threshold)) continue;
+    const transcript = cleanTranscript((await transcribeAudio(encodeWav(chunk.samples), options)).text);
+    if (!transcript) continue;
+    parts.push(settings.timestamps ? offsetTimestamps(transcript, chunk.start) : transcript);
+    onPartial?.(parts.join(separator));
+  }
+  return parts.join(separator);
+};
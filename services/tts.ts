@@ -0,0 +1,89 @@
+import { webSpeechProvider } from './webSpeech';
+import { geminiSpeechProvider } from './geminiSpeech';
+
+// Text-to-speech for reading replies aloud. Providers turn plain text (see speechText.ts) into
+// audio; the browser's own Web Speech voices work offline and are the default, Gemini voices go
+// through the API proxy. The user's choice of provider, voice and rate is remembered per user.
+
+export type TtsProviderId = 'webSpeech' | 'gemini';
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  lang?: string;
+}
+
+export interface SpeakOptions {
+  voice?: string; // Provider default when unset or no longer available
+  rate: number;
+  lang: string; // BCP 47 tag of the UI language, used to pick a default voice
+}
+
+// One reading in progress. `finished` settles when it ends, is stopped, or fails.
+export interface Playback {
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  finished: Promise<void>;
+}
+
+export type SpeechStatus = 'playing' | 'paused';
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  isAvailable: () => boolean;
+  getVoices: () => Promise<TtsVoice[]>;
+  speak: (text: string, options: SpeakOptions) => Playback;
+}
+
+export interface SpeechSettings {
+  provider: TtsProviderId;
+  voice?: string;
+  rate: number;
+  autoRead: boolean; // Read new replies as soon as they are complete
+}
+
+export const RATE_LIMITS = { min: 0.5, max: 2, step: 0.1 };
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { provider: 'webSpeech', rate: 1, autoRead: false };
+
+const providers: Record<TtsProviderId, TtsProvider> = {
+  webSpeech: webSpeechProvider,
+  gemini: geminiSpeechProvider,
+};
+
+export const TTS_PROVIDERS = Object.keys(providers) as TtsProviderId[];
+
+// Falls back to Web Speech when the chosen provider can't run here
+export const getTtsProvider = (id: TtsProviderId): TtsProvider => {
+  const provider = providers[id];
+  return provider?.isAvailable() ? provider : webSpeechProvider;
+};
+
+const storageKey = (email: string) => `kite_speech_${email}`;
+
+export const sanitizeSpeechSettings = (value: unknown): SpeechSettings => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_SPEECH_SETTINGS;
+  const input = value as Record<string, unknown>;
+  const rate = typeof input.rate === 'number' && Number.isFinite(input.rate)
+    ? Math.min(RATE_LIMITS.max, Math.max(RATE_LIMITS.min, input.rate))
+    : DEFAULT_SPEECH_SETTINGS.rate;
+  return {
+    provider: TTS_PROVIDERS.includes(input.provider as TtsProviderId) ? input.provider as TtsProviderId : DEFAULT_SPEECH_SETTINGS.provider,
+    ...(typeof input.voice === 'string' && input.voice && { voice: input.voice }),
+    rate,
+    autoRead: input.autoRead === true,
+  };
+};
+
+export const loadSpeechSettings = (email: string): SpeechSettings => {
+  try {
+    return sanitizeSpeechSettings(JSON.parse(localStorage.getItem(storageKey(email)) || '{}'));
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (email: string, settings: SpeechSettings) => {
+  localStorage.setItem(storageKey(email), JSON.stringify(settings));
+};
@@ -0,0 +1,113 @@
+// Client-side voice activity detection for the hands-free voice mode. The microphone level is
+// compared with an adaptive noise floor; each utterance is recorded on its own and handed over
+// once the speaker has been quiet for a moment, ready for transcription.
+
+const FRAME_MS = 30;
+const START_MS = 150; // Loud this long before it counts as speech (a cough or a click doesn't)
+const END_SILENCE_MS = 900; // Quiet this long and the utterance is over
+const MIN_SPEECH_MS = 400; // Shorter utterances are dropped
+const MAX_SEGMENT_MS = 30_000; // Long monologues are cut so transcription keeps up
+const MIN_THRESHOLD = 0.012; // RMS of a quiet room with a decent microphone
+const THRESHOLD_RATIO = 3; // Speech is this many times louder than the noise floor
+
+export interface VoiceActivityOptions {
+  onSpeechStart: () => void;
+  onSpeechEnd: (audio: Blob | null) => void; // Null when too short to be worth transcribing
+  onLevel?: (level: number) => void; // 0..1, for a level meter
+}
+
+export interface VoiceActivityDetector {
+  isSpeaking: () => boolean;
+  stop: () => void;
+}
+
+// Resolves once the microphone is open; rejects when access is denied
+export const startVoiceActivity = async ({ onSpeechStart, onSpeechEnd, onLevel }: VoiceActivityOptions): Promise<VoiceActivityDetector> => {
+  // Echo cancellation keeps the reply being read aloud from counting as the user speaking
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+  });
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  let noiseFloor = MIN_THRESHOLD / THRESHOLD_RATIO;
+  let loudMs = 0;
+  let quietMs = 0;
+  let segmentMs = 0;
+  let inSpeech = false;
+  let recorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+
+  // Recording starts on the first loud frame so the beginning of the first word isn't lost
+  const startRecording = () => {
+    chunks = [];
+    recorder = new MediaRecorder(stream);
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start();
+  };
+
+  const stopRecording = (onStopped?: (audio: Blob) => void) => {
+    const current = recorder;
+    recorder = null;
+    if (!current || current.state === 'inactive') return;
+    current.onstop = () => onStopped?.(new Blob(chunks, { type: current.mimeType || 'audio/webm' }));
+    current.stop();
+  };
+
+  const tick = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    const rms = Math.sqrt(sum / samples.length);
+    const threshold = Math.max(MIN_THRESHOLD, noiseFloor * THRESHOLD_RATIO);
+    onLevel?.(Math.min(1, rms / (threshold * 4)));
+
+    if (!inSpeech) {
+      if (rms > threshold) {
+        if (!recorder) startRecording();
+        loudMs += FRAME_MS;
+        if (loudMs >= START_MS) {
+          inSpeech = true;
+          quietMs = 0;
+          segmentMs = loudMs;
+          onSpeechStart();
+        }
+      } else {
+        if (recorder) stopRecording(); // Only a blip
+        loudMs = 0;
+        noiseFloor = noiseFloor * 0.95 + rms * 0.05;
+      }
+      return;
+    }
+
+    segmentMs += FRAME_MS;
+    quietMs = rms < threshold * 0.8 ? quietMs + FRAME_MS : 0;
+    if (quietMs >= END_SILENCE_MS || segmentMs >= MAX_SEGMENT_MS) {
+      if (segmentMs - quietMs >= MIN_SPEECH_MS) {
+        stopRecording(onSpeechEnd);
+      } else {
+        stopRecording();
+        onSpeechEnd(null);
+      }
+      inSpeech = false;
+      loudMs = 0;
+    }
+  };
+
+  const timer = setInterval(tick, FRAME_MS);
+
+  return {
+    isSpeaking: () => inSpeech,
+    stop: () => {
+      clearInterval(timer);
+      stopRecording();
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+    },
+  };
+};
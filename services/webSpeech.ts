@@ -0,0 +1,75 @@
+import { Playback, SpeakOptions, TtsProvider, TtsVoice } from './tts';
+import { splitForSpeech } from './speechText';
+
+// Browser speech synthesis. Works offline with the voices installed on the device.
+// Long utterances get cut off by some engines (Chrome stops after ~15 s), so the text is queued
+// as sentence-sized pieces.
+
+const PIECE_LENGTH = 200;
+
+const isAvailable = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// The voice list is filled asynchronously on first use in Chrome
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(speechSynthesis.getVoices());
+    };
+    speechSynthesis.addEventListener('voiceschanged', done);
+    setTimeout(done, 1000); // Some browsers never fire it
+  });
+};
+
+const getVoices = async (): Promise<TtsVoice[]> => {
+  if (!isAvailable()) return [];
+  return (await loadVoices()).map(v => ({ id: v.voiceURI, name: v.name, lang: v.lang }));
+};
+
+const pickVoice = (voices: SpeechSynthesisVoice[], { voice, lang }: SpeakOptions) => {
+  const language = lang.split('-')[0];
+  return voices.find(v => v.voiceURI === voice)
+    || voices.find(v => v.lang === lang)
+    || voices.find(v => v.lang.split(/[-_]/)[0] === language);
+};
+
+const speak = (text: string, options: SpeakOptions): Playback => {
+  speechSynthesis.cancel(); // One reading at a time
+  speechSynthesis.resume(); // Chrome stays paused across cancel()
+  let stopped = false;
+
+  const finished = (async () => {
+    const voice = pickVoice(await loadVoices(), options);
+    for (const piece of splitForSpeech(text, PIECE_LENGTH)) {
+      if (stopped) return;
+      await new Promise<void>(resolve => {
+        const utterance = new SpeechSynthesisUtterance(piece);
+        if (voice) utterance.voice = voice;
+        utterance.lang = voice?.lang || options.lang;
+        utterance.rate = options.rate;
+        utterance.onend = () => resolve();
+        utterance.onerror = () => resolve(); // 'interrupted' when stopped; a failed piece is skipped
+        speechSynthesis.speak(utterance);
+      });
+    }
+  })();
+
+  return {
+    pause: () => speechSynthesis.pause(),
+    resume: () => speechSynthesis.resume(),
+    stop: () => {
+      stopped = true;
+      speechSynthesis.cancel();
+    },
+    finished,
+  };
+};
+
+export const webSpeechProvider: TtsProvider = {
+  id: 'webSpeech',
+  isAvailable,
+  getVoices,
+  speak,
+};
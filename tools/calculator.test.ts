@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateExpression } from './calculator';
+import { ToolError } from './registry';
+
+const fails = (expression: string, message: RegExp) =>
+  assert.throws(() => evaluateExpression(expression), (error: unknown) => error instanceof ToolError && message.test(error.message));
+
+test('applies operator precedence', () => {
+  assert.equal(evaluateExpression('2 + 3 * 4'), 14);
+  assert.equal(evaluateExpression('(2 + 3) * 4'), 20);
+  assert.equal(evaluateExpression('10 - 4 - 3'), 3);
+  assert.equal(evaluateExpression('24 / 4 / 2'), 3);
+  assert.equal(evaluateExpression('7 % 4 * 2'), 6);
+  assert.equal(evaluateExpression('2 * 3 ^ 2'), 18);
+  assert.equal(evaluateExpression('2 ^ 3 ^ 2'), 512);
+  assert.equal(evaluateExpression('2 ** 10'), 1024);
+  assert.equal(evaluateExpression('6 × 7 ÷ 2'), 21);
+});
+
+test('handles unary minus and plus', () => {
+  assert.equal(evaluateExpression('-3 + 5'), 2);
+  assert.equal(evaluateExpression('2 * -3'), -6);
+  assert.equal(evaluateExpression('--2'), 2);
+  assert.equal(evaluateExpression('-(1 + 2)'), -3);
+  assert.equal(evaluateExpression('+4 - -1'), 5);
+});
+
+test('evaluates functions and constants', () => {
+  assert.equal(evaluateExpression('sqrt(16) + abs(-2)'), 6);
+  assert.equal(evaluateExpression('max(1, 5, 3)'), 5);
+  assert.equal(evaluateExpression('log(1000)'), 3);
+  assert.equal(evaluateExpression('PI'), Math.PI);
+  assert.equal(evaluateExpression('2e3 + .5'), 2000.5);
+});
+
+test('rejects division by zero and other non-finite results', () => {
+  fails('1 / 0', /not a finite number/);
+  fails('0 / 0', /not a finite number/);
+  fails('sqrt(-1)', /not a finite number/);
+});
+
+test('rejects invalid tokens and malformed expressions', () => {
+  fails('2 $ 3', /Unexpected "\$"/);
+  fails('foo(2)', /Unexpected "foo"/);
+  fails('2 +', /Unexpected end/);
+  fails('(2 + 3', /Expected "\)"/);
+  fails('2 3', /Unexpected "3"/);
+  fails('sqrt 4', /Unexpected "sqrt"/);
+});
+
+test('does not resolve inherited object keys', () => {
+  for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty', 'valueOf']) {
+    fails(name, new RegExp(`Unexpected "${name.toLowerCase()}"`));
+    fails(`${name}(1)`, new RegExp(`Unexpected "${name.toLowerCase()}"`));
+  }
+});
@@ -0,0 +1,144 @@
+import React from 'react';
+import { Calculator } from 'lucide-react';
+import { Tool, ToolError } from './registry';
+
+// Arithmetic evaluated with a small recursive-descent parser, never with eval():
+//   expression := term (('+' | '-') term)*
+//   term       := power (('*' | '/' | '%') power)*
+//   power      := unary ('^' power)?
+//   unary      := '-' unary | '+' unary | primary
+//   primary    := number | constant | function '(' expression (',' expression)* ')' | '(' expression ')'
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const tokenize = (expression: string) => {
+  const tokens = expression.replace(/×/g, '*').replace(/÷/g, '/').match(/\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+|[a-z_]\w*|\*\*|[-+*/%^(),]|\S/gi) || [];
+  return tokens.map(token => token === '**' ? '^' : token.toLowerCase());
+};
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new ToolError(`Expected "${token}" in expression`);
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parsePower();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() !== '^') return base;
+    next();
+    return Math.pow(base, parsePower()); // Right-associative: 2^3^2 = 2^9
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new ToolError('Unexpected end of expression');
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    // Own keys only, so names such as constructor or __proto__ are not mistaken for functions
+    if (Object.hasOwn(FUNCTIONS, token) && peek() === '(') {
+      next();
+      const args = [parseExpression()];
+      while (peek() === ',') {
+        next();
+        args.push(parseExpression());
+      }
+      expect(')');
+      return FUNCTIONS[token](...args);
+    }
+    if (Object.hasOwn(CONSTANTS, token)) return CONSTANTS[token];
+    throw new ToolError(`Unexpected "${token}" in expression`);
+  };
+
+  const value = parseExpression();
+  if (position < tokens.length) throw new ToolError(`Unexpected "${tokens[position]}" in expression`);
+  if (!Number.isFinite(value)) throw new ToolError('The result is not a finite number');
+  return value;
+};
+
+// Rounds away floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+const tidy = (value: number) => Number(value.toPrecision(15));
+
+export const calculatorTool: Tool = {
+  declaration: {
+    name: 'calculate',
+    description: 'Evaluate an arithmetic expression exactly. Use it for any calculation instead of computing in your head. Supports + - * / % ^, parentheses, the functions sqrt, cbrt, abs, sin, cos, tan, asin, acos, atan (radians), ln, log (base 10), log2, exp, floor, ceil, round, min, max, pow and the constants pi and e.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression, e.g. "(12.5 * 4) / sqrt(2)".' },
+      },
+      required: ['expression'],
+    },
+  },
+  execute: async ({ expression }) => {
+    if (typeof expression !== 'string' || !expression.trim()) throw new ToolError('Missing expression');
+    return { response: { expression, result: tidy(evaluateExpression(expression)) } };
+  },
+  icon: Calculator,
+  render: (call) => (
+    <span className="font-mono">
+      {String(call.args.expression)}
+      {call.result && 'result' in call.result && <> = <strong>{String(call.result.result)}</strong></>}
+    </span>
+  ),
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { Tool, ToolError } from './registry';
+
+// The model has no clock; this gives it the user's current date and time, or another time zone's
+
+const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const datetimeTool: Tool = {
+  declaration: {
+    name: 'get_current_datetime',
+    description: 'Get the current date and time. Call it whenever the answer depends on today\'s date, the current time or the day of the week. Without a time zone, returns the user\'s local time.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'Optional IANA time zone, e.g. "Asia/Ho_Chi_Minh" or "Europe/Paris".' },
+      },
+    },
+  },
+  execute: async ({ timeZone }) => {
+    const zone = typeof timeZone === 'string' && timeZone.trim() ? timeZone.trim() : localTimeZone();
+    const now = new Date();
+    let formatted: string;
+    try {
+      formatted = now.toLocaleString('en-US', {
+        timeZone: zone,
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hour12: false,
+        timeZoneName: 'short',
+      });
+    } catch {
+      throw new ToolError(`Unknown time zone: ${zone}`);
+    }
+    return { response: { timeZone: zone, localTime: formatted, utc: now.toISOString() } };
+  },
+  icon: Clock,
+  render: (call) => (
+    <span>
+      {call.result && 'localTime' in call.result ? String(call.result.localTime) : String(call.args.timeZone || localTimeZone())}
+    </span>
+  ),
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Images } from 'lucide-react';
+import { Tool, ToolError } from './registry';
+import { generateImage } from '../services/llm';
+import { t } from '../services/i18n';
+
+// Lets the model draw when the user asks for a picture in the middle of a conversation.
+// The image is attached to the reply; the model only hears that it was shown.
+
+export const imageGenerationTool: Tool = {
+  declaration: {
+    name: 'generate_image',
+    description: 'Call this function when the user asks to draw, generate, create, or make an image/picture/photo. Do not use for general questions.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: {
+          type: 'string',
+          description: 'The detailed description of the image to generate.',
+        },
+      },
+      required: ['prompt'],
+    },
+  },
+  execute: async ({ prompt }, { signal }) => {
+    if (typeof prompt !== 'string' || !prompt.trim()) throw new ToolError('Missing prompt');
+    const { text, attachments } = await generateImage({ prompt });
+    if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+    if (attachments.length === 0) throw new ToolError(text || 'The image could not be generated');
+    return {
+      response: { result: 'The image was generated and is already shown to the user below your reply. Do not describe it in detail or repeat the prompt.' },
+      attachments,
+    };
+  },
+  icon: Images,
+  render: (call) => (
+    <span>
+      {call.status === 'running' ? t('chat.generatingImage') : call.status === 'error' ? t('chat.imageFailed') : String(call.args.prompt)}
+    </span>
+  ),
+};
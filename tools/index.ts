@@ -0,0 +1,10 @@
+import { registerTool } from './registry';
+import { calculatorTool } from './calculator';
+import { datetimeTool } from './datetime';
+import { unitConversionTool } from './unitConversion';
+import { imageGenerationTool } from './imageGeneration';
+
+// Built-in tools, offered to the model in every chat. Register more with registerTool().
+[calculatorTool, datetimeTool, unitConversionTool, imageGenerationTool].forEach(registerTool);
+
+export * from './registry';
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LLMChat, LLMPart, LLMStreamChunk } from '../services/llm';
+import { registerTool, runToolLoop, ToolLoopCallbacks } from './registry';
+
+let runs = 0;
+registerTool({
+  declaration: { name: 'count', description: 'Counts its calls', parameters: { type: 'object', properties: {} } },
+  execute: async () => ({ response: { count: ++runs } }),
+});
+
+// A chat whose model answers with the given chunks in turn, recording what it was sent
+const scriptedChat = (replies: LLMStreamChunk[]) => {
+  const sent: LLMPart[][] = [];
+  const chat: LLMChat = {
+    sendMessageStream: async function* (parts) {
+      sent.push(parts);
+      yield replies[Math.min(sent.length, replies.length) - 1];
+    },
+  };
+  return { chat, sent };
+};
+
+const callCount: LLMStreamChunk = { functionCalls: [{ id: 'c', name: 'count', args: {} }] };
+const callbacks: ToolLoopCallbacks = { onText: () => {}, onToolCalls: () => {}, onToolResults: () => {} };
+
+test('sends tool results back until the model answers with text', async () => {
+  runs = 0;
+  const { chat, sent } = scriptedChat([callCount, callCount, { text: 'Counted twice.' }]);
+  const turn = await runToolLoop(chat, [{ text: 'Count twice' }], new AbortController().signal, callbacks);
+
+  assert.equal(turn.text, 'Counted twice.');
+  assert.equal(turn.unanswered, false);
+  assert.equal(runs, 2);
+  assert.equal(sent.length, 3);
+  assert.deepEqual(sent[2], [{ functionResponse: { id: 'c', name: 'count', response: { count: 2 } } }]);
+});
+
+test('answers the calls of the last step with an error instead of running them', async () => {
+  runs = 0;
+  const { chat, sent } = scriptedChat([callCount, callCount, callCount, { text: 'Stopped counting.' }]);
+  const results: boolean[] = [];
+  const turn = await runToolLoop(chat, [{ text: 'Count forever' }], new AbortController().signal, {
+    ...callbacks,
+    onToolResults: executed => results.push(...executed.map(e => e.isError)),
+  }, 3);
+
+  assert.equal(runs, 2);
+  assert.deepEqual(results, [false, false, true]);
+  assert.equal(sent.length, 4);
+  assert.match(String(sent[3][0].functionResponse?.response.error), /step limit/);
+  assert.equal(turn.text, 'Stopped counting.');
+  assert.equal(turn.unanswered, false);
+});
+
+test('reports calls made after the limit as unanswered', async () => {
+  runs = 0;
+  const { chat, sent } = scriptedChat([callCount]);
+  const turn = await runToolLoop(chat, [{ text: 'Count forever' }], new AbortController().signal, callbacks, 2);
+
+  assert.equal(runs, 1);
+  assert.equal(sent.length, 3);
+  assert.equal(turn.unanswered, true);
+  assert.equal(turn.parts.filter(part => part.functionCall).length, 3);
+  assert.equal(turn.parts.filter(part => part.functionResponse).length, 2);
+});
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Attachment, ToolCall } from '../types';
+import { LLMChat, LLMFunctionCall, LLMPart, LLMToolDeclaration } from '../services/llm';
+
+// Tools the model may call. Each one brings its declaration (what the model sees), an executor
+// run in the browser and, optionally, a renderer for the call in the chat.
+
+export interface ToolResult {
+  response: Record<string, unknown>; // Sent back to the model as the function response
+  attachments?: Attachment[]; // Added to the reply, e.g. a generated image
+}
+
+export interface ToolContext {
+  signal: AbortSignal;
+}
+
+export interface Tool {
+  declaration: LLMToolDeclaration;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>;
+  icon?: React.ElementType; // Shown next to the call, a lucide icon
+  render?: (call: ToolCall) => React.ReactNode; // Falls back to the tool name
+}
+
+// Thrown by executors for bad arguments; the message is passed to the model so it can correct itself
+export class ToolError extends Error {}
+
+const tools = new Map<string, Tool>();
+
+export const registerTool = (tool: Tool) => {
+  tools.set(tool.declaration.name, tool);
+};
+
+export const getTool = (name: string) => tools.get(name);
+
+export const getToolDeclarations = (): LLMToolDeclaration[] => [...tools.values()].map(tool => tool.declaration);
+
+export interface ExecutedCall {
+  call: LLMFunctionCall;
+  result: ToolResult;
+  isError: boolean;
+}
+
+// Runs the calls of one model turn in parallel. Failures become `{ error }` responses rather than
+// exceptions, so the model always gets an answer for every call; only aborting throws.
+export const executeToolCalls = (calls: LLMFunctionCall[], context: ToolContext): Promise<ExecutedCall[]> =>
+  Promise.all(calls.map(async call => {
+    const tool = tools.get(call.name);
+    if (!tool) {
+      return { call, result: { response: { error: `Unknown tool: ${call.name}` } }, isError: true };
+    }
+    try {
+      return { call, result: await tool.execute(call.args || {}, context), isError: false };
+    } catch (error: any) {
+      if (context.signal.aborted) throw error;
+      if (!(error instanceof ToolError)) console.error(`Tool ${call.name} failed`, error);
+      return { call, result: { response: { error: error?.message || String(error) } }, isError: true };
+    }
+  }));
+
+export const toFunctionResponses = (executed: ExecutedCall[]): LLMPart[] =>
+  executed.map(({ call, result }) => ({
+    functionResponse: { id: call.id, name: call.name, response: result.response },
+  }));
+
+// Rounds of tool calls allowed in one reply, so a model that keeps calling tools still ends
+export const MAX_TOOL_STEPS = 8;
+
+const STEP_LIMIT_RESPONSE = { error: 'Tool step limit reached. Answer with the results you already have.' };
+
+export interface ToolLoopCallbacks {
+  onText: (text: string) => void;
+  onToolCalls: (calls: LLMFunctionCall[], step: number) => void;
+  onToolResults: (executed: ExecutedCall[], step: number) => void;
+}
+
+export interface ToolLoopResult {
+  text: string;
+  parts: LLMPart[]; // Everything sent in the turn, calls and responses included, for the token estimate
+  // The model still called tools after the limit; those calls have no response in the chat's history
+  unanswered: boolean;
+}
+
+// Sends `prompt` and answers the model's tool calls until it replies with text only. The calls of the
+// last step are not run but answered with an error, so the model still gets a response for each call
+// and writes its reply from what it has.
+export const runToolLoop = async (
+  chat: LLMChat,
+  prompt: LLMPart[],
+  signal: AbortSignal,
+  callbacks: ToolLoopCallbacks,
+  maxSteps = MAX_TOOL_STEPS,
+): Promise<ToolLoopResult> => {
+  let parts = prompt;
+  let text = '';
+  const turnParts: LLMPart[] = [...prompt];
+
+  for (let step = 0; ; step++) {
+    const functionCalls: LLMFunctionCall[] = [];
+    for await (const chunk of chat.sendMessageStream(parts, signal)) {
+      if (signal.aborted) break;
+      if (chunk.functionCalls) functionCalls.push(...chunk.functionCalls);
+      if (chunk.text) {
+        text += chunk.text;
+        callbacks.onText(chunk.text);
+      }
+    }
+
+    if (signal.aborted || functionCalls.length === 0) return { text, parts: turnParts, unanswered: false };
+    turnParts.push(...functionCalls.map(functionCall => ({ functionCall })));
+    if (step === maxSteps) return { text, parts: turnParts, unanswered: true };
+
+    callbacks.onToolCalls(functionCalls, step);
+    const executed = step < maxSteps - 1
+      ? await executeToolCalls(functionCalls, { signal })
+      : functionCalls.map(call => ({ call, result: { response: STEP_LIMIT_RESPONSE }, isError: true }));
+    if (signal.aborted) return { text, parts: turnParts, unanswered: true };
+
+    callbacks.onToolResults(executed, step);
+    parts = toFunctionResponses(executed);
+    turnParts.push(...parts);
+  }
+};
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import { Tool, ToolError } from './registry';
+
+// Unit conversion through a base unit per quantity. Temperatures are affine, so they are
+// converted through kelvin with an offset rather than a factor.
+
+interface Unit {
+  quantity: string;
+  factor: number; // Size in the quantity's base unit
+  offset?: number; // Added after scaling, for temperatures
+}
+
+const units: Record<string, Unit> = {};
+
+const define = (quantity: string, definitions: Record<string, number>, aliases: Record<string, string> = {}) => {
+  for (const [name, factor] of Object.entries(definitions)) units[name] = { quantity, factor };
+  for (const [alias, name] of Object.entries(aliases)) units[alias] = units[name];
+};
+
+// Length, base metre
+define('length', {
+  mm: 0.001, cm: 0.01, m: 1, km: 1000,
+  in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852,
+}, {
+  millimeter: 'mm', centimeter: 'cm', meter: 'm', metre: 'm', kilometer: 'km', kilometre: 'km',
+  inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', mile: 'mi', 'nautical mile': 'nmi',
+});
+
+// Mass, base kilogram
+define('mass', {
+  mg: 1e-6, g: 0.001, kg: 1, t: 1000,
+  oz: 0.028349523125, lb: 0.45359237, st: 6.35029318,
+}, {
+  milligram: 'mg', gram: 'g', kilogram: 'kg', tonne: 't', ton: 't',
+  ounce: 'oz', pound: 'lb', lbs: 'lb', stone: 'st',
+});
+
+// Volume, base litre
+define('volume', {
+  ml: 0.001, l: 1, m3: 1000,
+  tsp: 0.00492892159375, tbsp: 0.01478676478125, cup: 0.2365882365,
+  'fl oz': 0.0295735295625, pt: 0.473176473, qt: 0.946352946, gal: 3.785411784,
+}, {
+  milliliter: 'ml', millilitre: 'ml', liter: 'l', litre: 'l', 'cubic meter': 'm3',
+  teaspoon: 'tsp', tablespoon: 'tbsp', 'fluid ounce': 'fl oz', pint: 'pt', quart: 'qt', gallon: 'gal',
+});
+
+// Area, base square metre
+define('area', {
+  mm2: 1e-6, cm2: 1e-4, m2: 1, ha: 10_000, km2: 1e6,
+  in2: 0.00064516, ft2: 0.09290304, yd2: 0.83612736, acre: 4046.8564224, mi2: 2_589_988.110336,
+}, {
+  'square meter': 'm2', hectare: 'ha', 'square kilometer': 'km2', 'square foot': 'ft2', 'square feet': 'ft2', 'square mile': 'mi2',
+});
+
+// Speed, base metre per second
+define('speed', {
+  'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 0.514444, 'ft/s': 0.3048,
+}, {
+  kph: 'km/h', kmh: 'km/h', knots: 'knot', kn: 'knot',
+});
+
+// Time, base second
+define('time', {
+  ms: 0.001, s: 1, min: 60, h: 3600, day: 86_400, week: 604_800, year: 31_557_600,
+}, {
+  millisecond: 'ms', second: 's', sec: 's', minute: 'min', hour: 'h', hr: 'h', days: 'day', weeks: 'week', years: 'year',
+});
+
+// Digital storage, base byte
+define('data', {
+  bit: 0.125, b: 1, kb: 1000, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4,
+}, {
+  byte: 'b', bytes: 'b', kilobyte: 'kb', megabyte: 'mb', gigabyte: 'gb', terabyte: 'tb',
+});
+
+// Temperature, base kelvin
+units.k = { quantity: 'temperature', factor: 1 };
+units.c = { quantity: 'temperature', factor: 1, offset: 273.15 };
+units.f = { quantity: 'temperature', factor: 5 / 9, offset: 459.67 * 5 / 9 };
+Object.assign(units, {
+  kelvin: units.k, celsius: units.c, '°c': units.c, fahrenheit: units.f, '°f': units.f,
+});
+
+const normalizeUnit = (name: string) => name.trim().toLowerCase().replace(/²/g, '2').replace(/³/g, '3').replace(/s$/, '');
+
+const findUnit = (name: unknown): Unit => {
+  if (typeof name !== 'string' || !name.trim()) throw new ToolError('Missing unit');
+  const unit = units[name.trim().toLowerCase()] || units[normalizeUnit(name)];
+  if (!unit) throw new ToolError(`Unknown unit: ${name}`);
+  return unit;
+};
+
+export const convertUnits = (value: number, from: string, to: string) => {
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (source.quantity !== target.quantity) {
+    throw new ToolError(`Cannot convert ${source.quantity} (${from}) to ${target.quantity} (${to})`);
+  }
+  const base = value * source.factor + (source.offset || 0);
+  return (base - (target.offset || 0)) / target.factor;
+};
+
+export const unitConversionTool: Tool = {
+  declaration: {
+    name: 'convert_units',
+    description: 'Convert a value between units of length, mass, volume, area, speed, time, digital storage or temperature, e.g. miles to km, lb to kg, °F to °C, cups to ml, GB to GiB.',
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number', description: 'The amount to convert.' },
+        from: { type: 'string', description: 'Source unit, e.g. "mi", "lb", "F", "cup".' },
+        to: { type: 'string', description: 'Target unit, e.g. "km", "kg", "C", "ml".' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+  },
+  execute: async ({ value, from, to }) => {
+    const amount = Number(value);
+    if (!Number.isFinite(amount)) throw new ToolError('The value must be a number');
+    const result = Number(convertUnits(amount, String(from), String(to)).toPrecision(12));
+    return { response: { value: amount, from, to, result } };
+  },
+  icon: Ruler,
+  render: (call) => (
+    <span>
+      {String(call.args.value)} {String(call.args.from)} → {call.result && 'result' in call.result
+        ? <strong>{String(call.result.result)} {String(call.args.to)}</strong>
+        : String(call.args.to)}
+    </span>
+  ),
+};
@@ -7,18 +7,46 @@ export enum Sender {
 export type ModelId = 'gemini-3-flash-preview' | 'gemini-3-pro-preview';
 
 export interface Attachment {
+  id?: string; // Assigned when the attachment is persisted as a separate blob
   mimeType: string;
   data: string; // base64 string
   fileName?: string; // Add file name support
 }
 
+// A function the model called while answering, with its outcome; rendered above the reply
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  result?: Record<string, unknown>; // What was sent back to the model; `{ error }` when the call failed
+}
+
 export interface Message {
   id: string;
   sender: Sender;
   text: string;
   timestamp: Date;
   isError?: boolean;
-  attachment?: Attachment;
+  errorKind?: ApiErrorKind; // With isError, when the reply failed because of the API
+  attachments?: Attachment[];
+  parentId?: string | null; // Previous message in the conversation tree, null for the first one
+  isImageRequest?: boolean; // User prompt sent in image generation mode
+  imageOptions?: ImageOptions; // With isImageRequest, so a regenerated answer uses the same ones
+  selectedImage?: number; // Generated image replies with several variants: the one picked
+  toolCalls?: ToolCall[]; // Model replies only, in call order across all steps
+}
+
+// How a request to the model failed, see services/apiError.ts
+export type ApiErrorKind = 'rateLimit' | 'quota' | 'safety' | 'network' | 'invalidRequest' | 'auth' | 'server';
+
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+// Chosen in image mode, see services/imageOptions.ts
+export interface ImageOptions {
+  aspectRatio?: ImageAspectRatio;
+  variants?: number; // Images to generate and pick from, 1 by default
+  style?: string; // Id of a style preset
 }
 
 export interface ChatState {
@@ -26,9 +54,85 @@ export interface ChatState {
   isLoading: boolean;
 }
 
+// User-defined assistant: its own system prompt and preferred model
+export interface Persona {
+  id: string;
+  name: string;
+  systemInstruction: string;
+  defaultModel?: ModelId;
+  avatar?: string; // An emoji, or an image data URL
+  updatedAt: number;
+}
+
+// What a session keeps of the persona it was started with, so later edits or deletion don't change it
+export type SessionPersona = Pick<Persona, 'id' | 'name' | 'systemInstruction' | 'avatar'>;
+
+// Group of sessions in the history sidebar. Chats started in it get its defaults.
+export interface Folder {
+  id: string;
+  name: string;
+  defaultModel?: ModelId;
+  systemInstruction?: string; // Replaces k-ite's for chats started in the folder, unless they have a persona
+  updatedAt: number;
+}
+
+export type TagColor = 'slate' | 'red' | 'amber' | 'green' | 'blue' | 'purple' | 'pink';
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+export type ThinkingLevel = 'low' | 'high';
+
+// Sampling and reasoning options sent with every turn. Unset fields fall back to the next layer:
+// session overrides, then the user's defaults, then the model's own defaults.
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  thinkingLevel?: ThinkingLevel;
+  thinkingBudget?: number; // Tokens; 0 turns thinking off, -1 lets the model decide. Ignored when a level is set
+}
+
+// Rolling summary standing in for the oldest messages of a long branch, so it fits the context budget
+export interface ContextSummary {
+  text: string;
+  upToMessageId: string; // Last message covered; the summary only applies while that message is on the branch shown
+}
+
+// Attachment of a queued message; the payload is kept in the attachment store under `id`
+export type QueuedAttachment = Omit<Attachment, 'data'> & { id: string };
+
+// Message sent while offline, kept on its session until the connection is back
+export interface QueuedMessage {
+  id: string;
+  text: string;
+  attachments?: QueuedAttachment[];
+  isImageRequest?: boolean;
+  imageOptions?: ImageOptions;
+  queuedAt: number;
+}
+
 export interface ChatSession {
   id: string;
   title: string;
-  messages: Message[];
+  titleSource?: 'generated' | 'manual'; // Absent while the title is the first words of the first message
+  persona?: SessionPersona; // Absent for chats with the default k-ite assistant
+  generationSettings?: GenerationSettings; // Overrides of the user's defaults for this chat only
+  contextSummary?: ContextSummary;
+  messages: Message[]; // Every version of every message, linked through parentId
+  activeLeafId?: string; // Last message of the branch currently shown
+  outbox?: QueuedMessage[]; // Waiting to be sent, oldest first
+  pinned?: boolean;
+  folderId?: string;
+  tagIds?: string[];
+  systemInstruction?: string; // The folder's, when the chat was started in one
   updatedAt: number;
 }
+
+// Session as listed in the history sidebar; messages are loaded lazily when the session is opened
+export type ChatSessionMeta = Omit<ChatSession, 'messages'>;
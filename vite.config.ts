@@ -1,19 +1,93 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin, transformWithEsbuild } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+const base = '/k-ite-/';
+
+// Pyodide (Python for the code runner, see services/codeRunner.ts) is shipped with the app rather
+// than fetched from a CDN: its runtime files are served from node_modules in development and
+// copied to `pyodide/` in the build
+const PYODIDE_FILES = ['pyodide.mjs', 'pyodide.asm.mjs', 'pyodide.asm.wasm', 'python_stdlib.zip', 'pyodide-lock.json'];
+const pyodideDir = path.resolve(__dirname, 'node_modules/pyodide');
+
+const pyodideAssets = (): Plugin => ({
+  name: 'kite-pyodide-assets',
+  configureServer(server) {
+    server.middlewares.use(`${base}pyodide/`, (req, res, next) => {
+      const file = (req.url || '').split('?')[0].replace(/^\//, '');
+      if (!PYODIDE_FILES.includes(file)) return next();
+      if (file.endsWith('.wasm')) res.setHeader('Content-Type', 'application/wasm');
+      else if (file.endsWith('.mjs')) res.setHeader('Content-Type', 'text/javascript');
+      fs.createReadStream(path.join(pyodideDir, file)).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const file of PYODIDE_FILES) {
+      this.emitFile({ type: 'asset', fileName: `pyodide/${file}`, source: fs.readFileSync(path.join(pyodideDir, file)) });
+    }
+  },
+});
+
+// Files of public/ the app needs offline, besides the page and the bundle
+const PUBLIC_SHELL_FILES = ['manifest.webmanifest', 'icon.svg', 'icon-maskable.svg'];
+
+// The service worker (services/serviceWorker.ts) is compiled on its own to `sw.js`, so it can control
+// the whole site, with the files of this build and a cache name that changes with them. Everything
+// but Pyodide is cached on install, lazily loaded chunks included, so past chats render offline.
+const serviceWorker = (): Plugin => ({
+  name: 'kite-service-worker',
+  apply: 'build',
+  async generateBundle(_, bundle) {
+    const files = Object.keys(bundle).filter(fileName => !fileName.startsWith('pyodide/') && !fileName.endsWith('.map')).sort();
+    const urls = [base, ...[...files, ...PUBLIC_SHELL_FILES].map(fileName => `${base}${fileName}`)];
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+
+    const source = fs.readFileSync(path.resolve(__dirname, 'services/serviceWorker.ts'), 'utf8');
+    const { code } = await transformWithEsbuild(source, 'serviceWorker.ts', { minify: true });
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: `const __CACHE_NAME__=${JSON.stringify(`k-ite-${version}`)};const __SHELL_URLS__=${JSON.stringify(urls)};${code}`,
+    });
+  },
+});
+
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
-       base: '/k-ite-/',
+       base,
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // API proxy started with `npm run server`, which also hosts the development IdP
+        proxy: {
+          '/api': env.KITE_PROXY_TARGET || 'http://localhost:8787',
+          '/idp': env.KITE_PROXY_TARGET || 'http://localhost:8787',
+        },
       },
-      plugins: [react()],
+      plugins: [react(), pyodideAssets(), serviceWorker()],
+      // The code runner worker loads Pyodide with a dynamic import, which needs module workers
+      worker: { format: 'es' },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // GEMINI_API_KEY and the OPENAI_* server settings are deliberately NOT exposed here: only server/ reads them
+        'process.env.KITE_API_URL': JSON.stringify(env.KITE_API_URL || ''),
+        // OpenID Connect client settings, see services/auth.ts
+        'process.env.OIDC_ISSUER': JSON.stringify(env.OIDC_ISSUER || ''),
+        'process.env.OIDC_CLIENT_ID': JSON.stringify(env.OIDC_CLIENT_ID || ''),
+        'process.env.OIDC_SCOPE': JSON.stringify(env.OIDC_SCOPE || ''),
+        'process.env.OIDC_AUDIENCE': JSON.stringify(env.OIDC_AUDIENCE || ''),
+        // LLM provider selection: 'gemini' (default) or 'openai' for any OpenAI-compatible server
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || 'gemini'),
+        // Which model chats are titled with; the proxy reads it too, see server/openai.ts
+        'process.env.OPENAI_TITLE_MODEL': JSON.stringify(env.OPENAI_TITLE_MODEL || ''),
+        // Per-model context budgets in tokens, see services/contextWindow.ts
+        'process.env.KITE_CONTEXT_BUDGETS': JSON.stringify(env.KITE_CONTEXT_BUDGETS || ''),
+        // Where the code runner loads Pyodide from, see pyodideAssets above
+        'process.env.PYODIDE_URL': JSON.stringify(`${base}pyodide/`),
+        // Only builds have a service worker, see serviceWorker above
+        'process.env.SERVICE_WORKER_URL': JSON.stringify(command === 'build' ? `${base}sw.js` : '')
       },
       resolve: {
         alias: {